@@ -2,4 +2,5 @@
 console.log('Building API code for Vercel deployment...');
 
 // This file is just a marker for Vercel to recognize the API directory
-// The actual API code is in index.js 
\ No newline at end of file
+// The actual API code is in index.ts, which Vercel compiles along with the
+// shared server modules it imports from src/server/api
@@ -0,0 +1,111 @@
+// API handler for Vercel
+import express from "express";
+import cors from "cors";
+
+// The routes are shared with the dev server in src/server/index.ts, so both
+// serve the same API
+import { createApiRouter, apiErrorHandler } from "../src/server/api/routes";
+import { ensureLatestSchema, MigrationInProgressError, UnknownSchemaVersionError } from "../src/server/api/migrations";
+import { sendError, sendServerError } from "../src/server/api/errors";
+import { StorageUnavailableError, STALE_SINCE_HEADER } from "../src/server/api/storage";
+import { getConfig, requireValidConfig, ConfigError } from "../src/server/api/config";
+import { logger, requestLogging } from "../src/server/api/logger";
+import { requestMetrics } from "../src/server/api/metrics";
+
+const log = logger.child({ module: "vercel" });
+
+// Create the Express API
+const app = express();
+// Vercel's proxy sets X-Forwarded-For, so req.ip is the client's address,
+// which sign-in counts wrong PINs by
+if (process.env.VERCEL) {
+  app.set("trust proxy", true);
+}
+app.use(requestLogging);
+app.use(requestMetrics);
+app.use(cors({ exposedHeaders: ["X-Request-Id", STALE_SINCE_HEADER] }));
+app.use(express.json());
+
+// Answer every request with the configuration's problems until they are fixed
+// in the project's environment variables, rather than failing on first use
+app.use((req, res, next) => {
+  try {
+    getConfig();
+    next();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      next(error);
+      return;
+    }
+    log.error("Invalid configuration", { errors: error.errors });
+    sendError(res, "CONFIG_INVALID", "The server's environment variables are missing or insecure", {
+      errors: error.errors
+    });
+  }
+});
+
+// Answered without waiting for the schema, so an instance whose storage is
+// down still reports itself alive, degraded rather than dead, and serves its
+// metrics and docs. The readiness probe checks the schema itself.
+const SCHEMA_EXEMPT_PATHS = ["/api/health/live", "/api/health/ready", "/api/metrics", "/api/openapi.json", "/api/docs"];
+
+// Bring stored data up to the latest schema once per instance before handling
+// requests. Data migrated by a newer deployment is never touched. Only one
+// instance migrates at a time; the others wait for it, and answer
+// SCHEMA_NOT_READY if it takes too long.
+let schemaReady: Promise<void> | null = null;
+app.use(async (req, res, next) => {
+  if (SCHEMA_EXEMPT_PATHS.includes(req.path)) {
+    next();
+    return;
+  }
+  try {
+    schemaReady = schemaReady || ensureLatestSchema();
+    await schemaReady;
+    next();
+  } catch (error) {
+    // Retry on the next request unless the data is simply too new
+    if (!(error instanceof UnknownSchemaVersionError)) {
+      schemaReady = null;
+    }
+    // Storage that's down is reported as such, with when it's tried again
+    if (error instanceof StorageUnavailableError) {
+      sendServerError(res, error, "Failed to prepare stored data");
+      return;
+    }
+    if (error instanceof MigrationInProgressError) {
+      res.setHeader("Retry-After", Math.max(1, Math.ceil((Date.parse(error.expiresAt) - Date.now()) / 1000)));
+      sendError(res, "SCHEMA_NOT_READY", "Stored data is being migrated; try again shortly", { detail: error.message });
+      return;
+    }
+    log.error("Error preparing storage schema", { error });
+    sendError(res, "SCHEMA_NOT_READY", "Failed to prepare stored data", {
+      detail: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+app.use(createApiRouter());
+
+// Error handling middleware
+app.use(apiErrorHandler);
+
+// Start the server if we're not in Vercel. Vercel sets VERCEL itself, so it is
+// known before the .env files are loaded.
+if (!process.env.VERCEL) {
+  const { port } = requireValidConfig();
+  schemaReady = ensureLatestSchema();
+  schemaReady
+    .then(() => {
+      app.listen(port, () => {
+        log.info(`API server listening on port ${port}`);
+      });
+    })
+    .catch((error) => {
+      log.error("Error during server startup", { error });
+      process.exit(1);
+    });
+}
+
+// Export the Express API
+export default app;
@@ -5,15 +5,63 @@ import { BrowserRouter as Router, Routes, Route } from "react-router-dom"
 import { ThemeProvider } from "./components/theme-provider"
 import Settings from "./pages/Settings"
 import Dashboard from "./pages/Dashboard"
+import Login from "./pages/Login"
 import { Toaster } from "./components/ui/toaster"
 import { useToast } from "./hooks/use-toast"
 import { ErrorNotification } from "./components/error-notification"
+import { StorageReconnecting } from "./components/storage-reconnecting"
+import {
+  apiGet,
+  apiPost,
+  getReconnectingStatus,
+  isOutage,
+  replayQueuedWrites,
+  SIGNED_OUT_EVENT,
+  STORAGE_RECONNECTING_EVENT,
+  type StorageStatus
+} from "./lib/api"
+import { getOfflineState, OFFLINE_STATE_EVENT, setSignedInMember, type OfflineState } from "./lib/offline"
+import { describeError, type ErrorNotice } from "./lib/error-messages"
+import { RoleContext } from "./hooks/use-role"
+import type { Role } from "./server/api/contract"
 
 function App() {
   const { toast } = useToast()
   const [isConnected, setIsConnected] = useState(false)
-  const [connectionError, setConnectionError] = useState<string | null>(null)
+  const [connectionError, setConnectionError] = useState<ErrorNotice | null>(null)
   const [isCheckingConnection, setIsCheckingConnection] = useState(true)
+  // Set while the server is reconnecting to storage
+  const [reconnecting, setReconnecting] = useState<StorageStatus | null>(null)
+  // Whether the data shown was kept from before an outage, and how many
+  // changes are waiting to be sent
+  const [offline, setOffline] = useState<OfflineState>(getOfflineState())
+  const [session, setSession] = useState<{ signedIn: boolean; pinSet: boolean; role?: Role } | null>(null)
+
+  // Every page but the sign-in screen needs a session, and what they offer
+  // depends on the session's role. Changes queued offline are sent as the
+  // member who made them.
+  const loadSession = () =>
+    apiGet("/api/auth/session")
+      .then(({ signedIn, pinSet, memberId, role }) => {
+        setSignedInMember(memberId ?? null)
+        setSession({ signedIn, pinSet, role })
+      })
+      .catch((err) => {
+        console.error("Session check failed:", err)
+        setConnectionError(describeError(err))
+      })
+
+  useEffect(() => {
+    loadSession()
+
+    // Any request can find the session expired or signed out
+    const signedOut = () => {
+      setSignedInMember(null)
+      setSession((current) => ({ signedIn: false, pinSet: current?.pinSet ?? true }))
+    }
+    window.addEventListener(SIGNED_OUT_EVENT, signedOut)
+    return () => window.removeEventListener(SIGNED_OUT_EVENT, signedOut)
+  }, [])
 
   useEffect(() => {
     // Check Redis connection on app load
@@ -22,56 +70,25 @@ function App() {
       try {
         // Try checking the connection
         console.log("Checking Redis connection...")
-        const res = await fetch("/api/redis/check-connection")
-        
-        // Check if the response status is OK
-        if (!res.ok) {
-          const errorText = await res.text()
-          console.error("Redis connection check returned non-OK status:", res.status, errorText)
-          setConnectionError(`API returned status ${res.status}: ${errorText.substring(0, 100)}`)
-          setIsConnected(false)
-          return
-        }
-        
-        // Parse the response as JSON
-        let data
-        try {
-          const responseText = await res.text()
-          console.log("Raw response:", responseText)
-          data = JSON.parse(responseText)
-        } catch (parseError) {
-          console.error("Failed to parse response as JSON:", parseError)
-          setConnectionError("Invalid JSON response from connection check")
-          setIsConnected(false)
-          return
-        }
-        
-        // Check if the connection is successful
+        const data = await apiGet("/api/redis/check-connection")
         setIsConnected(data.connected)
-        
-        if (data.connected) {
-          toast({
-            title: "Database Connected",
-            description: "Successfully connected to Upstash Redis database",
-          })
-        } else {
-          console.error("Redis connection failed:", data)
-          setConnectionError(data.error || "Unknown connection error")
-          toast({
-            variant: "destructive",
-            title: "Connection Failed",
-            description: data.message || "Could not connect to the database. Some features may not work.",
-          })
-        }
-      } catch (err) {
-        console.error("Exception during Redis connection check:", err)
-        setIsConnected(false)
-        setConnectionError(err instanceof Error ? err.message : "Network error")
+        setReconnecting(null)
         toast({
-          variant: "destructive",
-          title: "Connection Failed",
-          description: "Could not connect to the API server. Check if the server is running.",
+          title: "Database Connected",
+          description: "Successfully connected to Upstash Redis database",
         })
+      } catch (err) {
+        console.error("Redis connection check failed:", err)
+        setIsConnected(false)
+        // A server that's reconnecting is shown as such; the check runs again
+        // once reconnecting is set, see below
+        const status = getReconnectingStatus(err)
+        if (status) {
+          setReconnecting(status)
+        } else if (!(isOutage(err) && getOfflineState().staleSince)) {
+          // Unless the data kept on this device is being shown instead
+          setConnectionError(describeError(err))
+        }
       } finally {
         setIsCheckingConnection(false)
       }
@@ -80,40 +97,85 @@ function App() {
     checkConnection()
   }, [toast])
 
-  // Reinitialize Redis data
-  const reinitializeRedisData = async () => {
-    try {
-      // Call the server endpoint to reinitialize data
-      const response = await fetch("/api/redis/initialize-data", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
+  // Any request can find the server reconnecting to storage
+  useEffect(() => {
+    const storageReconnecting = (event: Event) => setReconnecting((event as CustomEvent<StorageStatus>).detail)
+    window.addEventListener(STORAGE_RECONNECTING_EVENT, storageReconnecting)
+    return () => window.removeEventListener(STORAGE_RECONNECTING_EVENT, storageReconnecting)
+  }, [])
+
+  // While it is, check again after the server's next attempt, every 2 to 30s
+  useEffect(() => {
+    if (!reconnecting) {
+      return
+    }
+    const delay = reconnecting.retryAt ? Date.parse(reconnecting.retryAt) - Date.now() + 500 : 2000
+    const timer = setTimeout(async () => {
+      try {
+        const data = await apiGet("/api/redis/check-connection")
+        setIsConnected(data.connected)
+        setReconnecting(null)
+        toast({ title: "Reconnected", description: "The database is back; changes are saved again." })
+      } catch (err) {
+        // A new status from the event starts the next wait
+        if (!getReconnectingStatus(err)) {
+          setReconnecting(null)
+          setConnectionError(describeError(err))
         }
-      })
-      
-      if (!response.ok) {
-        const errorText = await response.text()
-        toast({
-          variant: "destructive",
-          title: "Initialization Failed",
-          description: `Server returned error: ${errorText.substring(0, 100)}`,
-        })
+      }
+    }, Math.min(30_000, Math.max(2000, delay)))
+    return () => clearTimeout(timer)
+  }, [reconnecting, toast])
+
+  useEffect(() => {
+    const offlineStateChanged = (event: Event) => setOffline((event as CustomEvent<OfflineState>).detail)
+    window.addEventListener(OFFLINE_STATE_EVENT, offlineStateChanged)
+    return () => window.removeEventListener(OFFLINE_STATE_EVENT, offlineStateChanged)
+  }, [])
+
+  // While saved data is shown or changes are waiting to be sent, check every
+  // 10s whether the server is back, then send them. A reconnecting server is
+  // checked by the effect above instead, and changes wait while signed out.
+  useEffect(() => {
+    if (reconnecting || !session?.signedIn || (!offline.staleSince && offline.queued === 0)) {
+      return
+    }
+    const sync = async () => {
+      try {
+        // A read that answers with live data clears staleSince
+        await apiGet("/api/redis/check-connection")
+      } catch {
         return
       }
-      
-      const data = await response.json()
-      
-      if (data.success) {
+      const { sent, failed } = await replayQueuedWrites()
+      if (sent > 0) {
+        toast({ title: "Changes sent", description: `${sent} ${sent === 1 ? "change" : "changes"} saved on this device have been sent.` })
+      }
+      if (failed > 0) {
         toast({
-          title: "Data Initialized",
-          description: "Redis database has been successfully initialized.",
+          variant: "destructive",
+          title: "Changes not saved",
+          description: `${failed} ${failed === 1 ? "change" : "changes"} saved on this device couldn't be sent, e.g. because someone else made them first.`
         })
-        
-        // Refresh the page to reload all data
-        window.location.reload()
-      } else {
-        throw new Error(data.message || "Failed to initialize data")
       }
+    }
+    sync()
+    const timer = setInterval(sync, 10_000)
+    return () => clearInterval(timer)
+  }, [reconnecting, session?.signedIn, offline.staleSince, offline.queued, toast])
+
+  // Reinitialize Redis data
+  const reinitializeRedisData = async () => {
+    try {
+      // Call the server endpoint to reinitialize data
+      await apiPost("/api/redis/initialize-data", undefined)
+      toast({
+        title: "Data Initialized",
+        description: "Redis database has been successfully initialized.",
+      })
+      
+      // Refresh the page to reload all data
+      window.location.reload()
     } catch (error) {
       console.error("Error initializing data:", error)
       toast({
@@ -129,16 +191,18 @@ function App() {
       <Router>
         <div className="min-h-screen bg-background">
           {connectionError && (
-            <ErrorNotification
-              title="API Connection Error"
-              description={`The application could not connect to the API server: ${connectionError}`}
-              command="npx tsx src/scripts/init-all.ts"
-              additionalInstructions="If the issue persists after running this command, try stopping and restarting the development servers with 'sh dev-setup.sh'."
-              onClose={() => setConnectionError(null)}
-            />
+            <ErrorNotification {...connectionError} onClose={() => setConnectionError(null)} />
+          )}
+
+          {(reconnecting || offline.staleSince || offline.queued > 0) && (
+            <StorageReconnecting status={reconnecting} offline={offline} />
           )}
           
-          {!isConnected && !isCheckingConnection && (
+          {session && !session.signedIn && (
+            <Login pinSet={session.pinSet} heldChanges={offline.held} onSignedIn={loadSession} />
+          )}
+
+          {session?.signedIn && session.role === "owner" && !isConnected && !isCheckingConnection && !reconnecting && (
             <div className="flex justify-center pt-8">
               <button 
                 onClick={reinitializeRedisData}
@@ -149,10 +213,14 @@ function App() {
             </div>
           )}
           
-          <Routes>
-            <Route path="/" element={<Dashboard />} />
-            <Route path="/settings" element={<Settings />} />
-          </Routes>
+          {session?.signedIn && (
+            <RoleContext.Provider value={session.role ?? "viewer"}>
+              <Routes>
+                <Route path="/" element={<Dashboard />} />
+                <Route path="/settings" element={<Settings />} />
+              </Routes>
+            </RoleContext.Provider>
+          )}
           <Toaster />
         </div>
       </Router>
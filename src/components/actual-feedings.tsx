@@ -12,6 +12,13 @@ import {
   TableHeader, 
   TableRow 
 } from "@/components/ui/table"
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle
+} from "@/components/ui/drawer"
 import { formatDate } from "@/lib/utils"
 import { 
   Pencil, 
@@ -20,29 +27,54 @@ import {
   Save, 
   X,
   Calendar,
-  Clock
+  Clock,
+  History,
+  RotateCcw,
+  Trash2
 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { useRole } from "@/hooks/use-role"
+import { ToastAction } from "@/components/ui/toast"
 import { Skeleton } from "@/components/ui/skeleton"
+import { isQueuedRecord, WriteQueuedError } from "@/lib/offline"
+import type { ActualFeeding, VolumeUnit } from "../server/api/feedings"
+import type { AuditEntry } from "../server/api/audit"
+import type { TrashedFeeding } from "../server/api/trash"
+import { parseFeedingMoment } from "../server/api/feeding-time"
+import { fromMillilitres, toMillilitres } from "../server/api/volume"
 
-// Define the ActualFeeding interface
-export interface ActualFeeding {
-  id: string
-  date: string
-  time?: string
-  actualTime: string
-  planTime: string
-  amount?: number
-  Amount?: string
-  notes?: string
+export type { ActualFeeding }
+
+// Thrown by the feeding handlers when someone else changed the record first
+export class FeedingConflictError extends Error {
+  constructor(message: string, readonly current?: ActualFeeding) {
+    super(message)
+    this.name = "FeedingConflictError"
+  }
 }
 
 interface ActualFeedingsProps {
   actualFeedings: ActualFeeding[]
   useMetric?: boolean
-  onAddFeeding: (feeding: Omit<ActualFeeding, "id">) => Promise<void>
-  onUpdateFeeding: (id: string, feeding: Partial<Omit<ActualFeeding, "id">>) => Promise<void>
-  onRemoveFeeding: (id: string) => Promise<void>
+  onAddFeeding: (feeding: Omit<ActualFeeding, "id" | "version">) => Promise<void>
+  // version is the version of the record being edited, used to detect conflicting edits
+  onUpdateFeeding: (id: string, feeding: Partial<Omit<ActualFeeding, "id">>, version?: number) => Promise<void>
+  onRemoveFeeding: (id: string, version?: number) => Promise<void>
+  // Audit log entries about one feeding, newest first
+  onLoadHistory: (id: string) => Promise<AuditEntry[]>
+  // Puts a feeding back the way an audit entry left it
+  onRestoreVersion: (entryId: string, version?: number) => Promise<void>
+  // Recently removed feedings, most recently removed first, and how many days they are kept
+  onLoadTrash: () => Promise<{ trash: TrashedFeeding[]; retentionDays: number }>
+  // Puts a removed feeding back from the trash
+  onRestoreFeeding: (id: string) => Promise<void>
+}
+
+const HISTORY_ACTIONS: Record<AuditEntry["action"], string> = {
+  create: "Added",
+  update: "Changed",
+  remove: "Removed",
+  restore: "Restored"
 }
 
 export default function ActualFeedings({
@@ -50,8 +82,16 @@ export default function ActualFeedings({
   useMetric = false,
   onAddFeeding,
   onUpdateFeeding,
-  onRemoveFeeding
+  onRemoveFeeding,
+  onLoadHistory,
+  onRestoreVersion,
+  onLoadTrash,
+  onRestoreFeeding
 }: ActualFeedingsProps) {
+  const { can } = useRole()
+  // Caregivers log and correct feedings; only the owner removes or restores them
+  const canLog = can("caregiver")
+  const canRemove = can("owner")
   const [editingId, setEditingId] = useState<string | null>(null)
   const [isAdding, setIsAdding] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -63,39 +103,38 @@ export default function ActualFeedings({
   const [formAmount, setFormAmount] = useState("")
   const [formNotes, setFormNotes] = useState("")
   
+  // History drawer
+  const [historyFeeding, setHistoryFeeding] = useState<ActualFeeding | null>(null)
+  const [history, setHistory] = useState<AuditEntry[]>([])
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false)
+  
+  // Trash drawer
+  const [isTrashOpen, setIsTrashOpen] = useState(false)
+  const [trash, setTrash] = useState<TrashedFeeding[]>([])
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(null)
+  const [isLoadingTrash, setIsLoadingTrash] = useState(false)
+  
   const { toast } = useToast()
   
-  // Sort feedings by date and time (newest first)
-  const sortedFeedings = [...actualFeedings].sort((a, b) => {
-    const dateComparison = new Date(b.date).getTime() - new Date(a.date).getTime()
-    if (dateComparison !== 0) return dateComparison
-    
-    // Compare by actualTime if available, or fall back to time
-    const aTime = a.actualTime || a.time || ""
-    const bTime = b.actualTime || b.time || ""
-    return bTime.localeCompare(aTime)
-  })
+  const unit: VolumeUnit = useMetric ? "ml" : "oz"
+  
+  // Sort feedings by when they happened (newest first)
+  const sortedFeedings = [...actualFeedings].sort((a, b) =>
+    new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime()
+  )
   
   const formatAmount = (feeding: ActualFeeding) => {
-    // Handle both formats (amount as number or Amount as string)
-    if (feeding.amount !== undefined) {
-      return useMetric 
-        ? `${Math.round(feeding.amount * 29.5735)} ml` 
-        : `${feeding.amount} oz`
-    } else if (feeding.Amount) {
-      return feeding.Amount // Already formatted as string
-    }
-    return "N/A"
+    return useMetric 
+      ? `${Math.round(feeding.volumeMl)} ml` 
+      : `${fromMillilitres(feeding.volumeMl, "oz")} oz`
   }
   
   const startEditing = (feeding: ActualFeeding) => {
     setEditingId(feeding.id)
-    setFormDate(feeding.date)
-    setFormPlanTime(feeding.planTime || "")
-    setFormActualTime(feeding.actualTime || feeding.time || "")
-    // Handle both formats
-    setFormAmount(feeding.amount !== undefined ? feeding.amount.toString() : 
-                (feeding.Amount ? feeding.Amount.replace(/[^\d.-]/g, '') : ""))
+    setFormDate(formatDate(new Date(feeding.occurredAt)))
+    setFormPlanTime(feeding.plannedFor ? formatTime(feeding.plannedFor) : "")
+    setFormActualTime(formatTime(feeding.occurredAt))
+    setFormAmount(fromMillilitres(feeding.volumeMl, unit).toString())
     setFormNotes(feeding.notes || "")
   }
   
@@ -142,6 +181,18 @@ export default function ActualFeedings({
         return
       }
       
+      // Times are read in the browser's time zone unless they name one
+      const occurredAt = parseFeedingMoment(formDate, formActualTime)
+      const plannedFor = formPlanTime ? parseFeedingMoment(formDate, formPlanTime) : null
+      if (occurredAt === null || (formPlanTime && plannedFor === null)) {
+        toast({
+          variant: "destructive",
+          title: "Invalid time",
+          description: "Please enter times like 9:45 am or 21:45"
+        })
+        return
+      }
+      
       const amount = parseFloat(formAmount)
       if (isNaN(amount) || amount <= 0) {
         toast({
@@ -153,20 +204,17 @@ export default function ActualFeedings({
       }
       
       const feedingData = {
-        date: formDate,
-        planTime: formPlanTime,
-        actualTime: formActualTime,
-        amount,
+        occurredAt: new Date(occurredAt).toISOString(),
+        ...(plannedFor !== null && { plannedFor: new Date(plannedFor).toISOString() }),
+        volumeMl: toMillilitres(amount, unit),
+        sourceUnit: unit,
         notes: formNotes
       }
       
       if (id && editingId) {
         // Update existing feeding
-        await onUpdateFeeding(id, feedingData)
-        toast({
-          title: "Feeding updated",
-          description: "The feeding record has been updated successfully"
-        })
+        const feeding = actualFeedings.find((f) => f.id === id)
+        await saveUpdate(id, feedingData, feeding?.version ?? 0)
       } else {
         // Add new feeding
         await onAddFeeding(feedingData)
@@ -174,11 +222,15 @@ export default function ActualFeedings({
           title: "Feeding added",
           description: "The feeding record has been added successfully"
         })
+        cancelEditing()
       }
-      
-      // Reset form and state
-      cancelEditing()
     } catch (error) {
+      // Logged while offline: it is sent once the connection is back
+      if (error instanceof WriteQueuedError) {
+        toast({ title: "Saved on this device", description: error.message })
+        cancelEditing()
+        return
+      }
       console.error("Error submitting feeding:", error)
       toast({
         variant: "destructive",
@@ -190,50 +242,182 @@ export default function ActualFeedings({
     }
   }
   
-  const handleRemove = async (id: string) => {
-    if (confirm("Are you sure you want to remove this feeding record?")) {
-      try {
-        await onRemoveFeeding(id)
-        toast({
-          title: "Feeding removed",
-          description: "The feeding record has been removed successfully"
-        })
-      } catch (error) {
-        console.error("Error removing feeding:", error)
+  // Saves an edit; if another caregiver changed the record first, the list has
+  // already been refreshed and the toast offers to save over their version
+  const saveUpdate = async (id: string, feedingData: Partial<Omit<ActualFeeding, "id">>, version: number) => {
+    try {
+      await onUpdateFeeding(id, feedingData, version)
+      toast({
+        title: "Feeding updated",
+        description: "The feeding record has been updated successfully"
+      })
+      cancelEditing()
+    } catch (error) {
+      if (!(error instanceof FeedingConflictError)) {
+        throw error
+      }
+      
+      const current = error.current
+      toast({
+        variant: "destructive",
+        title: "Feeding changed on another device",
+        description: current
+          ? "Your changes were not saved. The list now shows the latest version."
+          : "This feeding has been removed by someone else.",
+        action: current ? (
+          <ToastAction altText="Save my changes anyway" onClick={() => saveUpdate(id, feedingData, current.version ?? 0)}>
+            Save mine
+          </ToastAction>
+        ) : undefined
+      })
+      if (!current) {
+        cancelEditing()
+      }
+    }
+  }
+  
+  // confirmed skips the prompt when retrying a removal from the conflict toast
+  const handleRemove = async (feeding: ActualFeeding, confirmed = false) => {
+    if (!confirmed && !confirm("Are you sure you want to remove this feeding record?")) {
+      return
+    }
+    
+    try {
+      await onRemoveFeeding(feeding.id, feeding.version ?? 0)
+      toast({
+        title: "Feeding removed",
+        description: "The feeding record has been moved to the trash",
+        action: (
+          <ToastAction altText="Undo removing the feeding" onClick={() => handleRestoreFromTrash(feeding.id)}>
+            Undo
+          </ToastAction>
+        )
+      })
+    } catch (error) {
+      console.error("Error removing feeding:", error)
+      
+      if (error instanceof FeedingConflictError) {
+        const current = error.current
         toast({
           variant: "destructive",
-          title: "Error",
-          description: "There was an error removing the feeding data"
+          title: "Feeding changed on another device",
+          description: current
+            ? "It was edited before you removed it. Check the latest version in the list."
+            : "This feeding has already been removed.",
+          action: current ? (
+            <ToastAction altText="Remove it anyway" onClick={() => handleRemove(current, true)}>
+              Remove anyway
+            </ToastAction>
+          ) : undefined
         })
+        return
       }
+      
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "There was an error removing the feeding data"
+      })
     }
   }
   
-  // Format time function to remove timezone and convert to AM/PM format
-  const formatTime = (timeString: string | undefined): string => {
-    if (!timeString) return "N/A";
-    
-    // Remove timezone info (like CDT)
-    const timeWithoutTimezone = timeString.replace(/\s+[A-Z]{3,4}$/i, '');
+  const handleRestoreFromTrash = async (id: string) => {
+    try {
+      await onRestoreFeeding(id)
+      setTrash((current) => current.filter((feeding) => feeding.id !== id))
+      toast({
+        title: "Feeding restored",
+        description: "The feeding record is back in the list"
+      })
+    } catch (error) {
+      console.error("Error restoring feeding:", error)
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "There was an error restoring the feeding"
+      })
+    }
+  }
+  
+  const openTrash = async () => {
+    setIsTrashOpen(true)
+    setIsLoadingTrash(true)
     
-    // Check if it's already in AM/PM format
-    if (timeWithoutTimezone.match(/am|pm/i)) {
-      // Ensure consistent AM/PM capitalization
-      return timeWithoutTimezone.replace(/am|pm/i, (match) => match.toUpperCase());
+    try {
+      const { trash, retentionDays } = await onLoadTrash()
+      setTrash(trash)
+      setTrashRetentionDays(retentionDays)
+    } catch (error) {
+      console.error("Error loading trash:", error)
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "There was an error loading the removed feedings"
+      })
+    } finally {
+      setIsLoadingTrash(false)
     }
+  }
+  
+  const openHistory = async (feeding: ActualFeeding) => {
+    setHistoryFeeding(feeding)
+    setHistory([])
+    setIsLoadingHistory(true)
     
-    // Try to parse 24-hour format (like "15:00")
-    const timeMatch = timeWithoutTimezone.match(/^(\d{1,2}):(\d{2})$/);
-    if (timeMatch) {
-      const [_, hours, minutes] = timeMatch;
-      const hour = parseInt(hours, 10);
-      const isPM = hour >= 12;
-      const hour12 = hour % 12 || 12;
-      return `${hour12}:${minutes} ${isPM ? 'PM' : 'AM'}`;
+    try {
+      setHistory(await onLoadHistory(feeding.id))
+    } catch (error) {
+      console.error("Error loading feeding history:", error)
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "There was an error loading the feeding history"
+      })
+    } finally {
+      setIsLoadingHistory(false)
+    }
+  }
+  
+  const handleRestore = async (entry: AuditEntry) => {
+    try {
+      await onRestoreVersion(entry.id, historyFeeding?.version ?? 0)
+      toast({
+        title: "Feeding restored",
+        description: "The earlier version of the feeding has been restored"
+      })
+      setHistoryFeeding(null)
+    } catch (error) {
+      console.error("Error restoring feeding:", error)
+      toast({
+        variant: "destructive",
+        title: error instanceof FeedingConflictError ? "Feeding changed on another device" : "Error",
+        description: error instanceof FeedingConflictError
+          ? "It was edited while you were looking at its history. Check the latest version in the list."
+          : "There was an error restoring the feeding"
+      })
+      setHistoryFeeding(null)
     }
+  }
+  
+  // The amount before and after a change, e.g. "4 oz → 5 oz"
+  const describeChange = (entry: AuditEntry) => {
+    const before = entry.before as ActualFeeding | null
+    const after = entry.after as ActualFeeding | null
+    if (before && after && before.volumeMl !== after.volumeMl) {
+      return `${formatAmount(before)} → ${formatAmount(after)}`
+    }
+    const feeding = after ?? before
+    return feeding ? `${formatAmount(feeding)} at ${formatTime(feeding.occurredAt)}` : ""
+  }
+  
+  // Format an ISO instant as a local AM/PM time
+  const formatTime = (instant: string | undefined): string => {
+    if (!instant) return "N/A";
     
-    // Return original without timezone if we can't parse it
-    return timeWithoutTimezone;
+    const date = new Date(instant);
+    const hour12 = date.getHours() % 12 || 12;
+    const minutes = String(date.getMinutes()).padStart(2, '0');
+    return `${hour12}:${minutes} ${date.getHours() >= 12 ? 'PM' : 'AM'}`;
   };
   
   const renderEditForm = (feeding: ActualFeeding | null = null) => {
@@ -290,7 +474,7 @@ export default function ActualFeedings({
         </div>
         
         <div className="space-y-2">
-          <Label htmlFor="amount">Amount ({useMetric ? "ml" : "oz"})</Label>
+          <Label htmlFor="amount">Amount ({unit})</Label>
           <Input 
             id="amount" 
             type="number" 
@@ -337,9 +521,16 @@ export default function ActualFeedings({
       <CardHeader>
         <CardTitle className="flex justify-between items-center">
           <span>Feeding Records</span>
-          <Button onClick={handleAdd} size="sm" className="flex items-center gap-1">
-            <Plus className="h-4 w-4" /> Add Record
-          </Button>
+          <div className="flex gap-2">
+            <Button onClick={openTrash} size="sm" variant="outline" className="flex items-center gap-1">
+              <Trash2 className="h-4 w-4" /> Trash
+            </Button>
+            {canLog && (
+              <Button onClick={handleAdd} size="sm" className="flex items-center gap-1">
+                <Plus className="h-4 w-4" /> Add Record
+              </Button>
+            )}
+          </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -382,28 +573,45 @@ export default function ActualFeedings({
                       </TableRow>
                     ) : (
                       <TableRow key={feeding.id}>
-                        <TableCell>{feeding.date}</TableCell>
-                        <TableCell>{formatTime(feeding.planTime)}</TableCell>
-                        <TableCell>{formatTime(feeding.actualTime || feeding.time)}</TableCell>
+                        <TableCell>{formatDate(new Date(feeding.occurredAt))}</TableCell>
+                        <TableCell>{formatTime(feeding.plannedFor)}</TableCell>
+                        <TableCell>{formatTime(feeding.occurredAt)}</TableCell>
                         <TableCell>{formatAmount(feeding)}</TableCell>
                         <TableCell className="max-w-[200px] truncate">{feeding.notes || "-"}</TableCell>
                         <TableCell className="text-right">
-                          <div className="flex justify-end gap-2">
-                            <Button 
-                              onClick={() => startEditing(feeding)} 
-                              size="icon" 
-                              variant="ghost"
-                            >
-                              <Pencil className="h-4 w-4" />
-                            </Button>
-                            <Button 
-                              onClick={() => handleRemove(feeding.id)} 
-                              size="icon" 
-                              variant="ghost"
-                            >
-                              <Trash className="h-4 w-4" />
-                            </Button>
-                          </div>
+                          {/* Logged offline: the server has no record to change until it's sent */}
+                          {isQueuedRecord(feeding.id) ? (
+                            <span className="text-xs text-muted-foreground">Waiting to be sent</span>
+                          ) : (
+                            <div className="flex justify-end gap-2">
+                              {canLog && (
+                                <Button 
+                                  onClick={() => startEditing(feeding)} 
+                                  size="icon" 
+                                  variant="ghost"
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              )}
+                              <Button 
+                                onClick={() => openHistory(feeding)} 
+                                size="icon" 
+                                variant="ghost"
+                                aria-label="History"
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                              {canRemove && (
+                                <Button 
+                                  onClick={() => handleRemove(feeding)} 
+                                  size="icon" 
+                                  variant="ghost"
+                                >
+                                  <Trash className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          )}
                         </TableCell>
                       </TableRow>
                     )
@@ -414,6 +622,118 @@ export default function ActualFeedings({
           </>
         )}
       </CardContent>
+      
+      <Drawer open={!!historyFeeding} onOpenChange={(open) => !open && setHistoryFeeding(null)}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle>Feeding History</DrawerTitle>
+            <DrawerDescription>
+              Every change to this feeding, newest first. Restore puts the feeding back the way a change left it.
+            </DrawerDescription>
+          </DrawerHeader>
+          <div className="px-4 pb-6 max-h-[60vh] overflow-y-auto">
+            {isLoadingHistory ? (
+              <div className="space-y-2">
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-full" />
+              </div>
+            ) : history.length === 0 ? (
+              <div className="text-center py-4 text-muted-foreground">
+                No changes have been recorded for this feeding.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map((entry, index) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{formatDate(new Date(entry.at))} {formatTime(entry.at)}</TableCell>
+                      <TableCell>{HISTORY_ACTIONS[entry.action]}</TableCell>
+                      <TableCell>{entry.actor}</TableCell>
+                      <TableCell>{describeChange(entry)}</TableCell>
+                      <TableCell className="text-right">
+                        {/* The newest entry is the feeding as it is now */}
+                        {canRemove && index > 0 && entry.action !== "remove" && (
+                          <Button onClick={() => handleRestore(entry)} size="sm" variant="outline" className="gap-1">
+                            <RotateCcw className="h-4 w-4" /> Restore
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </DrawerContent>
+      </Drawer>
+      
+      <Drawer open={isTrashOpen} onOpenChange={setIsTrashOpen}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle>Removed Feedings</DrawerTitle>
+            <DrawerDescription>
+              Removed feedings are kept for {trashRetentionDays ?? "a few"} days and can be put back until then.
+            </DrawerDescription>
+          </DrawerHeader>
+          <div className="px-4 pb-6 max-h-[60vh] overflow-y-auto">
+            {isLoadingTrash ? (
+              <div className="space-y-2">
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-full" />
+              </div>
+            ) : trash.length === 0 ? (
+              <div className="text-center py-4 text-muted-foreground">
+                No feedings have been removed recently.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Actual Time</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Removed</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trash.map((feeding) => (
+                    <TableRow key={feeding.id}>
+                      <TableCell>{formatDate(new Date(feeding.occurredAt))}</TableCell>
+                      <TableCell>{formatTime(feeding.occurredAt)}</TableCell>
+                      <TableCell>{formatAmount(feeding)}</TableCell>
+                      <TableCell>
+                        {formatDate(new Date(feeding.deletedAt))} {formatTime(feeding.deletedAt)} by {feeding.deletedBy}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canRemove && (
+                          <Button
+                            onClick={() => handleRestoreFromTrash(feeding.id)}
+                            size="sm"
+                            variant="outline"
+                            className="gap-1"
+                          >
+                            <RotateCcw className="h-4 w-4" /> Restore
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </DrawerContent>
+      </Drawer>
     </Card>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { Plus, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useRole } from "@/hooks/use-role"
+import type { Child } from "@/lib/children"
+
+interface ChildSwitcherProps {
+  childList: Child[]
+  activeChildId: string | null
+  onSelectChild: (childId: string) => void
+  onAddChild: (name: string, birthDate?: string) => Promise<void>
+}
+
+export default function ChildSwitcher({
+  childList,
+  activeChildId,
+  onSelectChild,
+  onAddChild
+}: ChildSwitcherProps) {
+  const [isAdding, setIsAdding] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [formName, setFormName] = useState("")
+  const [formBirthDate, setFormBirthDate] = useState("")
+
+  const { toast } = useToast()
+  const { can } = useRole()
+
+  const cancelAdding = () => {
+    setIsAdding(false)
+    setFormName("")
+    setFormBirthDate("")
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!formName.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Name is required",
+        description: "Please enter the child's name"
+      })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await onAddChild(formName.trim(), formBirthDate ? new Date(formBirthDate).toISOString() : undefined)
+      toast({
+        title: "Child added",
+        description: `Now showing ${formName.trim()}'s feedings`
+      })
+      cancelAdding()
+    } catch (error) {
+      console.error("Error adding child:", error)
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "There was an error adding the child"
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Select value={activeChildId ?? undefined} onValueChange={onSelectChild}>
+          <SelectTrigger className="w-48" aria-label="Child">
+            <SelectValue placeholder="Select a child" />
+          </SelectTrigger>
+          <SelectContent>
+            {childList.map((child) => (
+              <SelectItem key={child.id} value={child.id}>
+                {child.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {can("owner") && (
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => (isAdding ? cancelAdding() : setIsAdding(true))}
+            aria-label={isAdding ? "Cancel adding a child" : "Add a child"}
+          >
+            {isAdding ? <X className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        )}
+      </div>
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2 p-3 border rounded-md">
+          <div className="space-y-1">
+            <Label htmlFor="childName">Name</Label>
+            <Input
+              id="childName"
+              value={formName}
+              onChange={(e) => setFormName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="childBirthDate">Birth date</Label>
+            <Input
+              id="childBirthDate"
+              type="date"
+              value={formBirthDate}
+              onChange={(e) => setFormBirthDate(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Adding..." : "Add"}
+          </Button>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -3,12 +3,10 @@ import { AlertTriangle, Copy, X, Check } from 'lucide-react';
 import { Button } from './ui/button';
 import { Alert, AlertDescription, AlertTitle } from './ui/alert';
 import { useToast } from '@/hooks/use-toast';
+import type { ErrorNotice } from '@/lib/error-messages';
 
-interface ErrorNotificationProps {
-  title: string;
-  description?: string;
-  command?: string;
-  additionalInstructions?: string;
+// describeError gives these for an error from the API
+interface ErrorNotificationProps extends ErrorNotice {
   onClose?: () => void;
 }
 
@@ -1,30 +1,27 @@
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Checkbox } from "@/components/ui/checkbox"
+import { Button } from "@/components/ui/button"
+import { Undo2 } from "lucide-react"
 import { format, parseISO } from "date-fns"
-
-interface Feeding {
-  id: string
-  date?: string
-  time?: string  // For backward compatibility
-  planTime?: string
-  amount: number
-  amountUnit: string
-  isLocked: boolean
-  isCompleted: boolean
-  generatedAt: string
-}
+import type { PlannedFeeding } from "../server/api/feedings"
+import { useRole } from "@/hooks/use-role"
 
 interface FeedingScheduleProps {
-  feedings: Feeding[]
+  feedings: PlannedFeeding[]
   useMetric: boolean
-  onToggleCompleted: (id: string) => void
+  onComplete: (id: string) => void
+  // Reverts an accidental completion
+  onUncomplete: (id: string) => void
 }
 
-export default function FeedingSchedule({ feedings, useMetric, onToggleCompleted }: FeedingScheduleProps) {
+export default function FeedingSchedule({ feedings, useMetric, onComplete, onUncomplete }: FeedingScheduleProps) {
+  const { can } = useRole()
+  // Viewers see the schedule but can't tick feedings off
+  const canLog = can("caregiver")
   const convertToMl = (oz: number) => Math.round(oz * 29.5735)
 
-  const formatTime = (feeding: Feeding) => {
+  const formatTime = (feeding: PlannedFeeding) => {
     try {
       // Use either planTime or time
       const timeString = feeding.planTime || feeding.time
@@ -69,13 +66,16 @@ export default function FeedingSchedule({ feedings, useMetric, onToggleCompleted
     })
   }
 
-  const formatDate = (feeding: Feeding) => {
+  const formatDate = (feeding: PlannedFeeding) => {
     try {
       if (feeding.date) {
         return new Date(feeding.date).toLocaleDateString()
       }
       // If no date, extract from generatedAt
-      return new Date(feeding.generatedAt).toLocaleDateString()
+      if (feeding.generatedAt) {
+        return new Date(feeding.generatedAt).toLocaleDateString()
+      }
+      return "No date set"
     } catch (error) {
       return "Invalid date"
     }
@@ -100,8 +100,9 @@ export default function FeedingSchedule({ feedings, useMetric, onToggleCompleted
               <div className="flex items-center gap-4">
                 <Checkbox
                   checked={feeding.isCompleted}
-                  onCheckedChange={() => onToggleCompleted(feeding.id)}
+                  onCheckedChange={() => (feeding.isCompleted ? onUncomplete : onComplete)(feeding.id)}
                   id={`feeding-${feeding.id}`}
+                  disabled={!canLog}
                 />
                 <div>
                   <div className="font-medium flex items-center gap-2">
@@ -119,6 +120,11 @@ export default function FeedingSchedule({ feedings, useMetric, onToggleCompleted
                   </div>
                 </div>
               </div>
+              {feeding.isCompleted && canLog && (
+                <Button variant="ghost" size="sm" className="gap-1" onClick={() => onUncomplete(feeding.id)}>
+                  <Undo2 className="h-4 w-4" /> Undo
+                </Button>
+              )}
             </CardContent>
           </Card>
         )
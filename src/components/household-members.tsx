@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { Trash } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { apiGet, apiPost } from "@/lib/api"
+import { describeError } from "@/lib/error-messages"
+import { PIN_LENGTH, type MemberSummary } from "../server/api/contract"
+
+type MemberRole = MemberSummary["role"]
+
+const ROLE_DESCRIPTIONS: Record<MemberRole, string> = {
+  caregiver: "Can log and complete feedings",
+  viewer: "Can only look"
+}
+
+/**
+ * Lets the owner hand out PINs to caregivers and viewers, and take them away
+ */
+export default function HouseholdMembers() {
+  const [members, setMembers] = useState<MemberSummary[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [formName, setFormName] = useState("")
+  const [formRole, setFormRole] = useState<MemberRole>("caregiver")
+  const [formPin, setFormPin] = useState("")
+
+  const { toast } = useToast()
+
+  useEffect(() => {
+    apiGet("/api/auth/members/get")
+      .then((data) => setMembers(data.members))
+      .catch((error) => {
+        console.error("Error loading members:", error)
+        const { title, description } = describeError(error)
+        toast({ variant: "destructive", title, description })
+      })
+  }, [toast])
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setIsSubmitting(true)
+    try {
+      const { member } = await apiPost("/api/auth/members/add", { name: formName.trim(), role: formRole, pin: formPin })
+      setMembers((current) => [...current, member])
+      toast({
+        title: "PIN added",
+        description: `${member.name} can now sign in with their PIN`
+      })
+      setFormName("")
+      setFormPin("")
+    } catch (error) {
+      console.error("Error adding member:", error)
+      const { title, description } = describeError(error)
+      toast({ variant: "destructive", title, description })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRemove = async (member: MemberSummary) => {
+    setIsSubmitting(true)
+    try {
+      await apiPost("/api/auth/members/remove", { id: member.id })
+      setMembers((current) => current.filter((each) => each.id !== member.id))
+      toast({
+        title: "PIN removed",
+        description: `${member.name} has been signed out`
+      })
+    } catch (error) {
+      console.error("Error removing member:", error)
+      const { title, description } = describeError(error)
+      toast({ variant: "destructive", title, description })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Household PINs</CardTitle>
+        <CardDescription>
+          Give grandparents or a nanny their own PIN. Only you can change settings, plan feedings or remove data.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {members.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nobody else has a PIN yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {members.map((member) => (
+              <li key={member.id} className="flex items-center justify-between p-2 border rounded-md">
+                <div>
+                  <div className="font-medium">{member.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {member.role} · {ROLE_DESCRIPTIONS[member.role]}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(member)}
+                  disabled={isSubmitting}
+                  aria-label={`Remove ${member.name}'s PIN`}
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="memberName">Name</Label>
+            <Input
+              id="memberName"
+              placeholder="e.g., Grandma"
+              value={formName}
+              onChange={(e) => setFormName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="memberRole">Role</Label>
+            <Select value={formRole} onValueChange={(value) => setFormRole(value as MemberRole)}>
+              <SelectTrigger id="memberRole" className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="caregiver">Caregiver</SelectItem>
+                <SelectItem value="viewer">Viewer</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="memberPin">{PIN_LENGTH}-digit PIN</Label>
+            <Input
+              id="memberPin"
+              type="password"
+              inputMode="numeric"
+              pattern={`\\d{${PIN_LENGTH}}`}
+              maxLength={PIN_LENGTH}
+              value={formPin}
+              onChange={(e) => setFormPin(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit" disabled={isSubmitting}>
+            Add PIN
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react"
+import { RefreshCw } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert"
+import type { StorageStatus } from "@/lib/api"
+import type { OfflineState } from "@/lib/offline"
+
+// Seconds until the server's next attempt, counted down once a second
+function useSecondsUntil(at: string | undefined) {
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  return at ? Math.max(0, Math.ceil((Date.parse(at) - now) / 1000)) : null
+}
+
+const formatTime = (at: string) =>
+  new Date(at).toLocaleString(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" })
+
+/**
+ * Shown while the server is reconnecting to its database, or the app is
+ * showing data kept from before an outage, instead of an error: the app keeps
+ * checking and the banner goes away once the server is back and the feedings
+ * logged meanwhile have been sent
+ * @param status The server's storage status while it is reconnecting
+ */
+export function StorageReconnecting({ status, offline }: { status: StorageStatus | null; offline: OfflineState }) {
+  const seconds = useSecondsUntil(status?.retryAt)
+  const staleSince = offline.staleSince ?? status?.staleSince
+
+  return (
+    <Alert className="fixed top-4 left-1/2 z-50 w-[90%] max-w-md -translate-x-1/2 shadow-lg">
+      <RefreshCw className={status ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+      <AlertTitle>
+        {status ? "Reconnecting to the database…" : staleSince ? "Showing saved data" : "Sending saved changes…"}
+      </AlertTitle>
+      <AlertDescription>
+        {status && <>{seconds ? `Trying again in ${seconds}s.` : "Trying again now."} </>}
+        {staleSince && <>Read-only, stale since {formatTime(staleSince)}. </>}
+        {(status || staleSince) && "Feedings you log are kept on this device until it's back; other changes can't be saved."}
+        {offline.queued > 0 && (
+          <div className="mt-1">
+            {offline.queued} {offline.queued === 1 ? "change" : "changes"} waiting to be sent.
+          </div>
+        )}
+        {status?.lastError && <div className="mt-1 text-xs text-muted-foreground">{status.lastError}</div>}
+      </AlertDescription>
+    </Alert>
+  )
+}
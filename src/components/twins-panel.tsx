@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select"
+import { Users } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useRole } from "@/hooks/use-role"
+import { formatDate } from "@/lib/utils"
+import type { Child } from "@/lib/children"
+import { apiGet, apiPost } from "@/lib/api"
+import type { ActualFeeding, VolumeUnit } from "../server/api/feedings"
+import type { TwinIntake } from "../server/api/twins"
+import { parseFeedingMoment } from "../server/api/feeding-time"
+import { fromMillilitres, toMillilitres } from "../server/api/volume"
+
+interface TwinsPanelProps {
+  activeChild: Child
+  childList: Child[]
+  useMetric?: boolean
+  // The active child's feedings; the totals are reloaded whenever they change
+  actualFeedings: ActualFeeding[]
+  onChildrenChange: (children: Child[]) => void
+  onPairedFeedingAdded: (actualFeedings: ActualFeeding[]) => void
+}
+
+export default function TwinsPanel({
+  activeChild,
+  childList,
+  useMetric = false,
+  actualFeedings,
+  onChildrenChange,
+  onPairedFeedingAdded
+}: TwinsPanelProps) {
+  const [intake, setIntake] = useState<TwinIntake[]>([])
+  const [pairWithId, setPairWithId] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [formTime, setFormTime] = useState("")
+  const [formAmount, setFormAmount] = useState("")
+  const [formTwinAmount, setFormTwinAmount] = useState("")
+
+  const { toast } = useToast()
+  const { can } = useRole()
+
+  const unit: VolumeUnit = useMetric ? "ml" : "oz"
+  const twin = childList.find((child) => child.id === activeChild.twinId)
+  const otherChildren = childList.filter((child) => child.id !== activeChild.id)
+
+  useEffect(() => {
+    if (twin) {
+      loadIntake()
+    }
+  }, [activeChild.id, twin?.id, actualFeedings])
+
+  // Totals since midnight in the browser's time zone
+  const loadIntake = async () => {
+    try {
+      const startOfToday = new Date()
+      startOfToday.setHours(0, 0, 0, 0)
+
+      const data = await apiGet("/api/twins/intake", { from: startOfToday.toISOString() })
+      setIntake(data.intake)
+    } catch (error) {
+      console.error("Failed to load twin intake:", error)
+    }
+  }
+
+  const handlePair = async () => {
+    if (!pairWithId) {
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const data = await apiPost("/api/twins/pair", { twinId: pairWithId })
+      onChildrenChange(data.children)
+      toast({
+        title: "Twins mode on",
+        description: "Plan the next feeds to give both babies one schedule"
+      })
+    } catch (error) {
+      console.error("Error pairing twins:", error)
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "There was an error turning on twins mode"
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleUnpair = async () => {
+    setIsSubmitting(true)
+    try {
+      const data = await apiPost("/api/twins/unpair", undefined)
+      onChildrenChange(data.children)
+      setIntake([])
+    } catch (error) {
+      console.error("Error unpairing twins:", error)
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "There was an error turning off twins mode"
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleAddPairedFeeding = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const occurredAt = parseFeedingMoment(formatDate(new Date()), formTime)
+    const amount = parseFloat(formAmount)
+    const twinAmount = parseFloat(formTwinAmount)
+    if (occurredAt === null) {
+      toast({
+        variant: "destructive",
+        title: "Invalid time",
+        description: "Please enter times like 9:45 am or 21:45"
+      })
+      return
+    }
+    if (!(amount > 0) || !(twinAmount > 0)) {
+      toast({
+        variant: "destructive",
+        title: "Invalid amount",
+        description: "Please enter an amount greater than 0 for each baby"
+      })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const data = await apiPost("/api/twins/feedings/add", {
+        occurredAt: new Date(occurredAt).toISOString(),
+        volumeMl: toMillilitres(amount, unit),
+        twinVolumeMl: toMillilitres(twinAmount, unit),
+        sourceUnit: unit
+      })
+      onPairedFeedingAdded(data.actualFeedings)
+      setFormTime("")
+      setFormAmount("")
+      setFormTwinAmount("")
+      toast({
+        title: "Feeding added",
+        description: "The feeding has been logged for both babies"
+      })
+    } catch (error) {
+      console.error("Error adding paired feeding:", error)
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "There was an error saving the feeding data"
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const formatVolume = (volumeMl: number) =>
+    useMetric ? `${Math.round(volumeMl)} ml` : `${fromMillilitres(volumeMl, "oz")} oz`
+
+  if (!twin) {
+    // Only the owner can turn twins mode on
+    if (otherChildren.length === 0 || !can("owner")) {
+      return null
+    }
+
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <Users className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm text-muted-foreground">Feed {activeChild.name} together with</span>
+        <Select value={pairWithId} onValueChange={setPairWithId}>
+          <SelectTrigger className="w-40" aria-label="Twin">
+            <SelectValue placeholder="Select a child" />
+          </SelectTrigger>
+          <SelectContent>
+            {otherChildren.map((child) => (
+              <SelectItem key={child.id} value={child.id}>
+                {child.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={handlePair} disabled={!pairWithId || isSubmitting}>
+          Turn on twins mode
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Twins</CardTitle>
+        <CardDescription>
+          {activeChild.name} and {twin.name} share one feeding schedule. Today's intake:
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          {intake.map((each) => {
+            const { minMl, maxMl } = each.dailyIntake
+            return (
+              <div key={each.childId} className="space-y-2 p-3 border rounded-md">
+                <div className="font-medium">{each.name}</div>
+                <div className="text-2xl font-bold">{formatVolume(each.totalMl)}</div>
+                <Progress value={Math.min(100, (each.totalMl / maxMl) * 100)} />
+                <div className="text-sm text-muted-foreground">
+                  {each.feedingCount} feeding(s) · recommended {formatVolume(minMl)}–{formatVolume(maxMl)} per day
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        {can("caregiver") && (
+          <form onSubmit={handleAddPairedFeeding} className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="pairedTime">Time</Label>
+              <Input
+                id="pairedTime"
+                placeholder="e.g., 9:45 am"
+                value={formTime}
+                onChange={(e) => setFormTime(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="pairedAmount">{activeChild.name} ({unit})</Label>
+              <Input
+                id="pairedAmount"
+                type="number"
+                step="0.1"
+                min="0"
+                value={formAmount}
+                onChange={(e) => setFormAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="pairedTwinAmount">{twin.name} ({unit})</Label>
+              <Input
+                id="pairedTwinAmount"
+                type="number"
+                step="0.1"
+                min="0"
+                value={formTwinAmount}
+                onChange={(e) => setFormTwinAmount(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={isSubmitting}>
+              Log feeding for both
+            </Button>
+            {can("owner") && (
+              <Button type="button" variant="outline" onClick={handleUnpair} disabled={isSubmitting}>
+                Turn off twins mode
+              </Button>
+            )}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
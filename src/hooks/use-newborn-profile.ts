@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react"
 import type { NewbornProfile } from "../server/api/recommendations"
+import { apiGet, apiPost } from "@/lib/api"
 
 export function useNewbornProfile() {
   const [profile, setProfile] = useState<NewbornProfile | null>(null)
@@ -9,15 +10,9 @@ export function useNewbornProfile() {
   const fetchProfile = async () => {
     try {
       setIsLoading(true)
-      const response = await fetch("/api/profile/get")
-      const data = await response.json()
-
-      if (data.success) {
-        setProfile(data.profile)
-        setError(null)
-      } else {
-        throw new Error(data.message || "Failed to fetch newborn profile")
-      }
+      const data = await apiGet("/api/profile/get")
+      setProfile(data.profile)
+      setError(null)
     } catch (err) {
       console.error("Error fetching newborn profile:", err)
       setError("Failed to load newborn profile")
@@ -29,22 +24,9 @@ export function useNewbornProfile() {
   const updateProfile = async (birthDate: string) => {
     try {
       setIsLoading(true)
-      const response = await fetch("/api/profile/update", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ birthDate }),
-      })
-
-      const data = await response.json()
-
-      if (data.success) {
-        setProfile(data.profile)
-        setError(null)
-      } else {
-        throw new Error(data.message || "Failed to update newborn profile")
-      }
+      const data = await apiPost("/api/profile/update", { birthDate })
+      setProfile(data.profile)
+      setError(null)
     } catch (err) {
       console.error("Error updating newborn profile:", err)
       setError("Failed to update newborn profile")
@@ -0,0 +1,14 @@
+import { createContext, useContext } from "react"
+import { hasRole, type Role } from "../server/api/contract"
+
+// The signed-in member's role, provided by App once the session is known
+export const RoleContext = createContext<Role>("viewer")
+
+/**
+ * The signed-in member's role, and whether it allows what needs a given role.
+ * The API enforces the same rules; this only hides what would be refused.
+ */
+export function useRole() {
+  const role = useContext(RoleContext)
+  return { role, can: (required: Role) => hasRole(role, required) }
+}
@@ -0,0 +1,262 @@
+import type { ErrorCode } from "../server/api/errors"
+import type {
+  ApiBody,
+  ApiConflict,
+  ApiFailure,
+  ApiQuery,
+  ApiResponse,
+  ConflictPath,
+  GetPath,
+  PostPath
+} from "../server/api/contract"
+import type { StorageStatus } from "../server/api/storage/types"
+import { withActiveChild } from "./children"
+import {
+  dequeueWrite,
+  getQueuedWrites,
+  isSnapshotPath,
+  loadSnapshot,
+  queueWrite,
+  QUEUED_PATHS,
+  saveSnapshot,
+  setStaleSince,
+  WRITES_REPLAYED_EVENT,
+  WriteQueuedError,
+  type QueuedPath
+} from "./offline"
+
+export type { ApiFailure, ErrorCode, StorageStatus }
+
+// Thrown for every request the API didn't answer with success
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly body?: ApiFailure) {
+    super(message)
+    this.name = "ApiError"
+  }
+
+  // The API's error code, or API_UNREACHABLE when the answer didn't come from
+  // the API: the server couldn't be reached or something else answered
+  get code(): ErrorCode | "API_UNREACHABLE" {
+    return this.body?.code ?? "API_UNREACHABLE"
+  }
+}
+
+// Dispatched on window when the API refuses a request for want of a session,
+// so the app can show the sign-in screen
+export const SIGNED_OUT_EVENT = "bottle-planner:signed-out"
+
+// Dispatched on window, with the server's StorageStatus as the detail, when
+// the API answers that it is reconnecting to storage, so the app can say so
+// rather than show a fatal error
+export const STORAGE_RECONNECTING_EVENT = "bottle-planner:storage-reconnecting"
+
+/**
+ * The storage status the API sent with STORAGE_UNAVAILABLE when it is
+ * retrying the connection, or null for any other error
+ */
+export function getReconnectingStatus(error: unknown): StorageStatus | null {
+  const status = error instanceof ApiError && error.code === "STORAGE_UNAVAILABLE" ? error.body?.storage : undefined
+  return status && status.state !== "connected" ? status : null
+}
+
+/**
+ * Whether a request failed because the server or its storage is down, rather
+ * than because of the request: it may succeed later as it is
+ */
+export function isOutage(error: unknown) {
+  return (
+    error instanceof ApiError &&
+    (error.code === "STORAGE_UNAVAILABLE" || (error.code === "API_UNREACHABLE" && (error.status === 0 || error.status >= 500)))
+  )
+}
+
+// Errors that say the request itself won't ever be accepted, as opposed to
+// the sender not being signed in or the server failing. FORBIDDEN counts: the
+// member's role no longer allows the change.
+const REJECTED_CODES = ["VALIDATION_FAILED", "OPERATION_NOT_ALLOWED", "FORBIDDEN", "NOT_FOUND", "CONFLICT"]
+
+/**
+ * Whether the API refused a request for what it asked, so sending it again
+ * as it is won't help
+ */
+export function isRejected(error: unknown) {
+  return error instanceof ApiError && REJECTED_CODES.includes(error.code)
+}
+
+// Sent by the server with reads it answered from its last-known snapshot
+const STALE_SINCE_HEADER = "X-Stale-Since"
+
+// Requests that must not be answered from a cache
+const NO_CACHE_HEADERS = {
+  "Cache-Control": "no-cache",
+  "Pragma": "no-cache",
+}
+
+async function request(path: string, init: RequestInit): Promise<any> {
+  // Every request is made for the active child and names this browser as the actor
+  let response: Response
+  try {
+    response = await fetch(path, withActiveChild(init))
+  } catch (error) {
+    // Aborts are left to the caller that asked for them
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw error
+    }
+    throw new ApiError(`Could not reach the API server: ${error instanceof Error ? error.message : "Network error"}`, 0)
+  }
+  const text = await response.text()
+
+  let data
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ApiError(`Invalid JSON response from server: ${text.substring(0, 50)}...`, response.status)
+  }
+
+  if (response.status === 401) {
+    window.dispatchEvent(new Event(SIGNED_OUT_EVENT))
+  }
+  if (!response.ok || data?.success === false) {
+    const error = new ApiError(
+      data?.message || `API returned status ${response.status}`,
+      response.status,
+      data?.success === false ? data : undefined
+    )
+    const reconnecting = getReconnectingStatus(error)
+    if (reconnecting) {
+      window.dispatchEvent(new CustomEvent(STORAGE_RECONNECTING_EVENT, { detail: reconnecting }))
+    }
+    throw error
+  }
+
+  // Any read tells whether the server is answering from its snapshot
+  if (!init.method || init.method === "GET") {
+    setStaleSince(response.headers.get(STALE_SINCE_HEADER))
+  }
+  return { data, staleSince: response.headers.get(STALE_SINCE_HEADER) }
+}
+
+/**
+ * Reads from the API. The answers the dashboard needs are kept on this
+ * device, and shown read-only while the server or its storage is down.
+ * @param query Query parameters, left out when undefined
+ * @param signal Aborts the request, e.g. after a timeout
+ * @throws ApiError if the request fails or the response isn't JSON, unless a kept answer stands in
+ */
+export async function apiGet<P extends GetPath>(
+  path: P,
+  query?: ApiQuery<P>,
+  signal?: AbortSignal
+): Promise<ApiResponse<P>> {
+  const params = new URLSearchParams()
+  for (const [name, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) {
+      params.set(name, String(value))
+    }
+  }
+
+  const search = params.toString()
+  const url = search ? `${path}?${search}` : path
+  try {
+    const { data, staleSince } = await request(url, { signal, headers: NO_CACHE_HEADERS })
+    if (isSnapshotPath(url)) {
+      saveSnapshot(url, data, staleSince ?? new Date().toISOString())
+    }
+    return data
+  } catch (error) {
+    const snapshot = isOutage(error) && isSnapshotPath(url) ? loadSnapshot(url) : null
+    if (!snapshot) {
+      throw error
+    }
+    setStaleSince(snapshot.asOf)
+    return snapshot.data as ApiResponse<P>
+  }
+}
+
+/**
+ * Sends a change to the API. Feedings logged while the server or its storage
+ * is down are queued on this device instead, see QUEUED_PATHS.
+ * @param headers Sent instead of the active child's and this browser's, e.g. when replaying a queued write
+ * @throws WriteQueuedError if the change was queued
+ * @throws ApiError if the request fails or the response isn't JSON
+ */
+export async function apiPost<P extends PostPath>(
+  path: P,
+  body: ApiBody<P>,
+  headers?: Record<string, string>
+): Promise<ApiResponse<P>> {
+  try {
+    const { data } = await request(path, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: JSON.stringify(body ?? {}),
+    })
+    return data
+  } catch (error) {
+    const queued = QUEUED_PATHS.find((queuedPath) => queuedPath === path)
+    const write = queued && !headers && isOutage(error) ? queueWrite(queued, body as ApiBody<QueuedPath>) : null
+    if (!write) {
+      throw error
+    }
+    throw new WriteQueuedError(write)
+  }
+}
+
+let replaying: Promise<{ sent: number; failed: number }> | null = null
+
+/**
+ * Sends the signed-in member's writes queued while the server or its storage
+ * was down, oldest first, each for the child it was made for. Other members'
+ * writes wait for them to sign in. Writes the API rejects, e.g. completing a
+ * feeding someone else completed meanwhile, are dropped. Any other failure,
+ * like another outage or the session having expired, stops the replay and
+ * keeps the rest queued until the next call.
+ * @returns How many were sent and how many were rejected
+ */
+export function replayQueuedWrites() {
+  replaying ??= (async () => {
+    let sent = 0
+    let failed = 0
+    for (const write of getQueuedWrites()) {
+      // Signed out, or someone else signed in, since the replay started
+      if (!getQueuedWrites().some((each) => each.id === write.id)) {
+        break
+      }
+      try {
+        await apiPost(write.path, write.body, write.childId ? { "X-Child-Id": write.childId } : {})
+        sent++
+      } catch (error) {
+        if (!isRejected(error)) {
+          console.warn("Couldn't send a queued change yet:", write, error)
+          break
+        }
+        console.error("Dropped a queued change the API rejected:", write, error)
+        failed++
+      }
+      dequeueWrite(write.id)
+    }
+    if (sent > 0) {
+      window.dispatchEvent(new Event(WRITES_REPLAYED_EVENT))
+    }
+    return { sent, failed }
+  })().finally(() => {
+    replaying = null
+  })
+  return replaying
+}
+
+/**
+ * Gets the latest data the API sent with a 409, when someone else changed the
+ * record first
+ * @param path The request that failed, which decides the data's shape
+ * @returns The latest data, or null if the error wasn't a conflict
+ */
+export function getConflict<P extends ConflictPath>(error: unknown, path: P): ApiConflict<P> | null {
+  if (!(error instanceof ApiError) || error.status !== 409 || !error.body) {
+    return null
+  }
+  return error.body as unknown as ApiConflict<P>
+}
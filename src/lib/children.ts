@@ -0,0 +1,33 @@
+import type { Child } from "../server/api/children"
+
+export type { Child }
+
+// Remembers which child the app is showing across reloads
+const ACTIVE_CHILD_STORAGE_KEY = "bottle-planner:active-child"
+
+/**
+ * Gets the id of the child the app is showing, or null to let the API pick
+ * the household's first child
+ */
+export function getActiveChildId(): string | null {
+  return localStorage.getItem(ACTIVE_CHILD_STORAGE_KEY)
+}
+
+export function setActiveChildId(childId: string) {
+  localStorage.setItem(ACTIVE_CHILD_STORAGE_KEY, childId)
+}
+
+/**
+ * Adds the active child to a fetch request, so per-child API routes read and
+ * write that child's data. Who is making the request comes from the session.
+ * @param init The request options to extend
+ * @returns The request options with an X-Child-Id header, unless one was given
+ */
+export function withActiveChild(init: RequestInit = {}): RequestInit {
+  const headers = new Headers(init.headers)
+  const childId = getActiveChildId()
+  if (childId && !headers.has("X-Child-Id")) {
+    headers.set("X-Child-Id", childId)
+  }
+  return { ...init, headers }
+}
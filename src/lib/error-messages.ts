@@ -0,0 +1,160 @@
+import { ApiError, getReconnectingStatus } from "./api"
+
+// What ErrorNotification shows for an error: what went wrong, and what to run
+// to fix it when there's something to run
+export interface ErrorNotice {
+  title: string
+  description?: string
+  command?: string
+  additionalInstructions?: string
+}
+
+export const isProduction = () =>
+  window.location.hostname !== "localhost" && window.location.hostname !== "127.0.0.1"
+
+const REFRESH = "After running this command in your terminal, refresh this page."
+
+// The message with the underlying cause the server sent, if any
+const withDetail = (error: ApiError) =>
+  error.body?.detail ? `${error.message}: ${error.body.detail}` : error.message
+
+/**
+ * Describes an error from the API for ErrorNotification, from its error code.
+ * Commands are only suggested in development, where the user runs the servers.
+ */
+export function describeError(error: unknown): ErrorNotice {
+  if (error instanceof DOMException && error.name === "AbortError") {
+    return {
+      title: "Request Timeout",
+      description: "The server took too long to answer. It might be overloaded or unresponsive.",
+      ...(!isProduction() && {
+        command: "sh dev-setup.sh",
+        additionalInstructions: "This command will restart both the API and frontend servers."
+      })
+    }
+  }
+
+  if (!(error instanceof ApiError)) {
+    return {
+      title: "Unexpected Error",
+      description: error instanceof Error ? error.message : "Something went wrong. Please try again."
+    }
+  }
+
+  switch (error.code) {
+    case "API_UNREACHABLE":
+      return isProduction()
+        ? {
+            title: "API Connection Error",
+            description: "The API server is not answering. It may be temporarily unavailable; try again in a few minutes."
+          }
+        : {
+            title: "API Connection Error",
+            description: `Cannot connect to the API server. Please make sure it's running. (${error.message.substring(0, 100)})`,
+            command: "sh dev-setup.sh",
+            additionalInstructions: "This command will restart both the API and frontend servers."
+          }
+
+    case "STORAGE_UNAVAILABLE":
+      if (getReconnectingStatus(error)) {
+        return {
+          title: "Reconnecting to Storage",
+          description: "The server lost its connection to the database and is getting it back. Try again in a moment."
+        }
+      }
+      return {
+        title: "Storage Unavailable",
+        description: withDetail(error),
+        ...(isProduction()
+          ? { additionalInstructions: "Check REDIS_URL in the deployment's environment variables." }
+          : {
+              command: "npx tsx src/scripts/check-connections.ts",
+              additionalInstructions: "This checks REDIS_URL and the connection to Redis. Or set STORAGE_DRIVER=file to work without Redis."
+            })
+      }
+
+    case "SCHEMA_NOT_READY":
+      return {
+        title: "Stored Data Needs Migrating",
+        description: withDetail(error),
+        ...(!isProduction() && { command: "npx tsx src/scripts/migrate.ts status", additionalInstructions: REFRESH })
+      }
+
+    case "CONFIG_INVALID":
+      return {
+        title: "Server Misconfigured",
+        description: error.body?.errors?.map((each) => `${each.field} ${each.message}`).join("; ") || error.message,
+        ...(isProduction()
+          ? { additionalInstructions: "Fix these in the deployment's environment variables, then redeploy." }
+          : {
+              command: "npx tsx src/scripts/check-connections.ts",
+              additionalInstructions: "This lists each problem with the settings in .env. Fix them and restart the servers."
+            })
+      }
+
+    case "CORRUPT_RECORD":
+      return {
+        title: "Stored Data Is Invalid",
+        description: error.message,
+        ...(!isProduction() && {
+          command: "npx tsx src/scripts/backup.ts restore <file>",
+          additionalInstructions: "Restore the last good backup, or fix the fields listed above. " + REFRESH
+        })
+      }
+
+    case "AI_PLANNER_FAILED":
+      return {
+        title: "Feeding Plan Failed",
+        description: withDetail(error),
+        ...(!isProduction() && {
+          command: "npx tsx src/scripts/test-openai.ts",
+          additionalInstructions: "This checks OPENAI_API_KEY. Also make sure this child's feeding settings are saved."
+        })
+      }
+
+    case "UNAUTHENTICATED":
+      return { title: "Signed Out", description: error.message }
+
+    case "FORBIDDEN":
+      return {
+        title: "Not Permitted",
+        description: `${error.message}. Ask the household owner if you need to.`
+      }
+
+    case "TOO_MANY_ATTEMPTS":
+      return {
+        title: "Sign-in Locked",
+        description: error.message,
+        ...(!isProduction() && {
+          command: "npx tsx src/scripts/set-pin.ts",
+          additionalInstructions: "Forgot the PIN? This sets a new one and signs every device out."
+        })
+      }
+
+    case "VALIDATION_FAILED":
+      return { title: "Invalid Request", description: error.message }
+
+    case "OPERATION_NOT_ALLOWED":
+      return { title: "Not Allowed", description: error.message }
+
+    case "CONFLICT":
+      return {
+        title: "Changed by Someone Else",
+        description: `${error.message}. Refresh to see the latest data.`
+      }
+
+    case "NOT_FOUND":
+      return {
+        title: "Not Found",
+        description: error.message,
+        ...(!isProduction() && { command: "npx tsx src/scripts/init-all.ts", additionalInstructions: REFRESH })
+      }
+
+    case "INTERNAL_ERROR":
+      return {
+        title: "Server Error",
+        description: withDetail(error),
+        ...(!isProduction() && { command: "npx tsx src/scripts/init-all.ts", additionalInstructions: REFRESH })
+      }
+  }
+}
@@ -0,0 +1,201 @@
+import type { ApiBody, GetPath } from "../server/api/contract"
+import { getActiveChildId } from "./children"
+
+// What the app keeps on this device for when the server or its storage is
+// down: the last answer to each of the reads the dashboard needs, shown
+// read-only with when it was current, and the feedings logged in the
+// meantime, sent once the connection is back (see replayQueuedWrites in
+// ./api). Each queued write is sent only under the session of the member who
+// made it; anyone else's wait on this device until they sign in again.
+
+// Reads whose last answer is kept, per child
+export const SNAPSHOT_PATHS: GetPath[] = [
+  "/api/auth/session",
+  "/api/children/get",
+  "/api/settings/get",
+  "/api/feedings/planned/get",
+  "/api/feedings/actual/get",
+  "/api/profile/get",
+  "/api/recommendations/get",
+  "/api/twins/get"
+]
+
+// Writes that are queued instead of failing; logging a feeding is the one
+// thing that can't wait for the connection to come back
+export const QUEUED_PATHS = ["/api/feedings/actual/add", "/api/feedings/complete"] as const
+
+export type QueuedPath = (typeof QUEUED_PATHS)[number]
+
+export interface QueuedWrite<P extends QueuedPath = QueuedPath> {
+  id: string
+  path: P
+  body: ApiBody<P>
+  // Sent as X-Child-Id on replay, so the write lands where it was made even
+  // if the app has switched child since
+  childId: string | null
+  // The member who made it, whose session it is sent under
+  memberId: string
+  // When it was made (ISO instant)
+  queuedAt: string
+}
+
+export interface OfflineState {
+  // When the data shown was last current (ISO instant), while it's a snapshot
+  staleSince: string | null
+  // The signed-in member's writes waiting to be sent
+  queued: number
+  // Writes waiting for the members who made them to sign in again
+  held: number
+}
+
+// Dispatched on window, with the OfflineState as the detail, whenever it changes
+export const OFFLINE_STATE_EVENT = "bottle-planner:offline-state"
+
+// Dispatched on window once queued writes have been sent, so pages reload
+export const WRITES_REPLAYED_EVENT = "bottle-planner:writes-replayed"
+
+const SNAPSHOT_PREFIX = "bottle-planner:snapshot:"
+const QUEUED_ID_PREFIX = "queued-"
+const QUEUE_STORAGE_KEY = "bottle-planner:queued-writes"
+
+let staleSince: string | null = null
+let signedInMemberId: string | null = null
+
+const snapshotKey = (url: string) => `${SNAPSHOT_PREFIX}${getActiveChildId() ?? "default"}:${url}`
+
+/**
+ * Whether a read's answer is kept for when the server can't answer it
+ */
+export function isSnapshotPath(url: string) {
+  return SNAPSHOT_PATHS.includes(url.split("?")[0] as GetPath)
+}
+
+/**
+ * Keeps the answer to a read for the active child
+ * @param asOf When the answer was current: now, or the server's X-Stale-Since
+ */
+export function saveSnapshot(url: string, data: unknown, asOf: string) {
+  try {
+    localStorage.setItem(snapshotKey(url), JSON.stringify({ asOf, data }))
+  } catch (error) {
+    // A full localStorage only costs the offline copy
+    console.warn("Couldn't keep an offline copy of", url, error)
+  }
+}
+
+/**
+ * Gets the kept answer to a read for the active child, if there is one
+ */
+export function loadSnapshot(url: string): { asOf: string; data: unknown } | null {
+  const saved = localStorage.getItem(snapshotKey(url))
+  return saved ? JSON.parse(saved) : null
+}
+
+/**
+ * Forgets every kept answer, e.g. when signing out. Queued writes are kept:
+ * they are feedings nobody has saved anywhere else, and are sent once the
+ * member who made them signs in again.
+ */
+export function clearSnapshots() {
+  for (const key of Object.keys(localStorage)) {
+    if (key.startsWith(SNAPSHOT_PREFIX)) {
+      localStorage.removeItem(key)
+    }
+  }
+  notify()
+}
+
+export function getOfflineState(): OfflineState {
+  const writes = getAllQueuedWrites()
+  const queued = writes.filter((write) => write.memberId === signedInMemberId).length
+  return { staleSince, queued, held: writes.length - queued }
+}
+
+function notify() {
+  window.dispatchEvent(new CustomEvent(OFFLINE_STATE_EVENT, { detail: getOfflineState() }))
+}
+
+/**
+ * Records whether the data being shown is a snapshot, and since when
+ * @param since When it was last current, or null once live data is back
+ */
+export function setStaleSince(since: string | null) {
+  if (since !== staleSince) {
+    staleSince = since
+    notify()
+  }
+}
+
+/**
+ * Records who is signed in on this device, whose queued writes are the ones
+ * sent and counted as waiting
+ * @param memberId The signed-in member, or null once signed out
+ */
+export function setSignedInMember(memberId: string | null) {
+  if (memberId !== signedInMemberId) {
+    signedInMemberId = memberId
+    notify()
+  }
+}
+
+function getAllQueuedWrites(): QueuedWrite[] {
+  return JSON.parse(localStorage.getItem(QUEUE_STORAGE_KEY) ?? "[]")
+}
+
+/**
+ * Gets the signed-in member's queued writes, oldest first
+ */
+export function getQueuedWrites(): QueuedWrite[] {
+  return getAllQueuedWrites().filter((write) => write.memberId === signedInMemberId)
+}
+
+function saveQueuedWrites(writes: QueuedWrite[]) {
+  localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(writes))
+  notify()
+}
+
+/**
+ * Queues a write for the active child and the signed-in member, to be sent
+ * once the connection is back
+ * @returns The queued write, or null if nobody is signed in to send it as
+ */
+export function queueWrite<P extends QueuedPath>(path: P, body: ApiBody<P>): QueuedWrite<P> | null {
+  if (!signedInMemberId) {
+    return null
+  }
+  const write: QueuedWrite<P> = {
+    id: `${QUEUED_ID_PREFIX}${crypto.randomUUID()}`,
+    path,
+    body,
+    childId: getActiveChildId(),
+    memberId: signedInMemberId,
+    queuedAt: new Date().toISOString()
+  }
+  saveQueuedWrites([...getAllQueuedWrites(), write])
+  return write
+}
+
+/**
+ * Whether a record shown is a stand-in for a queued write, rather than one the
+ * server has: it can't be changed or removed until the write has been sent
+ * @param id The record's id, which is the queued write's
+ */
+export const isQueuedRecord = (id: string) => id.startsWith(QUEUED_ID_PREFIX)
+
+/**
+ * Takes a write off the queue once it has been sent, or given up on
+ */
+export function dequeueWrite(id: string) {
+  saveQueuedWrites(getAllQueuedWrites().filter((write) => write.id !== id))
+}
+
+/**
+ * Thrown by apiPost instead of failing when a write was queued because the
+ * server or its storage is down
+ */
+export class WriteQueuedError<P extends QueuedPath = QueuedPath> extends Error {
+  constructor(readonly write: QueuedWrite<P>) {
+    super("Saved on this device; it will be sent once the connection is back")
+    this.name = "WriteQueuedError"
+  }
+}
@@ -5,52 +5,49 @@ import { Link } from "react-router-dom"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { useToast } from "../hooks/use-toast"
-import { Settings, RefreshCw, AlertTriangle, Database, Copy, X, Check } from "lucide-react"
+import { useRole } from "../hooks/use-role"
+import { ToastAction } from "@/components/ui/toast"
+import { Settings, RefreshCw, AlertTriangle, Database, Copy, X, Check, LogOut } from "lucide-react"
 import FeedingSchedule from "../components/feeding-schedule"
-import ActualFeedings, { ActualFeeding } from "../components/actual-feedings"
+import ActualFeedings, { ActualFeeding, FeedingConflictError } from "../components/actual-feedings"
 import RecommendationsTable from "../components/recommendations-table"
+import ChildSwitcher from "../components/child-switcher"
+import TwinsPanel from "../components/twins-panel"
+import { type Child, getActiveChildId, setActiveChildId } from "@/lib/children"
+import { ApiError, apiGet, apiPost, getConflict, SIGNED_OUT_EVENT } from "@/lib/api"
+import {
+  clearSnapshots,
+  getOfflineState,
+  OFFLINE_STATE_EVENT,
+  WRITES_REPLAYED_EVENT,
+  WriteQueuedError,
+  type OfflineState
+} from "@/lib/offline"
+import { describeError, type ErrorNotice } from "@/lib/error-messages"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import type { FeedingRecommendation } from "../server/api/recommendations"
+import type { AuditEntry } from "../server/api/audit"
+import type { TrashedFeeding } from "../server/api/trash"
+import type { PlannedFeeding } from "../server/api/feedings"
+import type { FeedingSettings } from "../server/api/settings"
+import type { ApiResponse, DiagnosticInfo } from "../server/api/contract"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { ErrorNotification } from "@/components/error-notification"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
 import * as React from "react"
 
-// Interface defining the structure of feeding settings
-interface FeedingSettings {
-  feedWindows: {
-    min: number
-    max: number
-    ideal: number
-  }
-  feedAmounts: {
-    min: number
-    max: number
-    target: number
-  }
-  useMetric: boolean
-  lockedFeedings: {
-    enabled: boolean
-    times: string[]
-  }
-}
+// Requests about an actual feeding that answer 409 when another caregiver
+// changed it first
+type FeedingConflictPath = "/api/feedings/actual/update" | "/api/feedings/actual/remove" | "/api/audit/restore"
 
-// Type for planned feedings (renamed from FeedingPlan)
-interface PlannedFeeding {
-  id: string
-  date: string
-  planTime: string
-  amount: number
-  isLocked: boolean
-  isCompleted: boolean
-  amountUnit: string
-  generatedAt: string
-}
-
-// Interface for actual feedings is imported from the component
+// Errors that may pass on their own, e.g. while Redis reconnects, so loading
+// is retried before they are shown
+const RETRIED_ERRORS: ApiError["code"][] = ["STORAGE_UNAVAILABLE", "INTERNAL_ERROR"]
 
 export default function Dashboard() {
+  const [children, setChildren] = useState<Child[]>([])
+  const [activeChild, setActiveChild] = useState<string | null>(getActiveChildId())
   const [settings, setSettings] = useState<FeedingSettings | null>(null)
   const [plannedFeedings, setPlannedFeedings] = useState<PlannedFeeding[]>([])
   const [actualFeedings, setActualFeedings] = useState<ActualFeeding[]>([])
@@ -65,34 +62,87 @@ export default function Dashboard() {
   const [hasDataError, setHasDataError] = useState(false)
   const [copied, setCopied] = useState(false)
   const [showInitError, setShowInitError] = useState(false)
-  const [errorMessages, setErrorMessages] = useState<{
-    title: string;
-    description?: string;
-    command?: string;
-    additionalInstructions?: string;
-  } | null>(null);
+  const [errorMessages, setErrorMessages] = useState<ErrorNotice | null>(null);
   const { toast } = useToast()
-  const [diagnosticInfo, setDiagnosticInfo] = useState<any>(null)
+  const { can } = useRole()
+  const [diagnosticInfo, setDiagnosticInfo] = useState<DiagnosticInfo | null>(null)
   const [loadingDiagnostics, setLoadingDiagnostics] = useState(false)
   const [diagnosticError, setDiagnosticError] = useState<string | null>(null)
 
   useEffect(() => {
-    // Load settings, current feeding plans, and recommendations
+    loadChildren()
+  }, [])
+
+  useEffect(() => {
+    // Load the active child's settings, feeding plans, and recommendations
     loadSettings()
     loadPlannedFeedings()
     loadActualFeedings()
     loadRecommendations()
-  }, [])
+  }, [activeChild])
 
-  const loadSettings = async () => {
-    setIsLoading(true)
+  // Live data replaces the offline snapshot once the connection is back, and
+  // feedings logged meanwhile are reloaded once they have been sent
+  useEffect(() => {
+    const reload = () => {
+      loadSettings()
+      loadPlannedFeedings()
+      loadActualFeedings()
+      loadRecommendations()
+    }
+    let wasStale = getOfflineState().staleSince !== null
+    const offlineStateChanged = (event: Event) => {
+      const stale = (event as CustomEvent<OfflineState>).detail.staleSince !== null
+      if (wasStale && !stale) {
+        reload()
+      }
+      wasStale = stale
+    }
+
+    window.addEventListener(OFFLINE_STATE_EVENT, offlineStateChanged)
+    window.addEventListener(WRITES_REPLAYED_EVENT, reload)
+    return () => {
+      window.removeEventListener(OFFLINE_STATE_EVENT, offlineStateChanged)
+      window.removeEventListener(WRITES_REPLAYED_EVENT, reload)
+    }
+  }, [activeChild])
+
+  const loadChildren = async () => {
     try {
-      const response = await fetch("/api/settings/get")
-      const data = await response.json()
+      const data = await apiGet("/api/children/get")
 
-      if (data.settings) {
-        setSettings(data.settings)
+      if (data.children.length > 0) {
+        setChildren(data.children)
+        
+        // Fall back to the first child if the remembered one was removed
+        const current = data.children.find((child) => child.id === activeChild) || data.children[0]
+        if (current.id !== activeChild) {
+          selectChild(current.id)
+        }
       }
+    } catch (error) {
+      console.error("Failed to load children:", error)
+    }
+  }
+
+  const activeChildRecord = children.find((child) => child.id === activeChild)
+
+  const selectChild = (childId: string) => {
+    setActiveChildId(childId)
+    setActiveChild(childId)
+  }
+
+  const handleAddChild = async (name: string, birthDate?: string) => {
+    const data = await apiPost("/api/children/add", { name, birthDate })
+    setChildren(data.children)
+    selectChild(data.child.id)
+  }
+
+  const loadSettings = async () => {
+    setIsLoading(true)
+    try {
+      const data = await apiGet("/api/settings/get")
+      setSettings(data.settings)
     } catch (error) {
       console.error("Failed to load settings:", error)
       toast({
@@ -108,15 +158,8 @@ export default function Dashboard() {
   const loadPlannedFeedings = async () => {
     setIsLoading(true)
     try {
-      const response = await fetch("/api/feedings/get")
-      const data = await response.json()
-
-      if (data.success && data.feedings && data.feedings.planned) {
-        setPlannedFeedings(data.feedings.planned)
-      } else {
-        console.warn("No planned feedings found in response:", data)
-        setPlannedFeedings([])
-      }
+      const data = await apiGet("/api/feedings/planned/get")
+      setPlannedFeedings(data.feedings.planned)
     } catch (error) {
       console.error("Failed to load planned feedings:", error)
       toast({
@@ -133,12 +176,8 @@ export default function Dashboard() {
   const loadActualFeedings = async () => {
     setIsLoadingActualFeedings(true)
     try {
-      const response = await fetch("/api/actual-feedings/get")
-      const data = await response.json()
-
-      if (data.actualFeedings) {
-        setActualFeedings(data.actualFeedings)
-      }
+      const data = await apiGet("/api/feedings/actual/get")
+      setActualFeedings(data.feedings.actual)
     } catch (error) {
       console.error("Failed to load actual feedings:", error)
       toast({
@@ -156,271 +195,33 @@ export default function Dashboard() {
     setRecommendationsError("")
     setHasDataError(false)
     setErrorMessages(null)
-    
-    // First check that the API server is accessible
-    try {
-      const connectionCheck = await fetch("/api/redis/check-connection", {
-        headers: {
-          "Cache-Control": "no-cache",
-          "Pragma": "no-cache",
-        }
-      });
-      
-      if (!connectionCheck.ok) {
-        const errorText = await connectionCheck.text();
-        console.error("API connection check failed:", connectionCheck.status, errorText);
-        
-        // For production deployment - try API root as fallback
-        if (window.location.hostname !== "localhost" && window.location.hostname !== "127.0.0.1") {
-          try {
-            const rootApiCheck = await fetch("/api", {
-              headers: {
-                "Cache-Control": "no-cache",
-                "Pragma": "no-cache",
-              }
-            });
-            
-            if (rootApiCheck.ok) {
-              console.log("API root accessible, but Redis check failed. Proceeding with caution.");
-              // Continue with load attempt despite Redis check failing
-            } else {
-              setErrorMessages({
-                title: "API Connection Error",
-                description: "Cannot connect to the API server in production. The server may be temporarily unavailable.",
-                command: "npx tsx src/scripts/init-all.ts",
-                additionalInstructions: "Copy to clipboard"
-              });
-              setHasDataError(true);
-              setIsLoadingRecommendations(false);
-              return;
-            }
-          } catch (rootApiError) {
-            console.error("Root API check also failed:", rootApiError);
-          }
-        } else {
-          // Development environment
-          setErrorMessages({
-            title: "API Connection Error",
-            description: "Cannot connect to the API server. Please make sure it's running.",
-            command: "sh dev-setup.sh",
-            additionalInstructions: "This command will restart both the API and frontend servers."
-          });
-          setHasDataError(true);
-          setIsLoadingRecommendations(false);
-          return;
-        }
-      }
-      
-      // Connection successful if we reach here
-      const connectionData = await connectionCheck.json().catch(() => ({ connected: false }));
-      if (!connectionData.connected) {
-        console.error("Redis connection check returned not connected:", connectionData);
-        setErrorMessages({
-          title: "Redis Connection Error",
-          description: connectionData.message || "The API server cannot connect to Redis.",
-          command: "npx tsx src/scripts/init-all.ts",
-          additionalInstructions: "After running this command in your terminal, refresh this page."
-        });
-        setHasDataError(true);
-        setIsLoadingRecommendations(false);
-        return;
-      }
-      
-      console.log("API and Redis connection successful, proceeding with data loading");
-    } catch (connectionError) {
-      console.error("Error during API connection check:", connectionError);
-      
-      // In production, try to continue anyway
-      if (window.location.hostname !== "localhost" && window.location.hostname !== "127.0.0.1") {
-        console.log("Production environment: attempting to proceed despite connection check failure");
-        // Continue with data loading despite connection check failure
-      } else {
-        setErrorMessages({
-          title: "API Connection Error",
-          description: connectionError instanceof Error ? connectionError.message : "Cannot reach the API server",
-          command: "sh dev-setup.sh",
-          additionalInstructions: "This command will restart both the API and frontend servers."
-        });
-        setHasDataError(true);
-        setIsLoadingRecommendations(false);
-        return;
-      }
-    }
-    
-    try {
-      // Fetch profile data with better error handling
-      console.log("Fetching profile data...")
-      let profileData;
-      try {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 10000);
-        
-        const profileResponse = await fetch("/api/profile/get", {
-          signal: controller.signal,
-          headers: {
-            "Cache-Control": "no-cache",
-            "Pragma": "no-cache",
-          }
-        });
-        
-        clearTimeout(timeout);
-        
-        if (!profileResponse.ok) {
-          const errorText = await profileResponse.text();
-          console.error("Profile fetch returned error status:", profileResponse.status, errorText);
-          
-          // Check if we should retry
-          if (retryCount < 2 && profileResponse.status >= 500) {
-            console.log(`Retrying profile fetch (attempt ${retryCount + 1})...`);
-            setIsLoadingRecommendations(false);
-            // Wait a moment before retrying
-            setTimeout(() => loadRecommendations(retryCount + 1), 1500);
-            return;
-          }
-          
-          // On production, display a more user-friendly error
-          if (window.location.hostname !== "localhost" && window.location.hostname !== "127.0.0.1") {
-            setErrorMessages({
-              title: "API Connection Error",
-              description: "The application could not connect to the API server: " + 
-                           (errorText.includes("FUNCTION_INVOCATION_FAILED") ? 
-                            "API returned status 500: A server error has occurred" : errorText.substring(0, 100)),
-              command: "npx tsx src/scripts/init-all.ts",
-              additionalInstructions: "Copy to clipboard\nIf the issue persists after running this command, try stopping and restarting the development servers with 'sh dev-setup.sh'."
-            });
-          } else {
-            setErrorMessages({
-              title: "API Connection Error",
-              description: `Server returned ${profileResponse.status}: ${errorText.substring(0, 100)}`,
-              command: "npx tsx src/scripts/init-all.ts",
-              additionalInstructions: "If the issue persists after running this command, try stopping and restarting the development servers with 'sh dev-setup.sh'."
-            });
-          }
-          
-          setHasDataError(true);
-          setIsLoadingRecommendations(false);
-          return;
-        }
-        
-        const responseText = await profileResponse.text()
-        console.log("Raw profile response:", responseText)
-        
-        try {
-          // Try to parse the response as JSON
-          profileData = JSON.parse(responseText)
-          console.log("Profile response parsed:", profileData)
-        } catch (parseError) {
-          console.error("Error parsing profile response:", parseError)
-          console.error("Raw response:", responseText)
-          
-          // Check for specific error patterns
-          if (responseText.includes("FUNCTION_INVOCATION_FAILED")) {
-            setHasDataError(true)
-            setErrorMessages({
-              title: "API Connection Error",
-              description: "The application could not connect to the API server: API returned status 500: A server error has occurred FUNCTION_INVOCATION_FAILED",
-              command: "npx tsx src/scripts/init-all.ts",
-              additionalInstructions: "Copy to clipboard\nIf the issue persists after running this command, try stopping and restarting the development servers with 'sh dev-setup.sh'."
-            });
-            throw new Error(`Redis connection error or serverless function timeout. Please try reinitializing the data.`)
-          }
-          
-          setErrorMessages({
-            title: "Server Response Error",
-            description: `Invalid JSON response from server: ${responseText.substring(0, 50)}...`,
-            command: "npx tsx src/scripts/init-all.ts",
-            additionalInstructions: "After running this command in your terminal, refresh this page."
-          });
-          throw new Error(`Invalid JSON response from server: ${responseText.substring(0, 50)}...`)
-        }
-      } catch (profileError: unknown) {
-        console.error("Failed to fetch profile:", profileError)
-        
-        // Check if this was an abort error (timeout)
-        if (profileError && typeof profileError === 'object' && 'name' in profileError && profileError.name === "AbortError") {
-          setErrorMessages({
-            title: "Request Timeout",
-            description: "The profile data request timed out. The server might be overloaded or unresponsive.",
-            command: "sh dev-setup.sh",
-            additionalInstructions: "This command will restart both the API and frontend servers."
-          });
-        } else {
-          setErrorMessages({
-            title: "Profile Data Error",
-            description: `Could not retrieve profile data: ${profileError instanceof Error ? profileError.message : 'Network error'}`,
-            command: "npx tsx src/scripts/init-all.ts",
-            additionalInstructions: "After running this command in your terminal, refresh this page."
-          });
-        }
-        
-        setHasDataError(true)
-        throw profileError;
-      }
 
-      // Fetch recommendations data with better error handling
-      console.log("Fetching recommendations data...")
-      let recommendationsData;
+    try {
+      // Give up on a server that doesn't answer
+      const controller = new AbortController()
+      const timeout = setTimeout(() => controller.abort(), 10000)
+      let profileData: ApiResponse<"/api/profile/get">
       try {
-        const recommendationsResponse = await fetch("/api/recommendations/get")
-        const responseText = await recommendationsResponse.text()
-        try {
-          // Try to parse the response as JSON
-          recommendationsData = JSON.parse(responseText)
-          console.log("Recommendations response:", recommendationsData)
-        } catch (parseError) {
-          console.error("Error parsing recommendations response:", parseError)
-          console.error("Raw response:", responseText)
-          setHasDataError(true)
-          throw new Error(`Invalid JSON response from server: ${responseText.substring(0, 50)}...`)
-        }
-      } catch (recommendationsError) {
-        console.error("Failed to fetch recommendations:", recommendationsError)
-        setHasDataError(true)
-        throw new Error(`Recommendations fetch failed: ${recommendationsError instanceof Error ? recommendationsError.message : 'Network error'}`)
-      }
-
-      // Process the responses
-      if (!profileData.success) {
-        setHasDataError(true)
-        throw new Error(`Profile fetch failed: ${profileData.error || 'No profile data'}`)
-      }
-
-      if (!recommendationsData.success) {
-        setHasDataError(true)
-        throw new Error(`Recommendations fetch failed: ${recommendationsData.error || 'No recommendations data'}`)
-      }
-
-      if (profileData.profile) {
-        setCurrentAgeInDays(profileData.profile.ageInDays)
-      } else {
-        setHasDataError(true)
-        throw new Error("Profile data missing age information")
+        profileData = await apiGet("/api/profile/get", undefined, controller.signal)
+      } finally {
+        clearTimeout(timeout)
       }
+      const recommendationsData = await apiGet("/api/recommendations/get")
 
-      if (recommendationsData.recommendations) {
-        setRecommendations(recommendationsData.recommendations)
-      } else {
-        setHasDataError(true)
-        throw new Error("Recommendations data is empty")
-      }
+      setCurrentAgeInDays(profileData.profile.ageInDays)
+      setRecommendations(recommendationsData.recommendations)
     } catch (error) {
       console.error("Failed to load recommendations:", error)
-      // More descriptive error message based on the error
-      const errorMessage = error instanceof Error 
-        ? error.message
-        : "Failed to load recommendations. Please check your connection and try again."
-      setRecommendationsError(errorMessage)
-      
-      // Only set a generic error if a more specific one isn't already set
-      if (!errorMessages) {
-        setErrorMessages({
-          title: "Data Loading Error",
-          description: errorMessage,
-          command: "npx tsx src/scripts/init-all.ts",
-          additionalInstructions: "After running this command in your terminal, refresh this page."
-        });
+
+      if (error instanceof ApiError && RETRIED_ERRORS.includes(error.code) && retryCount < 2) {
+        setTimeout(() => loadRecommendations(retryCount + 1), 1500)
+        return
       }
-      
+
+      const notice = describeError(error)
+      setErrorMessages(notice)
+      setRecommendationsError(notice.description || notice.title)
+      setHasDataError(true)
       toast({
         variant: "destructive",
         title: "Failed to Load Data",
@@ -437,65 +238,23 @@ export default function Dashboard() {
     setIsInitializingData(true)
     try {
       // Call the server endpoint to reinitialize data
-      const response = await fetch("/api/redis/initialize-data", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        }
-      })
+      await apiPost("/api/redis/initialize-data", undefined)
       
-      // If the endpoint doesn't exist, inform the user what command to run
-      if (response.status === 404) {
-        setErrorMessages({
-          title: "Initialization Failed",
-          description: "The initialization endpoint is not available.",
-          command: "npx tsx src/scripts/init-all.ts",
-          additionalInstructions: "After running this command in your terminal, refresh this page."
-        });
-        
-        toast({
-          title: "Server API Missing",
-          description: "Please use the command shown in the error message.",
-          duration: 8000
-        })
-        return
-      }
-      
-      const data = await response.json()
+      toast({
+        title: "Data Initialized",
+        description: "Redis database has been successfully initialized.",
+      })
       
-      if (data.success) {
-        toast({
-          title: "Data Initialized",
-          description: "Redis database has been successfully initialized.",
-        })
-        
-        // Reload the data
-        setErrorMessages(null);
-        setHasDataError(false);
-        await loadSettings()
-        await loadPlannedFeedings()
-        await loadActualFeedings()
-        await loadRecommendations()
-      } else {
-        setErrorMessages({
-          title: "Initialization Failed",
-          description: data.message || "The server could not initialize the data.",
-          command: "npx tsx src/scripts/init-all.ts",
-          additionalInstructions: "After running this command in your terminal, refresh this page."
-        });
-        
-        throw new Error(data.message || "Failed to initialize data")
-      }
+      // Reload the data
+      setErrorMessages(null);
+      setHasDataError(false);
+      await loadSettings()
+      await loadPlannedFeedings()
+      await loadActualFeedings()
+      await loadRecommendations()
     } catch (error) {
       console.error("Error initializing data:", error)
-      
-      setErrorMessages({
-        title: "Initialization Failed",
-        description: error instanceof Error ? error.message : "Unknown error occurred during initialization.",
-        command: "npx tsx src/scripts/init-all.ts",
-        additionalInstructions: "After running this command in your terminal, refresh this page."
-      });
-      
+      setErrorMessages(describeError(error))
       toast({
         variant: "destructive",
         title: "Initialization Failed",
@@ -532,157 +291,260 @@ export default function Dashboard() {
   const planNextFeedings = async () => {
     setIsPlanningFeeds(true)
     try {
-      const response = await fetch("/api/feedings/plan", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      })
-
-      const data = await response.json()
-
-      if (data.success && data.feedings) {
-        setPlannedFeedings(data.feedings.planned)
-        
-        // Create a summary of the planned feedings
-        const feedingSummary = data.feedings.planned
-          .map((feeding: PlannedFeeding) => `${feeding.planTime} - ${feeding.amount}${feeding.amountUnit}`)
-          .join('\n');
-        
-        // Show detailed toast with feeding plan
-        toast({
-          title: "New Feeding Plan Generated",
-          description: (
-            <div className="mt-2 space-y-1">
-              <p>Your next feedings are scheduled for:</p>
-              <pre className="mt-2 p-2 bg-secondary rounded-md text-sm">
-                {feedingSummary}
-              </pre>
+      const data = await apiPost("/api/feedings/plan", undefined)
+      setPlannedFeedings(data.feedings.planned)
+      
+      // Create a summary of the planned feedings
+      const feedingSummary = data.feedings.planned
+        .map((feeding) => `${feeding.planTime || feeding.time} - ${feeding.amount}${feeding.amountUnit}`)
+        .join('\n');
+      const generatedAt = data.feedings.planned[0]?.generatedAt
+      
+      // Show detailed toast with feeding plan
+      toast({
+        title: "New Feeding Plan Generated",
+        description: (
+          <div className="mt-2 space-y-1">
+            <p>Your next feedings are scheduled for:</p>
+            <pre className="mt-2 p-2 bg-secondary rounded-md text-sm">
+              {feedingSummary}
+            </pre>
+            {generatedAt && (
               <p className="text-xs text-muted-foreground mt-2">
-                Plan generated at: {new Date(data.feedings.planned[0].generatedAt).toLocaleString()}
+                Plan generated at: {new Date(generatedAt).toLocaleString()}
               </p>
-            </div>
-          ),
-          duration: 5000,
-        })
-      } else {
-        throw new Error(data.message || "Failed to plan feedings")
-      }
+            )}
+            {data.relaxed.length > 0 && (
+              <div className="mt-2 text-xs">
+                <p className="font-medium">Not every setting could be kept:</p>
+                <ul className="list-disc pl-4">
+                  {data.relaxed.map((each) => (
+                    <li key={each.message}>{each.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ),
+        // Longer when there's more to read
+        duration: data.relaxed.length > 0 ? 15000 : 5000,
+      })
     } catch (error) {
       console.error("Error planning feedings:", error)
+      const notice = describeError(error)
       toast({
         variant: "destructive",
-        title: "Planning Failed",
-        description: "Could not generate feeding plan. Please try again.",
+        title: notice.title,
+        description: notice.description,
       })
     } finally {
       setIsPlanningFeeds(false)
     }
   }
 
-  const toggleFeedingCompleted = async (id: string) => {
+  // Applies a completion change; a 409 means another caregiver got there
+  // first, and the plan they left is shown instead. Completing and
+  // uncompleting answer with the same shapes.
+  const postCompletion = async (completion: Promise<ApiResponse<"/api/feedings/complete">>) => {
+    try {
+      const data = await completion
+      setPlannedFeedings(data.feedings.planned)
+      // Completions are logged as actual feedings
+      setActualFeedings(data.feedings.actual)
+      return true
+    } catch (error) {
+      const conflict = getConflict(error, "/api/feedings/complete")
+      if (!conflict) {
+        throw error
+      }
+      setPlannedFeedings(conflict.feedings.planned)
+      return false
+    }
+  }
+
+  const completeScheduledFeeding = async (id: string) => {
+    const feeding = plannedFeedings.find((feed) => feed.id === id)
+    if (!feeding) {
+      return
+    }
+
     try {
-      const updatedPlan = plannedFeedings.map((feed: PlannedFeeding) =>
-        feed.id === id ? { ...feed, isCompleted: !feed.isCompleted } : feed,
-      )
-
-      setPlannedFeedings(updatedPlan)
-
-      await fetch("/api/feedings/update", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          feedingId: id,
-          isCompleted: updatedPlan.find((f: PlannedFeeding) => f.id === id)?.isCompleted,
-        }),
+      // The plan's amount is taken as drunk, now: a completion queued offline
+      // keeps the time it was made rather than the time it is sent
+      const completed = await postCompletion(apiPost("/api/feedings/complete", {
+        feedingId: id,
+        actualAmount: feeding.amount,
+        occurredAt: new Date().toISOString(),
+      }))
+
+      toast(completed ? {
+        title: "Feeding completed",
+        description: "The feeding has been marked as completed",
+        action: (
+          <ToastAction altText="Undo completing the feeding" onClick={() => uncompleteScheduledFeeding(id)}>
+            Undo
+          </ToastAction>
+        ),
+      } : {
+        title: "Already completed",
+        description: "Someone else has already completed this feeding",
       })
     } catch (error) {
-      console.error("Error updating feeding status:", error)
+      // Queued while offline: shown as completed until it has been sent
+      if (error instanceof WriteQueuedError) {
+        setPlannedFeedings((current) => current.map((feed) => (feed.id === id ? { ...feed, isCompleted: true } : feed)))
+        toast({ title: "Saved on this device", description: error.message })
+        return
+      }
+      console.error("Error completing feeding:", error)
       toast({
         variant: "destructive",
         title: "Update Failed",
         description: "Could not update feeding status. Please try again.",
       })
-      // Revert the change in UI
       loadPlannedFeedings()
     }
   }
 
-  // Handlers for actual feedings
-  const handleAddActualFeeding = async (feeding: Omit<ActualFeeding, "id">) => {
+  const uncompleteScheduledFeeding = async (id: string) => {
     try {
-      const response = await fetch("/api/actual-feedings/add", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(feeding),
+      const reopened = await postCompletion(apiPost("/api/feedings/uncomplete", { feedingId: id }))
+
+      toast(reopened ? {
+        title: "Completion undone",
+        description: "The feeding is back in the schedule",
+      } : {
+        title: "Already undone",
+        description: "Someone else has already marked this feeding as not completed",
       })
+    } catch (error) {
+      console.error("Error uncompleting feeding:", error)
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: "Could not update feeding status. Please try again.",
+      })
+      loadPlannedFeedings()
+    }
+  }
 
-      const data = await response.json()
-      
-      if (data.success && data.actualFeedings) {
-        setActualFeedings(data.actualFeedings)
+  // Handlers for actual feedings
+  const handleAddActualFeeding = async (feeding: Omit<ActualFeeding, "id" | "version">) => {
+    try {
+      const data = await apiPost("/api/feedings/actual/add", feeding)
+      setActualFeedings(data.feedings.actual)
+    } catch (error) {
+      if (error instanceof WriteQueuedError) {
+        // Shown until the record the replayed write makes replaces it
+        setActualFeedings((current) => [...current, { ...feeding, id: error.write.id }])
       } else {
-        throw new Error(data.message || "Failed to add actual feeding")
+        console.error("Error adding actual feeding:", error)
       }
-    } catch (error) {
-      console.error("Error adding actual feeding:", error)
       throw error // Re-throw to be handled by component
     }
   }
 
-  const handleUpdateActualFeeding = async (id: string, feeding: Partial<Omit<ActualFeeding, "id">>) => {
+  // A 409 means another caregiver changed the feeding first: show their
+  // version and let the component decide whether to retry
+  const throwFeedingConflict = (error: unknown, path: FeedingConflictPath) => {
+    const conflict = getConflict(error, path)
+    if (conflict) {
+      setActualFeedings(conflict.actualFeedings)
+      throw new FeedingConflictError((error as ApiError).message, conflict.current)
+    }
+  }
+
+  const handleUpdateActualFeeding = async (id: string, feeding: Partial<Omit<ActualFeeding, "id">>, version?: number) => {
     try {
-      const response = await fetch("/api/actual-feedings/update", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          id,
-          ...feeding
-        }),
-      })
+      const data = await apiPost("/api/feedings/actual/update", { id, ...feeding, version })
+      setActualFeedings(data.feedings.actual)
+    } catch (error) {
+      console.error("Error updating actual feeding:", error)
+      throwFeedingConflict(error, "/api/feedings/actual/update")
+      throw error // Re-throw to be handled by component
+    }
+  }
 
-      const data = await response.json()
-      
-      if (data.success && data.actualFeedings) {
-        setActualFeedings(data.actualFeedings)
-      } else {
-        throw new Error(data.message || "Failed to update actual feeding")
+  const handleRemoveActualFeeding = async (id: string, version?: number) => {
+    try {
+      const completed = actualFeedings.find((feeding) => feeding.id === id)?.plannedFeedingId
+      const data = await apiPost("/api/feedings/actual/remove", { id, version })
+      setActualFeedings(data.feedings.actual)
+      // Removing a completion reopens its planned feeding
+      if (completed) {
+        loadPlannedFeedings()
       }
     } catch (error) {
-      console.error("Error updating actual feeding:", error)
+      console.error("Error removing actual feeding:", error)
+      throwFeedingConflict(error, "/api/feedings/actual/remove")
       throw error // Re-throw to be handled by component
     }
   }
 
-  const handleRemoveActualFeeding = async (id: string) => {
+  const handleLoadFeedingHistory = async (id: string): Promise<AuditEntry[]> => {
+    const data = await apiGet("/api/audit/get", { entity: "actualFeeding", entityId: id })
+    return data.entries
+  }
+
+  const handleRestoreFeedingVersion = async (entryId: string, version?: number) => {
     try {
-      const response = await fetch("/api/actual-feedings/remove", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ id }),
-      })
+      const data = await apiPost("/api/audit/restore", { entryId, version })
+      setActualFeedings(data.actualFeedings)
+      if (data.entity === "actualFeeding" && data.actualFeeding?.plannedFeedingId) {
+        loadPlannedFeedings()
+      }
+    } catch (error) {
+      console.error("Error restoring feeding:", error)
+      throwFeedingConflict(error, "/api/audit/restore")
+      throw error // Re-throw to be handled by component
+    }
+  }
 
-      const data = await response.json()
-      
-      if (data.success && data.actualFeedings) {
-        setActualFeedings(data.actualFeedings)
-      } else {
-        throw new Error(data.message || "Failed to remove actual feeding")
+  const handleLoadTrash = async (): Promise<{ trash: TrashedFeeding[]; retentionDays: number }> => {
+    const data = await apiGet("/api/feedings/actual/trash")
+    return { trash: data.trash, retentionDays: data.retentionDays }
+  }
+
+  const handleRestoreFeeding = async (id: string) => {
+    try {
+      const data = await apiPost("/api/feedings/actual/restore", { id })
+      setActualFeedings(data.actualFeedings)
+      // Putting a completion back completes its planned feeding again
+      if (data.actualFeeding.plannedFeedingId) {
+        loadPlannedFeedings()
       }
     } catch (error) {
-      console.error("Error removing actual feeding:", error)
+      console.error("Error restoring feeding:", error)
       throw error // Re-throw to be handled by component
     }
   }
 
+  // Signs this device out; the app then shows the sign-in screen
+  const signOut = async () => {
+    try {
+      await apiPost("/api/auth/logout", undefined)
+      // The next person to use this device shouldn't see the offline copies,
+      // but feedings waiting to be sent stay queued until this member signs in
+      // again
+      const { queued } = getOfflineState()
+      clearSnapshots()
+      window.dispatchEvent(new Event(SIGNED_OUT_EVENT))
+      if (queued > 0) {
+        toast({
+          title: "Changes not sent yet",
+          description: `${queued} ${queued === 1 ? "change" : "changes"} saved on this device will be sent when you sign in here again.`,
+        })
+      }
+    } catch (error) {
+      console.error("Error signing out:", error)
+      toast({
+        variant: "destructive",
+        title: "Sign Out Failed",
+        description: describeError(error).description,
+      })
+    }
+  }
+
   // Add a function to fetch diagnostics
   const fetchDiagnostics = async () => {
     setLoadingDiagnostics(true)
@@ -690,24 +552,15 @@ export default function Dashboard() {
     
     try {
       console.log("Fetching API diagnostics...")
-      const response = await fetch("/api/diagnostics", {
-        headers: {
-          "Cache-Control": "no-cache",
-          "Pragma": "no-cache",
-        }
-      })
-      
-      if (!response.ok) {
-        setDiagnosticError(`Failed to fetch diagnostics: ${response.status} ${response.statusText}`)
-        setLoadingDiagnostics(false)
-        return
-      }
-      
-      const data = await response.json()
+      const data = await apiGet("/api/diagnostics")
       console.log("Diagnostics data:", data)
       setDiagnosticInfo(data)
     } catch (error) {
       console.error("Error fetching diagnostics:", error)
+      if (error instanceof ApiError) {
+        setDiagnosticError(`Failed to fetch diagnostics: ${error.status} ${error.message}`)
+        return
+      }
       setDiagnosticError(`Error fetching diagnostics: ${error instanceof Error ? error.message : 'Unknown error'}`)
     } finally {
       setLoadingDiagnostics(false)
@@ -774,21 +627,27 @@ export default function Dashboard() {
                 <Accordion type="single" collapsible className="w-full">
                   <AccordionItem value="diagnostics">
                     <AccordionTrigger className="text-sm">
-                      API Diagnostics ({diagnosticInfo.environmentInfo.timestamp})
+                      API Diagnostics ({diagnosticInfo.timestamp})
                     </AccordionTrigger>
                     <AccordionContent>
                       <div className="bg-muted p-2 rounded-md overflow-auto max-h-60 text-xs">
                         <p className="font-bold">Environment:</p>
-                        <pre className="mb-2">{JSON.stringify(diagnosticInfo.environmentInfo, null, 2)}</pre>
+                        <pre className="mb-2">{JSON.stringify({
+                          environment: diagnosticInfo.environment,
+                          vercel: diagnosticInfo.vercel,
+                          region: diagnosticInfo.region,
+                          nodeVersion: diagnosticInfo.nodeVersion,
+                        }, null, 2)}</pre>
                         
-                        <p className="font-bold">Redis Check:</p>
-                        <pre className="mb-2">{JSON.stringify(diagnosticInfo.redisCheckResult, null, 2)}</pre>
-                        
-                        <p className="font-bold">Redis Telemetry:</p>
-                        <pre className="mb-2">{JSON.stringify(diagnosticInfo.redisTelemetry, null, 2)}</pre>
-                        
-                        <p className="font-bold">Memory Usage:</p>
-                        <pre>{JSON.stringify(diagnosticInfo.memoryUsage, null, 2)}</pre>
+                        <p className="font-bold">Storage:</p>
+                        <pre>{JSON.stringify({
+                          driver: diagnosticInfo.storageDriver,
+                          redisUrl: diagnosticInfo.redisUrl,
+                          connected: diagnosticInfo.redisConnected,
+                          error: diagnosticInfo.redisError,
+                          keyCount: diagnosticInfo.keyCount,
+                          sampleKeys: diagnosticInfo.redisKeys,
+                        }, null, 2)}</pre>
                       </div>
                     </AccordionContent>
                   </AccordionItem>
@@ -835,13 +694,39 @@ export default function Dashboard() {
     <div className="container mx-auto py-6 space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold">Baby Bottle Planner</h1>
-        <Link to="/settings">
-          <Button variant="outline" size="icon">
-            <Settings className="h-4 w-4" />
+        <div className="flex gap-2">
+          <Link to="/settings">
+            <Button variant="outline" size="icon">
+              <Settings className="h-4 w-4" />
+            </Button>
+          </Link>
+          <Button variant="outline" size="icon" onClick={signOut}>
+            <LogOut className="h-4 w-4" />
+            <span className="sr-only">Sign out</span>
           </Button>
-        </Link>
+        </div>
       </div>
 
+      {children.length > 0 && (
+        <ChildSwitcher
+          childList={children}
+          activeChildId={activeChild}
+          onSelectChild={selectChild}
+          onAddChild={handleAddChild}
+        />
+      )}
+
+      {activeChildRecord && (
+        <TwinsPanel
+          activeChild={activeChildRecord}
+          childList={children}
+          useMetric={settings?.useMetric || false}
+          actualFeedings={actualFeedings}
+          onChildrenChange={setChildren}
+          onPairedFeedingAdded={setActualFeedings}
+        />
+      )}
+
       {/* Use the error notification component */}
       {errorMessages && (
         <ErrorNotification
@@ -875,14 +760,18 @@ export default function Dashboard() {
               <li>Server processing errors</li>
             </ul>
             <div className="pt-2 flex flex-col space-y-2">
-              <Button 
-                onClick={reinitializeData} 
-                disabled={isInitializingData}
-                className="flex items-center gap-2"
-              >
-                <Database className="h-4 w-4" />
-                {isInitializingData ? "Initializing..." : "Reinitialize Database"}
-              </Button>
+              {can("owner") ? (
+                <Button 
+                  onClick={reinitializeData} 
+                  disabled={isInitializingData}
+                  className="flex items-center gap-2"
+                >
+                  <Database className="h-4 w-4" />
+                  {isInitializingData ? "Initializing..." : "Reinitialize Database"}
+                </Button>
+              ) : (
+                <p className="text-sm">Ask the household owner to reinitialize the database.</p>
+              )}
             </div>
           </AlertDescription>
         </Alert>
@@ -921,7 +810,8 @@ export default function Dashboard() {
                     <FeedingSchedule 
                       feedings={plannedFeedings} 
                       useMetric={settings?.useMetric || false}
-                      onToggleCompleted={toggleFeedingCompleted}
+                      onComplete={completeScheduledFeeding}
+                      onUncomplete={uncompleteScheduledFeeding}
                     />
                   ) : (
                     <p>No feeding plan available. Generate a new plan to get started.</p>
@@ -929,10 +819,13 @@ export default function Dashboard() {
                 </CardContent>
               </Card>
               
-              <div className="flex justify-end">
+              <div className="flex justify-end items-center gap-2">
+                {!can("owner") && (
+                  <span className="text-sm text-muted-foreground">Only the household owner can plan feedings.</span>
+                )}
                 <Button 
                   onClick={planNextFeedings}
-                  disabled={isPlanningFeeds}
+                  disabled={isPlanningFeeds || !can("owner")}
                 >
                   {isPlanningFeeds ? 
                     "Planning..." : 
@@ -946,18 +839,13 @@ export default function Dashboard() {
               <ActualFeedings 
                 actualFeedings={actualFeedings} 
                 useMetric={settings?.useMetric || false}
-                onAddFeeding={async (feeding) => {
-                  console.log('Add feeding not implemented', feeding);
-                  await Promise.resolve();
-                }}
-                onUpdateFeeding={async (id, feeding) => {
-                  console.log('Update feeding not implemented', id, feeding);
-                  await Promise.resolve();
-                }}
-                onRemoveFeeding={async (id) => {
-                  console.log('Remove feeding not implemented', id);
-                  await Promise.resolve();
-                }}
+                onAddFeeding={handleAddActualFeeding}
+                onUpdateFeeding={handleUpdateActualFeeding}
+                onRemoveFeeding={handleRemoveActualFeeding}
+                onLoadHistory={handleLoadFeedingHistory}
+                onRestoreVersion={handleRestoreFeedingVersion}
+                onLoadTrash={handleLoadTrash}
+                onRestoreFeeding={handleRestoreFeeding}
               />
             </TabsContent>
             
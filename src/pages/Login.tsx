@@ -0,0 +1,141 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { AlertTriangle, CloudOff } from "lucide-react"
+import { apiPost } from "@/lib/api"
+import { describeError, type ErrorNotice } from "@/lib/error-messages"
+import { PIN_LENGTH } from "../server/api/contract"
+
+interface LoginProps {
+  // Whether the household has chosen a PIN; if not, this device chooses it
+  pinSet: boolean
+  // Changes queued on this device while offline, waiting for the members who
+  // made them to sign in again
+  heldChanges: number
+  onSignedIn: () => void
+}
+
+/**
+ * Asks for a household member's PIN, or has the first device enter the
+ * server's setup code, then choose the owner's PIN and enter it twice
+ */
+export default function Login({ pinSet, heldChanges, onSignedIn }: LoginProps) {
+  const [pin, setPin] = useState("")
+  // The PIN being chosen, once it has been entered the first time
+  const [chosenPin, setChosenPin] = useState<string | null>(null)
+  // SETUP_TOKEN from the server's configuration, asked for with the first PIN
+  const [setupToken, setSetupToken] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<ErrorNotice | null>(null)
+
+  const submit = async (entered: string) => {
+    setError(null)
+
+    if (!pinSet && chosenPin === null) {
+      setChosenPin(entered)
+      setPin("")
+      return
+    }
+    if (!pinSet && entered !== chosenPin) {
+      setChosenPin(null)
+      setPin("")
+      setError({ title: "The PINs don't match", description: "Choose a PIN and enter it twice." })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      if (pinSet) {
+        await apiPost("/api/auth/login", { pin: entered })
+      } else {
+        await apiPost("/api/auth/setup", { pin: entered, setupToken: setupToken.trim() })
+      }
+      onSignedIn()
+    } catch (error) {
+      console.error("Error signing in:", error)
+      setError(describeError(error))
+      setPin("")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const title = pinSet ? "Enter your PIN" : chosenPin === null ? "Choose the owner's PIN" : "Enter the PIN again"
+
+  return (
+    <div className="container mx-auto flex justify-center py-16">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Baby Bottle Planner</CardTitle>
+          <CardDescription>
+            {pinSet
+              ? "Sign in to see and log your baby's feedings."
+              : `Enter the setup code from the server's SETUP_TOKEN, then choose a ${PIN_LENGTH}-digit PIN for yourself. You can give caregivers their own PINs in Settings.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!pinSet && (
+            <div className="space-y-2">
+              <Label htmlFor="setup-token">Setup code</Label>
+              <Input
+                id="setup-token"
+                type="password"
+                autoComplete="off"
+                value={setupToken}
+                onChange={(event) => setSetupToken(event.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+          <p className="text-sm font-medium">{title}</p>
+          <InputOTP
+            maxLength={PIN_LENGTH}
+            pattern="^[0-9]*$"
+            inputMode="numeric"
+            value={pin}
+            onChange={setPin}
+            onComplete={submit}
+            disabled={isSubmitting}
+            autoFocus={pinSet}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: PIN_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+
+          {heldChanges > 0 && (
+            <Alert>
+              <CloudOff className="h-4 w-4" />
+              <AlertTitle>
+                {heldChanges} {heldChanges === 1 ? "change" : "changes"} not sent yet
+              </AlertTitle>
+              <AlertDescription>
+                Saved on this device while it was offline. They are sent once whoever made them signs in here again.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>{error.title}</AlertTitle>
+              {error.description && <AlertDescription>{error.description}</AlertDescription>}
+              {error.command && (
+                <AlertDescription className="mt-2 text-xs">
+                  {error.additionalInstructions} <code>{error.command}</code>
+                </AlertDescription>
+              )}
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -11,25 +11,10 @@ import { Switch } from "@/components/ui/switch"
 import { useToast } from "@/hooks/use-toast"
 import { ChevronLeft, AlertTriangle } from "lucide-react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-
-// This interface defines the structure of our feeding settings
-interface FeedingSettings {
-  feedWindows: {
-    min: number
-    max: number
-    ideal: number
-  }
-  feedAmounts: {
-    min: number
-    max: number
-    target: number
-  }
-  useMetric: boolean
-  lockedFeedings: {
-    enabled: boolean
-    times: string[]
-  }
-}
+import { ApiError, apiGet, apiPost } from "@/lib/api"
+import { useRole } from "@/hooks/use-role"
+import HouseholdMembers from "../components/household-members"
+import type { FeedingSettings } from "../server/api/settings"
 
 const defaultSettings: FeedingSettings = {
   feedWindows: {
@@ -53,16 +38,14 @@ export default function Settings() {
   const [settings, setSettings] = useState<FeedingSettings>(defaultSettings)
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
+  const { can } = useRole()
 
   useEffect(() => {
     // Load settings from Redis
     setIsLoading(true)
-    fetch("/api/settings/get")
-      .then((res) => res.json())
+    apiGet("/api/settings/get")
       .then((data) => {
-        if (data.settings) {
-          setSettings(data.settings)
-        }
+        setSettings(data.settings)
       })
       .catch((err) => {
         console.error("Failed to load settings:", err)
@@ -80,26 +63,22 @@ export default function Settings() {
   const handleSaveSettings = async () => {
     setIsLoading(true)
     try {
-      const response = await fetch("/api/settings/save", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ settings }),
+      await apiPost("/api/settings/save", { settings })
+      toast({
+        title: "Settings Saved",
+        description: "Your feeding settings have been saved successfully.",
       })
-
-      const data = await response.json()
-
-      if (data.success) {
+    } catch (error) {
+      console.error("Error saving settings:", error)
+      if (error instanceof ApiError && error.code === "VALIDATION_FAILED") {
+        // The server lists what is wrong with each field
         toast({
-          title: "Settings Saved",
-          description: "Your feeding settings have been saved successfully.",
+          variant: "destructive",
+          title: "Invalid Settings",
+          description: error.message,
         })
-      } else {
-        throw new Error(data.message || "Failed to save settings")
+        return
       }
-    } catch (error) {
-      console.error("Error saving settings:", error)
       toast({
         variant: "destructive",
         title: "Save Failed",
@@ -354,6 +333,8 @@ export default function Settings() {
           Settings Override Not Available
         </Button>
       </div>
+
+      {can("owner") && <HouseholdMembers />}
     </div>
   )
 }
@@ -0,0 +1,90 @@
+/**
+ * This script backs up and restores all planner data
+ * Run with: npx tsx src/scripts/backup.ts [backup|verify|restore] [options]
+ *
+ * - backup [--out <file>]: write an archive of all data (default .data/backups/)
+ * - verify <file>: check an archive's format, schema version and checksums
+ * - restore <file> [--merge] [--dry-run]: import an archive, replacing the
+ *   stored data unless --merge is given
+ *
+ * Uses the storage backend selected by STORAGE_DRIVER, like the servers do.
+ */
+
+import "./load-config"
+import { promises as fs } from "fs"
+import path from "path"
+import { closeStorage } from "../server/api/storage"
+import { ensureLatestSchema } from "../server/api/migrations"
+import {
+  createBackup,
+  restoreBackup,
+  validateBackup,
+  InvalidBackupError,
+  type BackupArchive
+} from "../server/api/backup"
+
+const DEFAULT_BACKUP_DIR = ".data/backups"
+
+const args = process.argv.slice(2)
+const [command = "backup", file] = args.filter((arg, index) => !arg.startsWith("--") && args[index - 1] !== "--out")
+const merge = args.includes("--merge")
+const dryRun = args.includes("--dry-run")
+const outIndex = args.indexOf("--out")
+const out = outIndex === -1 ? undefined : args[outIndex + 1]
+
+async function readArchive(): Promise<BackupArchive> {
+  if (!file) {
+    throw new Error(`${command} needs the archive file`)
+  }
+  return JSON.parse(await fs.readFile(path.resolve(file), "utf8"))
+}
+
+async function main() {
+  switch (command) {
+    case "backup": {
+      await ensureLatestSchema()
+      const archive = await createBackup()
+      const target = path.resolve(
+        out || path.join(DEFAULT_BACKUP_DIR, `bottle-planner-${archive.createdAt.replace(/[:.]/g, "-")}.json`)
+      )
+
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await fs.writeFile(target, JSON.stringify(archive, null, 2))
+      const feedings = archive.children.reduce((total, backup) => total + backup.actualFeedings.length, 0)
+      console.log(`✅ Backed up ${archive.children.length} child(ren) and ${feedings} actual feeding(s) to ${target}`)
+      break
+    }
+
+    case "verify": {
+      const problems = validateBackup(await readArchive())
+      if (problems.length > 0) {
+        throw new InvalidBackupError(problems)
+      }
+      console.log("✅ Archive is valid")
+      break
+    }
+
+    case "restore": {
+      const archive = await readArchive()
+      await ensureLatestSchema()
+      const summary = await restoreBackup(archive, { merge, dryRun })
+      console.log(
+        `✅ ${dryRun ? "Would restore" : "Restored"} ${summary.children} child(ren), ` +
+          `${summary.plannedFeedings} planned and ${summary.actualFeedings} actual feeding(s)` +
+          `${merge ? " (merged)" : ""}`
+      )
+      break
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}". Use backup, verify or restore.`)
+  }
+
+  await closeStorage()
+}
+
+main().catch(async (error) => {
+  console.error("❌ Backup failed:", error instanceof Error ? error.message : error)
+  await closeStorage()
+  process.exit(1)
+})
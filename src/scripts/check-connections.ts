@@ -3,26 +3,25 @@
  * Run with: npx tsx src/scripts/check-connections.ts
  */
 
+import "./load-config"
 import { getRedisClient, closeRedisConnection } from "../server/api/redis-client"
-import 'dotenv/config'
+import { STORAGE_KEYS } from "../server/api/storage/types"
+import { getConfig, redactRedisUrl } from "../server/api/config"
 
-// All Redis keys used in the application
-const REDIS_KEYS = {
-  PROFILE: "baby:profile",
-  RECOMMENDATIONS: "baby:recommendations",
-  SETTINGS: "baby:settings",
-  PLANNED_FEEDINGS: "baby:plannedFeedings",
-  ACTUAL_FEEDINGS: "baby:actualFeedings"
-};
+// Household-wide Redis keys; each child's data lives under "baby:child:<id>:*"
+const REDIS_KEYS = STORAGE_KEYS;
 
 async function main() {
   console.log("=== CONNECTION DIAGNOSTIC TOOL ===")
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`)
+  const config = getConfig()
+  console.log(`Environment: ${config.profile}`)
+  console.log(`Storage driver: ${config.storageDriver}`)
+  console.log(`OpenAI API key: ${config.openaiApiKey ? "set" : "not set - plans use the rule-based planner"}`)
   
   try {
     // 1. Basic Redis connection check
     console.log("\n1. Checking Redis connection...")
-    console.log(`Redis URL: ${process.env.REDIS_URL || 'Not set - using defaults'}`)
+    console.log(`Redis URL: ${redactRedisUrl(config.redisUrl)}`)
     
     const startTime = Date.now()
     const client = await getRedisClient()
@@ -49,27 +48,15 @@ async function main() {
         const dataSize = value ? value.length : 0
         console.log(`✅ EXISTS (${dataSize} bytes)`)
         
-        // For actual feedings, check the content format
-        if (keyValue === REDIS_KEYS.ACTUAL_FEEDINGS && value) {
+        // For children, check the content format
+        if (keyValue === REDIS_KEYS.CHILDREN && value) {
           try {
-            const parsedValue = JSON.parse(value)
-            console.log(`   - Contains ${parsedValue.length} feeding records`)
-            if (parsedValue.length > 0) {
-              const sample = parsedValue[0]
-              console.log(`   - Sample record fields: ${Object.keys(sample).join(', ')}`)
-              
-              // Check if it has the required fields
-              const hasRequiredFields = sample.id && 
-                (sample.actualTime || sample.time) && 
-                sample.date && 
-                (sample.amount !== undefined || sample.Amount !== undefined)
-              
-              if (hasRequiredFields) {
-                console.log(`   - ✅ Sample record has required fields`)
-              } else {
-                console.log(`   - ❌ WARNING: Sample record missing required fields`)
-                console.log(`   - Sample record: ${JSON.stringify(sample, null, 2)}`)
-              }
+            const children = JSON.parse(value)
+            console.log(`   - Contains ${children.length} children: ${children.map((child: any) => child.name).join(', ')}`)
+            
+            for (const child of children) {
+              const childKeys = await client.keys(`baby:child:${child.id}:*`)
+              console.log(`   - ${child.name} (${child.id}): ${childKeys.length} keys`)
             }
           } catch (parseError) {
             console.log(`   - ❌ ERROR: Invalid JSON data`)
@@ -1,14 +1,17 @@
 /**
- * This script imports real feeding data into the baby:actualFeedings Redis key
- * Run with: npx tsx src/scripts/import-actual-feedings.ts
+ * This script imports real feeding data into the configured storage, replacing
+ * a child's actual feedings. Records are converted to the canonical model.
+ * Run with: npx tsx src/scripts/import-actual-feedings.ts [--child <id>]
+ * Without --child the data goes to the household's first child.
  */
 
-import { getRedisClient, closeRedisConnection } from "../server/api/redis-client"
+import "./load-config"
+import { closeStorage, getStorage } from "../server/api/storage"
+import { ensureLatestSchema } from "../server/api/migrations"
+import { getDefaultChild, resolveChildId } from "../server/api/children"
+import { upgradeActualFeeding } from "../server/api/legacy-feedings"
+import type { ActualFeeding } from "../server/api/feedings"
 import { nanoid } from "nanoid"
-import 'dotenv/config'
-
-// The Redis key for actual feedings
-const ACTUAL_FEEDINGS_KEY = "baby:actualFeedings"
 
 // The real feeding data to import
 const actualFeedingsData = [
@@ -92,50 +95,46 @@ const actualFeedingsData = [
   }
 ]
 
-// Transform dates to standardized format (YYYY-MM-DD)
-function standardizeDate(dateStr: string) {
-  // Replace dots with dashes
-  const standardized = dateStr.replace(/\./g, '-')
-  return standardized
-}
-
 async function main() {
   console.log("Starting import of actual feedings data...")
   
   try {
-    // Connect to Redis
-    const client = await getRedisClient()
-    console.log("✅ Connected to Redis successfully")
+    await ensureLatestSchema()
+    const childArg = process.argv.indexOf("--child")
+    const childId = childArg === -1 ? (await getDefaultChild()).id : await resolveChildId(process.argv[childArg + 1])
+    if (!childId) {
+      throw new Error(`Child ${process.argv[childArg + 1]} not found`)
+    }
+    const storage = getStorage().forChild(childId)
+    console.log(`Importing into child ${childId}`)
     
-    // Add unique IDs to each feeding record
-    const feedingsWithIds = actualFeedingsData.map(feeding => ({
-      id: nanoid(),
-      ...feeding,
-      // Standardize the date format
-      date: standardizeDate(feeding.date)
-    }))
+    // Convert each record to the canonical model with a unique ID
+    const feedings: ActualFeeding[] = []
+    for (const feeding of actualFeedingsData) {
+      const canonical = upgradeActualFeeding({ id: nanoid(), ...feeding })
+      if (canonical) {
+        feedings.push({ ...canonical, version: 1 })
+      } else {
+        console.warn("⚠️ Skipping unreadable record:", feeding)
+      }
+    }
     
-    console.log(`Prepared ${feedingsWithIds.length} feeding records for import`)
+    console.log(`Prepared ${feedings.length} feeding records for import`)
     
-    // Save to Redis
-    await client.set(ACTUAL_FEEDINGS_KEY, JSON.stringify(feedingsWithIds))
+    await storage.actualFeedings.replaceAll(feedings)
     console.log("✅ Successfully imported actual feedings data")
     
     // Verify the data was saved
-    const savedData = await client.get(ACTUAL_FEEDINGS_KEY)
-    if (savedData) {
-      const parsedData = JSON.parse(savedData)
-      console.log(`✅ Verified ${parsedData.length} records were saved to Redis`)
-      console.log("Sample record:", parsedData[0])
-    }
+    const savedData = await storage.actualFeedings.list()
+    console.log(`✅ Verified ${savedData.length} records were saved`)
+    console.log("Sample record:", savedData[0])
     
-    // Close Redis connection and exit
-    await closeRedisConnection()
-    console.log("Redis connection closed")
+    await closeStorage()
+    console.log("Storage connection closed")
     
   } catch (error) {
     console.error("❌ Error during import:", error)
-    await closeRedisConnection()
+    await closeStorage()
     process.exit(1)
   }
 }
@@ -143,6 +142,6 @@ async function main() {
 // Run the import process
 main().catch(async (error) => {
   console.error("❌ Unhandled error in import process:", error)
-  await closeRedisConnection()
+  await closeStorage()
   process.exit(1)
 }) 
\ No newline at end of file
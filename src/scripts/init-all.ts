@@ -3,23 +3,24 @@
  * Run with: npx tsx src/scripts/init-all.ts
  * 
  * This script ensures all required baby data is initialized in Redis:
- * - Profile information
  * - Feeding recommendations
- * - User settings
+ * - Profile, settings and feedings of the household's first child
  * 
  * It includes retry logic to handle temporary connection issues.
  */
 
+import "./load-config"
 import { getRedisClient, closeRedisConnection } from "../server/api/redis-client"
+import { getConfig } from "../server/api/config"
+import { getStorage } from "../server/api/storage"
+import { ensureLatestSchema } from "../server/api/migrations"
+import { getDefaultChild } from "../server/api/children"
+import { upgradeActualFeeding } from "../server/api/legacy-feedings"
+import type { ActualFeeding, PlannedFeeding } from "../server/api/feedings"
 import { nanoid } from "nanoid"
-import 'dotenv/config'
 
-// All Redis keys used in the application
-const PROFILE_KEY = "baby:profile"
+// Household-wide Redis keys; each child's data goes through the storage layer
 const RECOMMENDATIONS_KEY = "baby:recommendations"
-const SETTINGS_KEY = "baby:settings"
-const PLANNED_FEEDINGS_KEY = "baby:plannedFeedings"
-const ACTUAL_FEEDINGS_KEY = "baby:actualFeedings"
 
 // Flag to force reinitialization even if data exists
 const FORCE_REINIT = process.argv.includes('--force')
@@ -175,7 +176,7 @@ const RETRY_DELAY_MS = 1000
  */
 async function main() {
   console.log("=== BOTTLE PLANNER INITIALIZATION TOOL ===")
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`)
+  console.log(`Environment: ${getConfig().profile}`)
   console.log(`Force reinitialization: ${FORCE_REINIT ? 'YES' : 'NO'}`)
   
   try {
@@ -184,6 +185,12 @@ async function main() {
     const client = await getRedisClient()
     console.log("✅ Connected to Redis successfully")
     
+    // Bring the stored data to the current layout, then fill in the first child
+    await ensureLatestSchema()
+    const child = await getDefaultChild()
+    const childStorage = getStorage().forChild(child.id)
+    console.log(`Initializing data for ${child.name} (${child.id})`)
+    
     // Define default data
     const defaultProfile = {
       birthDate: "2025-03-20T00:00:00.000Z",
@@ -239,11 +246,12 @@ async function main() {
       }
     }
     
-    const initialPlannedFeedings = [
+    const initialPlannedFeedings: PlannedFeeding[] = [
       {
         id: nanoid(),
         time: "08:00",
         amount: 2,
+        amountUnit: "oz",
         isLocked: true,
         isCompleted: false
       },
@@ -251,6 +259,7 @@ async function main() {
         id: nanoid(),
         time: "10:30",
         amount: 2,
+        amountUnit: "oz",
         isLocked: false,
         isCompleted: false
       },
@@ -258,6 +267,7 @@ async function main() {
         id: nanoid(),
         time: "13:00",
         amount: 2,
+        amountUnit: "oz",
         isLocked: false,
         isCompleted: false
       },
@@ -265,6 +275,7 @@ async function main() {
         id: nanoid(),
         time: "15:30",
         amount: 2,
+        amountUnit: "oz",
         isLocked: false,
         isCompleted: false
       },
@@ -272,6 +283,7 @@ async function main() {
         id: nanoid(),
         time: "18:00",
         amount: 2,
+        amountUnit: "oz",
         isLocked: false,
         isCompleted: false
       },
@@ -279,6 +291,7 @@ async function main() {
         id: nanoid(),
         time: "20:30",
         amount: 2,
+        amountUnit: "oz",
         isLocked: false,
         isCompleted: false
       },
@@ -286,6 +299,7 @@ async function main() {
         id: nanoid(),
         time: "22:00",
         amount: 2,
+        amountUnit: "oz",
         isLocked: true,
         isCompleted: false
       },
@@ -293,6 +307,7 @@ async function main() {
         id: nanoid(),
         time: "00:30",
         amount: 2,
+        amountUnit: "oz",
         isLocked: true,
         isCompleted: false
       },
@@ -300,6 +315,7 @@ async function main() {
         id: nanoid(),
         time: "03:00",
         amount: 2,
+        amountUnit: "oz",
         isLocked: true,
         isCompleted: false
       },
@@ -307,6 +323,7 @@ async function main() {
         id: nanoid(),
         time: "05:30",
         amount: 2,
+        amountUnit: "oz",
         isLocked: true,
         isCompleted: false
       }
@@ -340,10 +357,10 @@ async function main() {
     ]
     
     // Initialize profile data
-    const existingProfile = FORCE_REINIT ? null : await client.get(PROFILE_KEY)
+    const existingProfile = FORCE_REINIT ? null : await childStorage.profile.get()
     if (!existingProfile) {
       console.log("Initializing profile data...")
-      await client.set(PROFILE_KEY, JSON.stringify(defaultProfile))
+      await childStorage.profile.save(defaultProfile)
       console.log("✅ Profile data initialized")
     } else {
       console.log("Profile data already exists")
@@ -360,76 +377,53 @@ async function main() {
     }
     
     // Initialize settings data
-    const existingSettings = FORCE_REINIT ? null : await client.get(SETTINGS_KEY)
+    const existingSettings = FORCE_REINIT ? null : await childStorage.settings.get()
     if (!existingSettings) {
       console.log("Initializing settings data...")
-      await client.set(SETTINGS_KEY, JSON.stringify(defaultSettings))
+      await childStorage.settings.save(defaultSettings)
       console.log("✅ Settings data initialized")
     } else {
       console.log("Settings data already exists")
     }
     
     // Initialize planned feedings data
-    const existingFeedings = FORCE_REINIT ? null : await client.get(PLANNED_FEEDINGS_KEY)
-    if (!existingFeedings) {
+    const existingFeedings = FORCE_REINIT ? [] : await childStorage.plannedFeedings.list()
+    if (existingFeedings.length === 0) {
       console.log("Initializing planned feedings data...")
-      await client.set(PLANNED_FEEDINGS_KEY, JSON.stringify(initialPlannedFeedings))
+      await childStorage.plannedFeedings.replaceAll(initialPlannedFeedings)
       console.log("✅ Planned feedings data initialized")
     } else {
       console.log("Planned feedings data already exists")
     }
     
     // Initialize actual feedings data
-    const existingActualFeedings = FORCE_REINIT ? null : await client.get(ACTUAL_FEEDINGS_KEY)
-    if (!existingActualFeedings) {
+    const actualFeedings = childStorage.actualFeedings
+    const existingActualFeedings = FORCE_REINIT ? [] : await actualFeedings.list()
+    if (existingActualFeedings.length === 0) {
       console.log("Initializing actual feedings data...")
-      await client.set(ACTUAL_FEEDINGS_KEY, JSON.stringify(initialActualFeedings))
+      const canonicalFeedings = initialActualFeedings
+        .map((feeding) => upgradeActualFeeding(feeding))
+        .filter((feeding): feeding is ActualFeeding => feeding !== null)
+        .map((feeding) => ({ ...feeding, version: 1 }))
+      await actualFeedings.replaceAll(canonicalFeedings)
       console.log("✅ Actual feedings data initialized")
     } else {
       console.log("Actual feedings data already exists")
-      
-      // Check if actual feedings have the correct format (actualTime, planTime)
-      try {
-        const parsedFeedings = JSON.parse(existingActualFeedings)
-        const sampleFeeding = parsedFeedings[0]
-        
-        // Check if required fields are missing
-        if (sampleFeeding && 
-            (!sampleFeeding.actualTime || !sampleFeeding.planTime)) {
-          console.log("⚠️ Actual feedings are missing required fields")
-          console.log("Updating actual feedings data format...")
-          
-          // Update format of existing feedings
-          const updatedFeedings = parsedFeedings.map((feeding: any) => ({
-            ...feeding,
-            actualTime: feeding.actualTime || feeding.time || "Unknown",
-            planTime: feeding.planTime || feeding.time || "Unknown"
-          }))
-          
-          await client.set(ACTUAL_FEEDINGS_KEY, JSON.stringify(updatedFeedings))
-          console.log("✅ Actual feedings data format updated")
-        }
-      } catch (parseError) {
-        console.error("❌ Error parsing actual feedings data:", parseError)
-        console.log("Reinitializing actual feedings data...")
-        await client.set(ACTUAL_FEEDINGS_KEY, JSON.stringify(initialActualFeedings))
-        console.log("✅ Actual feedings data reinitialized")
-      }
     }
     
     // Verify all data
     console.log("\nVerifying data...")
-    const savedProfile = await client.get(PROFILE_KEY)
+    const savedProfile = await childStorage.profile.get()
     const savedRecommendations = await client.get(RECOMMENDATIONS_KEY)
-    const savedSettings = await client.get(SETTINGS_KEY)
-    const savedPlannedFeedings = await client.get(PLANNED_FEEDINGS_KEY)
-    const savedActualFeedings = await client.get(ACTUAL_FEEDINGS_KEY)
+    const savedSettings = await childStorage.settings.get()
+    const savedPlannedFeedings = await childStorage.plannedFeedings.list()
+    const savedActualFeedings = await actualFeedings.list()
     
-    console.log(`Profile: ${savedProfile ? 'OK' : 'MISSING'} (${savedProfile?.length || 0} bytes)`)
+    console.log(`Profile: ${savedProfile ? 'OK' : 'MISSING'}`)
     console.log(`Recommendations: ${savedRecommendations ? 'OK' : 'MISSING'} (${savedRecommendations?.length || 0} bytes)`)
-    console.log(`Settings: ${savedSettings ? 'OK' : 'MISSING'} (${savedSettings?.length || 0} bytes)`)
-    console.log(`Planned Feedings: ${savedPlannedFeedings ? 'OK' : 'MISSING'} (${savedPlannedFeedings?.length || 0} bytes)`)
-    console.log(`Actual Feedings: ${savedActualFeedings ? 'OK' : 'MISSING'} (${savedActualFeedings?.length || 0} bytes)`)
+    console.log(`Settings: ${savedSettings ? 'OK' : 'MISSING'}`)
+    console.log(`Planned Feedings: ${savedPlannedFeedings.length > 0 ? 'OK' : 'MISSING'} (${savedPlannedFeedings.length} records)`)
+    console.log(`Actual Feedings: ${savedActualFeedings.length > 0 ? 'OK' : 'MISSING'} (${savedActualFeedings.length} records)`)
     
     // Close Redis connection
     await closeRedisConnection()
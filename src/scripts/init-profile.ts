@@ -1,14 +1,15 @@
 /**
- * This script initializes the baby profile data in Redis
- * Run with: npx tsx src/scripts/init-profile.ts
+ * This script initializes a child's profile data in the configured storage
+ * Run with: npx tsx src/scripts/init-profile.ts [--child <id>]
+ * Without --child the data goes to the household's first child.
  */
 
-import { getRedisClient } from "../server/api/redis-client"
-import 'dotenv/config'
+import "./load-config"
+import { closeStorage, getStorage } from "../server/api/storage"
+import { ensureLatestSchema } from "../server/api/migrations"
+import { getDefaultChild, resolveChildId } from "../server/api/children"
 
 // Default baby profile
-const NEWBORN_PROFILE_KEY = "baby:profile"
-
 const defaultProfile = {
   birthDate: "2025-03-20T00:00:00.000Z",
   ageInDays: 7,
@@ -22,30 +23,36 @@ const defaultProfile = {
 }
 
 async function main() {
-  console.log("Initializing baby profile in Redis...")
+  console.log("Initializing baby profile in storage...")
   
   try {
-    // Connect to Redis
-    const client = await getRedisClient()
-    console.log("Connected to Redis")
+    await ensureLatestSchema()
+    const childArg = process.argv.indexOf("--child")
+    const childId = childArg === -1 ? (await getDefaultChild()).id : await resolveChildId(process.argv[childArg + 1])
+    if (!childId) {
+      throw new Error(`Child ${process.argv[childArg + 1]} not found`)
+    }
+    const storage = getStorage().forChild(childId)
+    console.log(`Initializing child ${childId}`)
     
     // Check if profile already exists
-    const existingProfile = await client.get(NEWBORN_PROFILE_KEY)
+    const existingProfile = await storage.profile.get()
     
     if (existingProfile) {
-      console.log("Profile already exists in Redis:", existingProfile)
+      console.log("Profile already exists in storage:", existingProfile)
       console.log("Overwriting with default profile...")
     }
     
     // Save default profile
-    await client.set(NEWBORN_PROFILE_KEY, JSON.stringify(defaultProfile))
-    console.log("Default profile successfully saved to Redis")
+    await storage.profile.save(defaultProfile)
+    console.log("Default profile successfully saved to storage")
     
     // Verify profile was saved
-    const savedProfile = await client.get(NEWBORN_PROFILE_KEY)
-    console.log("Verified profile in Redis:", savedProfile)
+    const savedProfile = await storage.profile.get()
+    console.log("Verified profile in storage:", savedProfile)
     
     console.log("Profile initialization completed successfully")
+    await closeStorage()
     process.exit(0)
   } catch (error) {
     console.error("Error initializing profile:", error)
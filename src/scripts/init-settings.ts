@@ -1,12 +1,13 @@
 /**
- * This script initializes the settings data in Redis
- * Run with: npx tsx src/scripts/init-settings.ts
+ * This script initializes a child's settings data in the configured storage
+ * Run with: npx tsx src/scripts/init-settings.ts [--child <id>]
+ * Without --child the data goes to the household's first child.
  */
 
-import { getRedisClient } from "../server/api/redis-client"
-import 'dotenv/config'
-
-const SETTINGS_KEY = "baby:settings"
+import "./load-config"
+import { closeStorage, getStorage } from "../server/api/storage"
+import { ensureLatestSchema } from "../server/api/migrations"
+import { getDefaultChild, resolveChildId } from "../server/api/children"
 
 const defaultSettings = {
   feedWindows: {
@@ -27,30 +28,36 @@ const defaultSettings = {
 }
 
 async function main() {
-  console.log("Initializing settings in Redis...")
+  console.log("Initializing settings in storage...")
   
   try {
-    // Connect to Redis
-    const client = await getRedisClient()
-    console.log("Connected to Redis")
+    await ensureLatestSchema()
+    const childArg = process.argv.indexOf("--child")
+    const childId = childArg === -1 ? (await getDefaultChild()).id : await resolveChildId(process.argv[childArg + 1])
+    if (!childId) {
+      throw new Error(`Child ${process.argv[childArg + 1]} not found`)
+    }
+    const storage = getStorage().forChild(childId)
+    console.log(`Initializing child ${childId}`)
     
     // Check if settings already exist
-    const existingSettings = await client.get(SETTINGS_KEY)
+    const existingSettings = await storage.settings.get()
     
     if (existingSettings) {
-      console.log("Settings already exist in Redis:", existingSettings)
+      console.log("Settings already exist in storage:", existingSettings)
       console.log("Overwriting with default settings...")
     }
     
     // Save default settings
-    await client.set(SETTINGS_KEY, JSON.stringify(defaultSettings))
-    console.log("Default settings successfully saved to Redis")
+    await storage.settings.save(defaultSettings)
+    console.log("Default settings successfully saved to storage")
     
     // Verify settings were saved
-    const savedSettings = await client.get(SETTINGS_KEY)
-    console.log("Verified settings in Redis:", savedSettings)
+    const savedSettings = await storage.settings.get()
+    console.log("Verified settings in storage:", savedSettings)
     
     console.log("Settings initialization completed successfully")
+    await closeStorage()
     process.exit(0)
   } catch (error) {
     console.error("Error initializing settings:", error)
@@ -0,0 +1,9 @@
+/**
+ * Imported first by every script: loads the .env files for NODE_ENV's profile
+ * and refuses to run with missing, invalid or insecure settings, like the
+ * servers do. See src/server/api/config.ts.
+ */
+
+import { requireValidConfig } from "../server/api/config"
+
+requireValidConfig()
@@ -0,0 +1,70 @@
+/**
+ * This script shows and changes the schema version of the stored data
+ * Run with: npx tsx src/scripts/migrate.ts [status|up|down] [--to <version>] [--dry-run]
+ *
+ * - status: show the stored and latest schema versions and pending migrations
+ * - up: apply pending migrations (up to --to, default the latest)
+ * - down: roll back to --to (required) if every step on the way is reversible
+ *
+ * Uses the storage backend selected by STORAGE_DRIVER, like the servers do.
+ */
+
+import "./load-config"
+import { closeStorage } from "../server/api/storage"
+import {
+  getMigrationStatus,
+  runMigrations,
+  rollbackMigrations
+} from "../server/api/migrations"
+
+const args = process.argv.slice(2)
+const command = args.find((arg) => !arg.startsWith("--")) || "status"
+const dryRun = args.includes("--dry-run")
+const toIndex = args.indexOf("--to")
+const to = toIndex === -1 ? undefined : Number(args[toIndex + 1])
+
+async function main() {
+  if (to !== undefined && !Number.isInteger(to)) {
+    throw new Error("--to must be a schema version number")
+  }
+
+  const status = await getMigrationStatus()
+  console.log(`Stored schema version: ${status.current} (latest: ${status.latest})`)
+
+  switch (command) {
+    case "status":
+      if (status.pending.length === 0) {
+        console.log("✅ No pending migrations")
+      }
+      for (const migration of status.pending) {
+        console.log(`  pending ${migration.version}: ${migration.description}`)
+      }
+      break
+
+    case "up": {
+      const applied = await runMigrations({ dryRun, to })
+      console.log(`✅ ${dryRun ? "Would apply" : "Applied"} ${applied.length} migration(s)`)
+      break
+    }
+
+    case "down": {
+      if (to === undefined) {
+        throw new Error("down needs --to <version>")
+      }
+      const reverted = await rollbackMigrations({ dryRun, to })
+      console.log(`✅ ${dryRun ? "Would roll back" : "Rolled back"} ${reverted.length} migration(s)`)
+      break
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}". Use status, up or down.`)
+  }
+
+  await closeStorage()
+}
+
+main().catch(async (error) => {
+  console.error("❌ Migration failed:", error instanceof Error ? error.message : error)
+  await closeStorage()
+  process.exit(1)
+})
@@ -0,0 +1,47 @@
+/**
+ * This script sets the household owner's PIN, e.g. when it was forgotten or
+ * sign-in is locked. Every signed-in device is signed out; caregivers and
+ * viewers keep their own PINs.
+ * Run with: npx tsx src/scripts/set-pin.ts
+ *
+ * Uses the storage backend selected by STORAGE_DRIVER, like the servers do.
+ */
+
+import "./load-config"
+import { createInterface } from "readline"
+import { closeStorage } from "../server/api/storage"
+import { replacePin } from "../server/api/auth"
+import { describeFieldErrors, pinBody, toFieldErrors } from "../server/api/schemas"
+import { PIN_LENGTH } from "../server/api/contract"
+
+async function main() {
+  // Asked for rather than passed as an argument, so it stays out of the shell history
+  const prompt = createInterface({ input: process.stdin, output: process.stdout })
+  // Lines are buffered, so answers piped in ahead of the questions aren't lost
+  const lines = prompt[Symbol.asyncIterator]()
+  const ask = async (question: string) => {
+    process.stdout.write(question)
+    return String((await lines.next()).value ?? "")
+  }
+  const pin = await ask(`New ${PIN_LENGTH}-digit PIN: `)
+  const confirmation = await ask("Repeat the PIN: ")
+  prompt.close()
+
+  const result = pinBody.safeParse({ pin: pin.trim() })
+  if (!result.success) {
+    throw new Error(describeFieldErrors(toFieldErrors(result.error)))
+  }
+  if (confirmation.trim() !== result.data.pin) {
+    throw new Error("The PINs don't match")
+  }
+
+  await replacePin(result.data.pin)
+  console.log("✅ PIN set. Every device has to sign in again.")
+  await closeStorage()
+}
+
+main().catch(async (error) => {
+  console.error("❌ Setting the PIN failed:", error instanceof Error ? error.message : error)
+  await closeStorage()
+  process.exit(1)
+})
@@ -3,23 +3,25 @@
  * Run with: npx tsx src/scripts/test-openai.ts
  */
 
+import "./load-config"
 import { generateText } from 'ai'
-import { openai } from '@ai-sdk/openai'
-import 'dotenv/config'
+import { createOpenAI } from '@ai-sdk/openai'
+import { getConfig } from "../server/api/config"
 
 async function main() {
   console.log("Testing OpenAI integration...")
   
   try {
-    console.log("OPENAI_API_KEY configured:", process.env.OPENAI_API_KEY ? "Yes" : "No")
+    const apiKey = getConfig().openaiApiKey
+    console.log("OPENAI_API_KEY configured:", apiKey ? "Yes" : "No")
     
-    if (!process.env.OPENAI_API_KEY) {
+    if (!apiKey) {
       throw new Error("OPENAI_API_KEY environment variable is not set. Please create a .env file with your API key.")
     }
     
     // Simple test to see if the API works
     const response = await generateText({
-      model: openai("gpt-3.5-turbo"),
+      model: createOpenAI({ apiKey })("gpt-3.5-turbo"),
       prompt: "Generate a feeding schedule for a 3-month-old baby",
       maxTokens: 100
     })
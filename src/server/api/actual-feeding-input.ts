@@ -0,0 +1,143 @@
+import { z } from "zod"
+import type { ActualFeeding } from "./feedings"
+import { parseFeedingMoment } from "./feeding-time"
+import { getConfig } from "./config"
+import { parseLegacyVolume, upgradeActualFeeding } from "./legacy-feedings"
+import { isoInstant, toFieldErrors, volumeUnitSchema, type FieldError } from "./schemas"
+
+type ActualFeedingFields = Omit<ActualFeeding, "id" | "version">
+
+const toIsoString = (value: string) => new Date(value).toISOString()
+
+const canonicalFields = {
+  occurredAt: isoInstant.transform(toIsoString),
+  plannedFor: isoInstant.transform(toIsoString),
+  volumeMl: z
+    .number({ invalid_type_error: "must be a positive number" })
+    .positive("must be a positive number"),
+  sourceUnit: volumeUnitSchema,
+  notes: z.string({ invalid_type_error: "must be text" })
+}
+
+// A new actual feeding in the canonical fields, also shown in the OpenAPI document
+export const actualFeedingInput = z.object({
+  ...canonicalFields,
+  plannedFor: canonicalFields.plannedFor.nullish(),
+  sourceUnit: canonicalFields.sourceUnit.default("ml"),
+  notes: canonicalFields.notes.nullish()
+})
+
+const legacyActualFeedingInput = z
+  .object({
+    date: z.string().min(1, "is required"),
+    time: z.string().optional(),
+    actualTime: z.string().optional()
+  })
+  .passthrough()
+  .superRefine((body, context) => {
+    if (!body.time && !body.actualTime) {
+      context.addIssue({ code: "custom", path: ["time"], message: "time or actualTime is required" })
+    }
+    if (body.amount === undefined && body.Amount === undefined) {
+      context.addIssue({ code: "custom", path: ["amount"], message: "is required" })
+    }
+  })
+
+// Changes in the canonical fields, also shown in the OpenAPI document. Notes
+// sent as null are cleared.
+export const actualFeedingChanges = z
+  .object({
+    ...canonicalFields,
+    notes: canonicalFields.notes.nullable().transform((notes) => notes ?? undefined)
+  })
+  .partial()
+
+/**
+ * Reads a new actual feeding from a request body. Accepts the canonical fields
+ * (occurredAt, plannedFor, volumeMl, sourceUnit) or, for older clients, the
+ * legacy date/time/amount fields.
+ * @returns The feeding fields, or the problems with each field
+ */
+export function readActualFeedingInput(body: any): { feeding: ActualFeedingFields } | { errors: FieldError[] } {
+  if (body?.occurredAt === undefined && body?.volumeMl === undefined) {
+    return readLegacyActualFeedingInput(body || {})
+  }
+
+  const result = actualFeedingInput.safeParse(body)
+  if (!result.success) {
+    return { errors: toFieldErrors(result.error) }
+  }
+
+  const { occurredAt, plannedFor, volumeMl, sourceUnit, notes } = result.data
+  return {
+    feeding: {
+      occurredAt,
+      ...(plannedFor && { plannedFor }),
+      volumeMl,
+      sourceUnit,
+      ...(notes && { notes })
+    }
+  }
+}
+
+function readLegacyActualFeedingInput(body: any): { feeding: ActualFeedingFields } | { errors: FieldError[] } {
+  const result = legacyActualFeedingInput.safeParse(body)
+  if (!result.success) {
+    return { errors: toFieldErrors(result.error) }
+  }
+
+  const feeding = upgradeActualFeeding({ ...result.data, id: "" })
+  if (!feeding) {
+    return { errors: [{ field: "date", message: "date, time and amount must be readable" }] }
+  }
+
+  const { id, version, ...fields } = feeding
+  return { feeding: fields }
+}
+
+/**
+ * Reads changes to an actual feeding from a request body. Canonical fields are
+ * taken as given; legacy fields are converted (amount in ounces, and date and
+ * time, which must be sent together).
+ * @returns The changed fields, or the problems with each field
+ */
+export function readActualFeedingChanges(body: any): { changes: Partial<ActualFeedingFields> } | { errors: FieldError[] } {
+  const result = actualFeedingChanges.safeParse(body || {})
+  if (!result.success) {
+    return { errors: toFieldErrors(result.error) }
+  }
+
+  const changes: Partial<ActualFeedingFields> = { ...result.data }
+
+  // Legacy fields
+  const { date, time, actualTime, planTime, amount, Amount } = body || {}
+  if (amount !== undefined || Amount !== undefined) {
+    const volume = parseLegacyVolume(amount, Amount)
+    if (!volume) {
+      return { errors: [{ field: "amount", message: "must be a positive number" }] }
+    }
+    Object.assign(changes, volume)
+  }
+  if (date !== undefined || time !== undefined || actualTime !== undefined || planTime !== undefined) {
+    if (!date || (!time && !actualTime && !planTime)) {
+      return { errors: [{ field: "date", message: "date and time must be changed together" }] }
+    }
+
+    if (time || actualTime) {
+      const moment = parseFeedingMoment(date, actualTime || time, getConfig().timeZone)
+      if (moment === null) {
+        return { errors: [{ field: "time", message: "date and time must be readable" }] }
+      }
+      changes.occurredAt = new Date(moment).toISOString()
+    }
+    if (planTime) {
+      const moment = parseFeedingMoment(date, planTime, getConfig().timeZone)
+      if (moment === null) {
+        return { errors: [{ field: "planTime", message: "date and planTime must be readable" }] }
+      }
+      changes.plannedFor = new Date(moment).toISOString()
+    }
+  }
+
+  return { changes }
+}
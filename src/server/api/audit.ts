@@ -0,0 +1,191 @@
+import { nanoid } from "nanoid"
+import { getStorage } from "./storage"
+import { CompletedAgainError, restoreCompletion } from "./completions"
+import type { ActualFeeding } from "./feedings"
+import type { FeedingSettings } from "./settings"
+import { logger } from "./logger"
+
+const log = logger.child({ module: "audit" })
+
+// Each child has an append-only audit log of the changes made to their
+// feedings and settings. Entries hold the whole record before and after the
+// change, so any earlier version can be restored; a restore is itself logged.
+
+// Kinds of records whose changes are logged. Completions of planned feedings
+// have been actual feedings since schema version 5; "completedFeeding" entries
+// are from before then.
+export type AuditEntity = "actualFeeding" | "completedFeeding" | "settings"
+
+export type AuditAction = "create" | "update" | "remove" | "restore"
+
+// Who made a change: the signed-in member (see ./auth), or SYSTEM_ACTOR
+export interface Actor {
+  id: string
+  name: string
+}
+
+// Actor for changes not made on behalf of a signed-in member, e.g. by scripts
+export const SYSTEM_ACTOR: Actor = { id: "system", name: "system" }
+
+// Entity id used for a child's settings, which are a single document
+export const SETTINGS_ENTITY_ID = "settings"
+
+export interface AuditEntry {
+  id: string
+  // When the change was made (ISO instant)
+  at: string
+  // Who made the change: the member's name, or "system"
+  actor: string
+  // The member's id, see ./auth. Entries from before sessions named their
+  // member have a device name the client made up as the actor, and no id.
+  actorId?: string
+  entity: AuditEntity
+  entityId: string
+  action: AuditAction
+  // The record before and after the change; null when it didn't exist
+  before: unknown
+  after: unknown
+  // Entries are never changed; always 1
+  version?: number
+}
+
+/**
+ * Appends an entry to a child's audit log. A failure is logged but not thrown,
+ * because the change it describes has already been saved.
+ */
+export async function recordAudit(
+  childId: string,
+  { actor, ...change }: Omit<AuditEntry, "id" | "at" | "version" | "actor" | "actorId"> & { actor: Actor }
+) {
+  try {
+    await getStorage()
+      .forChild(childId)
+      .auditLog.upsert({
+        ...change,
+        actor: actor.name,
+        actorId: actor.id,
+        id: nanoid(),
+        at: new Date().toISOString(),
+        version: 1
+      })
+  } catch (error) {
+    log.error("Error recording audit entry", { error, childId, entity: change.entity, entityId: change.entityId, action: change.action })
+  }
+}
+
+/**
+ * Gets a child's audit log, newest first
+ * @param filter Only return entries about this kind of record, or this record
+ */
+export async function getAuditLog(childId: string, filter: { entity?: AuditEntity; entityId?: string } = {}) {
+  try {
+    const entries = await getStorage().forChild(childId).auditLog.list()
+    return entries
+      .filter((entry) => (!filter.entity || entry.entity === filter.entity) &&
+        (!filter.entityId || entry.entityId === filter.entityId))
+      .reverse()
+  } catch (error) {
+    log.error("Error getting audit log", { error })
+    throw error
+  }
+}
+
+/**
+ * Thrown when an audit entry is about a kind of record that can't be restored
+ */
+export class UnrestorableEntryError extends Error {
+  constructor(readonly entity: AuditEntity) {
+    super(`${entity} records can't be restored`)
+    this.name = "UnrestorableEntryError"
+  }
+}
+
+async function restoreActualFeeding(
+  childId: string,
+  entry: AuditEntry,
+  actor: Actor,
+  expectedVersion?: number
+) {
+  const storage = getStorage().forChild(childId)
+  const { id, version, ...fields } = (entry.after ?? entry.before) as ActualFeeding
+  const current = await storage.actualFeedings.get(id)
+
+  let restored: ActualFeeding | null
+  if (current) {
+    // Optional fields the snapshot doesn't have are cleared
+    restored = await storage.actualFeedings.patch(
+      id,
+      { plannedFor: undefined, notes: undefined, pairId: undefined, ...fields },
+      expectedVersion ?? current.version
+    )
+  } else {
+    // A removed feeding comes back with a version above any it had before
+    const history = await getAuditLog(childId, { entity: "actualFeeding", entityId: id })
+    const lastVersion = Math.max(
+      0,
+      ...history.flatMap((each) => [each.before, each.after]).map((value) => (value as ActualFeeding | null)?.version ?? 0)
+    )
+    const putBack: ActualFeeding = { ...fields, id, version: lastVersion + 1 }
+    await restoreCompletion(storage, putBack, () => storage.actualFeedings.upsert(putBack))
+    await storage.trash.remove(id)
+    restored = putBack
+  }
+
+  await recordAudit(childId, {
+    actor,
+    entity: "actualFeeding",
+    entityId: id,
+    action: "restore",
+    before: current,
+    after: restored
+  })
+  return restored
+}
+
+async function restoreSettings(childId: string, entry: AuditEntry, actor: Actor) {
+  const storage = getStorage().forChild(childId)
+  const settings = (entry.after ?? entry.before) as FeedingSettings
+  const current = await storage.settings.get()
+
+  await storage.settings.save(settings)
+  await recordAudit(childId, {
+    actor,
+    entity: "settings",
+    entityId: SETTINGS_ENTITY_ID,
+    action: "restore",
+    before: current,
+    after: settings
+  })
+  return settings
+}
+
+/**
+ * Puts a record back the way an audit entry left it: the value after the
+ * change, or for a removal the value before it
+ * @param expectedVersion Version of the feeding the caller saw; a newer stored version throws a ConflictError
+ * @returns The restored feeding or settings, or null if there is no such entry
+ * @throws UnrestorableEntryError if the entry is about a completed feeding from before schema version 5
+ * @throws CompletedAgainError if a removed completion's planned feeding has been completed again since
+ */
+export async function restoreFromAudit(childId: string, entryId: string, actor: Actor, expectedVersion?: number) {
+  try {
+    const entry = await getStorage().forChild(childId).auditLog.get(entryId)
+    if (!entry) {
+      return null
+    }
+
+    switch (entry.entity) {
+      case "actualFeeding":
+        return { entity: entry.entity, actualFeeding: await restoreActualFeeding(childId, entry, actor, expectedVersion) }
+      case "settings":
+        return { entity: entry.entity, settings: await restoreSettings(childId, entry, actor) }
+      default:
+        throw new UnrestorableEntryError(entry.entity)
+    }
+  } catch (error) {
+    if (!(error instanceof UnrestorableEntryError) && !(error instanceof CompletedAgainError)) {
+      log.error("Error restoring from audit log", { error })
+    }
+    throw error
+  }
+}
@@ -0,0 +1,413 @@
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto"
+import { promisify } from "util"
+import type { Request, Response } from "express"
+import { nanoid } from "nanoid"
+import { getStorage } from "./storage"
+import { checkStoredDocument, householdSchema } from "./schemas"
+import { getConfig } from "./config"
+import type { Role } from "./contract"
+
+// The household signs in with numeric PINs. The PIN chosen first is the
+// owner's, set with the SETUP_TOKEN from the server's configuration or with
+// src/scripts/set-pin.ts; the owner can hand out more PINs to caregivers and
+// viewers, see Role. A correct PIN gets a session cookie naming its member, signed with the
+// household's session secret; the API checks the signature and expiry on every
+// request and looks the member's role up, so sessions need no storage of their
+// own and removing a member signs them out. Setting a new owner PIN replaces
+// the secret, which signs every device out.
+
+// The household's credentials, stored under STORAGE_KEYS.HOUSEHOLD
+export interface Household {
+  // scrypt hash of the owner's PIN, hex
+  pinHash: string
+  pinSalt: string
+  sessionSecret: string
+  // Recent wrong PINs by client, see clientKey. Reaching MAX_PIN_ATTEMPTS
+  // locks sign-in for that client only, so nobody can lock the household out.
+  failedSignIns?: Record<string, FailedSignIns>
+  // Everyone the owner handed a PIN to
+  members?: HouseholdMember[]
+}
+
+// Someone other than the owner with their own PIN
+export interface HouseholdMember {
+  id: string
+  // e.g. "Grandma", shown in the owner's list of PINs
+  name: string
+  role: Exclude<Role, "owner">
+  pinHash: string
+  pinSalt: string
+  createdAt: string
+}
+
+// Wrong PINs from one client since it last signed in
+export interface FailedSignIns {
+  count: number
+  // When the last one was (ISO instant); the count is forgotten LOCKOUT_MS later
+  lastAt: string
+  // Sign-in from this client is refused until then (ISO instant)
+  lockedUntil?: string
+}
+
+// Who a session belongs to
+export interface Session {
+  memberId: string
+  name: string
+  role: Role
+}
+
+// The owner's session names this member id
+export const OWNER_ID = "owner"
+
+const OWNER_SESSION: Session = { memberId: OWNER_ID, name: "Owner", role: "owner" }
+
+export const SESSION_COOKIE = "bottle_planner_session"
+
+const SESSION_DAYS = 30
+const SESSION_MS = SESSION_DAYS * 24 * 60 * 60 * 1000
+
+const MAX_PIN_ATTEMPTS = 5
+const LOCKOUT_MS = 15 * 60 * 1000
+
+// Clients whose wrong PINs are remembered at once, the most recent kept
+const MAX_TRACKED_CLIENTS = 1000
+
+const hashPin = promisify(scrypt) as (pin: string, salt: string, length: number) => Promise<Buffer>
+
+/**
+ * Thrown when setting up a PIN for a household that already has one
+ */
+export class PinAlreadySetError extends Error {
+  constructor() {
+    super("A PIN has already been set for this household")
+    this.name = "PinAlreadySetError"
+  }
+}
+
+/**
+ * Thrown when the first PIN is set without the SETUP_TOKEN, or on a server
+ * that has none configured
+ */
+export class SetupNotAllowedError extends Error {
+  constructor(readonly configured: boolean) {
+    super(
+      configured
+        ? "Wrong setup code"
+        : "Setting the first PIN here isn't enabled; set SETUP_TOKEN on the server or run src/scripts/set-pin.ts"
+    )
+    this.name = "SetupNotAllowedError"
+  }
+}
+
+/**
+ * Thrown when a new member's PIN is already someone else's, since sign-in
+ * tells members apart by their PIN
+ */
+export class PinInUseError extends Error {
+  constructor() {
+    super("That PIN is already in use; choose another")
+    this.name = "PinInUseError"
+  }
+}
+
+/**
+ * Thrown when sign-in is locked after too many wrong PINs
+ */
+export class SignInLockedError extends Error {
+  constructor(readonly lockedUntil: string) {
+    const minutes = Math.max(Math.ceil((Date.parse(lockedUntil) - Date.now()) / 60000), 1)
+    super(`Too many wrong PINs; try again in ${minutes} minute${minutes > 1 ? "s" : ""}`)
+    this.name = "SignInLockedError"
+  }
+}
+
+async function getHousehold() {
+  const household = await getStorage().household.get()
+  return household && checkStoredDocument("household", household, householdSchema)
+}
+
+async function createPinHash(pin: string) {
+  const pinSalt = randomBytes(16).toString("hex")
+  return { pinHash: (await hashPin(pin, pinSalt, 32)).toString("hex"), pinSalt }
+}
+
+async function createHousehold(pin: string): Promise<Household> {
+  return {
+    ...(await createPinHash(pin)),
+    sessionSecret: randomBytes(32).toString("hex")
+  }
+}
+
+async function matchesPin(pin: string, hashed: { pinHash: string; pinSalt: string }) {
+  const pinHash = await hashPin(pin, hashed.pinSalt, 32)
+  return timingSafeEqual(pinHash, Buffer.from(hashed.pinHash, "hex"))
+}
+
+// The member whose PIN this is, if any
+async function findMemberByPin(household: Household, pin: string): Promise<Session | null> {
+  if (await matchesPin(pin, household)) {
+    return OWNER_SESSION
+  }
+  for (const member of household.members ?? []) {
+    if (await matchesPin(pin, member)) {
+      return { memberId: member.id, name: member.name, role: member.role }
+    }
+  }
+  return null
+}
+
+/**
+ * Whether the household has chosen a PIN yet
+ */
+export async function isPinSet() {
+  return (await getHousehold()) !== null
+}
+
+/**
+ * Sets the household's first PIN
+ * @param setupToken Has to be the configured SETUP_TOKEN, so a stranger who
+ * finds the server before the household does can't make themselves owner
+ * @returns A session token for the device that set it
+ * @throws SetupNotAllowedError if the token is wrong or none is configured
+ * @throws PinAlreadySetError if the household already has a PIN
+ */
+export async function setUpPin(pin: string, setupToken: string) {
+  const expected = getConfig().setupToken
+  if (!expected) {
+    throw new SetupNotAllowedError(false)
+  }
+  if (!matchesSecret(setupToken, expected)) {
+    throw new SetupNotAllowedError(true)
+  }
+
+  const created = await createHousehold(pin)
+  const household = await getStorage().household.update((current) => {
+    if (current) {
+      throw new PinAlreadySetError()
+    }
+    return created
+  })
+  return createSessionToken(household, OWNER_ID)
+}
+
+/**
+ * Sets a new owner PIN whether or not one was set, signing every device out.
+ * The other members keep their PINs. For scripts run by whoever runs the
+ * server, e.g. after the PIN was forgotten.
+ */
+export async function replacePin(pin: string) {
+  const created = await createHousehold(pin)
+  await getStorage().household.update((current) => ({ ...created, members: current?.members }))
+}
+
+/**
+ * Lists the members the owner handed PINs to, without their PINs
+ */
+export async function listMembers() {
+  const household = await getHousehold()
+  return (household?.members ?? []).map(({ id, name, role, createdAt }) => ({ id, name, role, createdAt }))
+}
+
+/**
+ * Hands out a PIN to someone else in the household. The PIN is checked
+ * against everyone's and the member saved in one update, so two members
+ * added at once can't get the same PIN.
+ * @throws PinInUseError if the PIN is the owner's or another member's
+ */
+export async function addMember(name: string, role: HouseholdMember["role"], pin: string) {
+  const member: HouseholdMember = { id: nanoid(), name, role, ...(await createPinHash(pin)), createdAt: new Date().toISOString() }
+
+  // The PIN hashed with each salt in use, worked out before the update since
+  // hashing is asynchronous. A member added meanwhile brings a salt that isn't
+  // here yet, and the update is tried again once it is.
+  const hashes = new Map<string, string>()
+  for (;;) {
+    const household = await getHousehold()
+    if (!household) {
+      throw new Error("No PIN has been set for this household")
+    }
+    for (const { pinSalt } of [household, ...(household.members ?? [])]) {
+      if (!hashes.has(pinSalt)) {
+        hashes.set(pinSalt, (await hashPin(pin, pinSalt, 32)).toString("hex"))
+      }
+    }
+
+    let added = false
+    await getStorage().household.update((current) => {
+      if (!current) {
+        throw new Error("No PIN has been set for this household")
+      }
+      const credentials = [current, ...(current.members ?? [])]
+      if (credentials.some(({ pinSalt }) => !hashes.has(pinSalt))) {
+        return current
+      }
+      if (credentials.some(({ pinHash, pinSalt }) => hashes.get(pinSalt) === pinHash)) {
+        throw new PinInUseError()
+      }
+      added = true
+      return { ...current, members: [...(current.members ?? []), member] }
+    })
+    if (added) {
+      return { id: member.id, name, role, createdAt: member.createdAt }
+    }
+  }
+}
+
+/**
+ * Takes a member's PIN away, signing them out everywhere
+ * @returns Whether there was such a member
+ */
+export async function removeMember(id: string) {
+  let found = false
+  await getStorage().household.update((current) => {
+    const members = current?.members ?? []
+    found = members.some((member) => member.id === id)
+    return { ...current!, members: members.filter((member) => member.id !== id) }
+  })
+  return found
+}
+
+/**
+ * Names the client a sign-in comes from without storing its address
+ */
+function clientKey(address: string) {
+  return createHash("sha256").update(address).digest("hex").slice(0, 16)
+}
+
+// The wrong PINs still worth remembering: the recent ones and current
+// lockouts, for at most MAX_TRACKED_CLIENTS clients
+function recentFailures(failures: Household["failedSignIns"], now: number) {
+  const recent = Object.entries(failures ?? {})
+    .filter(
+      ([, { lastAt, lockedUntil }]) =>
+        Date.parse(lastAt) + LOCKOUT_MS > now || (!!lockedUntil && Date.parse(lockedUntil) > now)
+    )
+    .sort(([, a], [, b]) => Date.parse(b.lastAt) - Date.parse(a.lastAt))
+    .slice(0, MAX_TRACKED_CLIENTS)
+  return Object.fromEntries(recent)
+}
+
+/**
+ * Checks a PIN. Each attempt is counted before the PIN is checked, so
+ * guesses sent in parallel can't get past the limit. Attempts are counted per
+ * client, so wrong PINs from one place don't lock anyone else out.
+ * @param address Where the attempt came from, e.g. the request's IP address
+ * @returns A session token, or how many more wrong PINs are allowed
+ * @throws SignInLockedError after MAX_PIN_ATTEMPTS wrong PINs in a row from
+ * the client
+ */
+export async function signIn(pin: string, address: string): Promise<{ token: string } | { attemptsLeft: number }> {
+  const storage = getStorage()
+  const now = Date.now()
+  const client = clientKey(address)
+
+  const household = await storage.household.update((stored) => {
+    if (!stored) {
+      throw new Error("No PIN has been set for this household")
+    }
+    const current = checkStoredDocument("household", stored, householdSchema)
+    const failedSignIns = recentFailures(current.failedSignIns, now)
+    const previous = failedSignIns[client]
+    if (previous?.lockedUntil && Date.parse(previous.lockedUntil) > now) {
+      throw new SignInLockedError(previous.lockedUntil)
+    }
+    // A passed lockout has been forgotten, so the count starts again
+    const count = (previous?.count ?? 0) + 1
+    failedSignIns[client] = {
+      count,
+      lastAt: new Date(now).toISOString(),
+      ...(count >= MAX_PIN_ATTEMPTS && { lockedUntil: new Date(now + LOCKOUT_MS).toISOString() })
+    }
+    return { ...current, failedSignIns }
+  })
+
+  const session = await findMemberByPin(household, pin)
+  if (!session) {
+    return { attemptsLeft: MAX_PIN_ATTEMPTS - household.failedSignIns![client].count }
+  }
+
+  await storage.household.update((current) => ({
+    ...current!,
+    failedSignIns: Object.fromEntries(Object.entries(current!.failedSignIns ?? {}).filter(([key]) => key !== client))
+  }))
+  return { token: createSessionToken(household, session.memberId) }
+}
+
+const sign = (secret: string, payload: string) => createHmac("sha256", secret).update(payload).digest("base64url")
+
+// A token is "<expiry in ms>.<member id>.<random nonce>.<signature>"
+function createSessionToken(household: Household, memberId: string) {
+  const payload = `${Date.now() + SESSION_MS}.${memberId}.${randomBytes(9).toString("base64url")}`
+  return `${payload}.${sign(household.sessionSecret, payload)}`
+}
+
+/**
+ * Checks a session token's signature and expiry, and looks up its member
+ * @returns Who the session belongs to, or null if it isn't valid or the
+ * member has been removed
+ */
+export async function getSession(token: string | undefined): Promise<Session | null> {
+  const [expiresAt, memberId, nonce, signature] = token?.split(".") ?? []
+  if (!signature || Number(expiresAt) < Date.now()) {
+    return null
+  }
+
+  const household = await getHousehold()
+  if (!household) {
+    return null
+  }
+  const expected = Buffer.from(sign(household.sessionSecret, `${expiresAt}.${memberId}.${nonce}`))
+  const given = Buffer.from(signature)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return null
+  }
+
+  if (memberId === OWNER_ID) {
+    return OWNER_SESSION
+  }
+  const member = household.members?.find((candidate) => candidate.id === memberId)
+  return member ? { memberId, name: member.name, role: member.role } : null
+}
+
+/**
+ * Reads the session token from the request's cookies
+ */
+export function readSessionCookie(req: Request) {
+  for (const cookie of req.get("Cookie")?.split(";") ?? []) {
+    const [name, ...value] = cookie.trim().split("=")
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join("="))
+    }
+  }
+  return undefined
+}
+
+export function setSessionCookie(res: Response, token: string) {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    // Browsers on http://localhost would drop a Secure cookie
+    secure: getConfig().production,
+    maxAge: SESSION_MS,
+    path: "/"
+  })
+}
+
+export function clearSessionCookie(res: Response) {
+  res.clearCookie(SESSION_COOKIE, { path: "/" })
+}
+
+// Compares secrets in constant time
+function matchesSecret(given: string, expected: string) {
+  const givenBytes = Buffer.from(given)
+  const expectedBytes = Buffer.from(expected)
+  return givenBytes.length === expectedBytes.length && timingSafeEqual(givenBytes, expectedBytes)
+}
+
+/**
+ * Whether an Authorization header carries the given bearer token, for
+ * machines that can't sign in with a PIN, e.g. a scraper sending METRICS_TOKEN
+ */
+export function matchesBearerToken(header: string | undefined, token: string) {
+  return matchesSecret(header?.match(/^Bearer (.+)$/i)?.[1] ?? "", token)
+}
@@ -0,0 +1,350 @@
+/**
+ * Backup and restore of all planner data
+ *
+ * A backup is a JSON archive of the household's data read through the storage
+ * layer, so it can be restored into any backend (Redis, memory or file). Each
+ * section carries a SHA-256 checksum, and the archive records the schema
+ * version it was taken at. Archives from an older schema are restored as they
+ * are and then brought up to date by the pending migrations; archives from a
+ * newer one are refused.
+ *
+ * Run by hand with: npx tsx src/scripts/backup.ts
+ */
+
+import { createHash } from "crypto"
+import { z } from "zod"
+import { clearChildData, getChildStorageKeys, getStorage, type Storage } from "./storage"
+import { createDryRunStorage } from "./migrations/dry-run-storage"
+import { getSchemaVersion, LATEST_SCHEMA_VERSION, runMigrations } from "./migrations"
+import type { AuditEntry } from "./audit"
+import type { TrashedFeeding } from "./trash"
+import type { Child } from "./children"
+import type { ActualFeeding, PlannedFeeding } from "./feedings"
+import type { FeedingRecommendation, NewbornProfile } from "./recommendations"
+import type { FeedingSettings } from "./settings"
+import {
+  actualFeedingSchema,
+  childSchema,
+  describeFieldErrors,
+  feedingSettingsSchema,
+  newbornProfileSchema,
+  plannedFeedingSchema,
+  toFieldErrors,
+  trashedFeedingSchema
+} from "./schemas"
+import { logger } from "./logger"
+
+const log = logger.child({ module: "backup" })
+
+export const BACKUP_FORMAT = "bottle-planner-backup"
+
+// Bump when the archive layout changes, and keep reading the older layouts
+export const BACKUP_FORMAT_VERSION = 1
+
+// Everything stored for one child
+export interface ChildBackup {
+  child: Child
+  profile: NewbornProfile | null
+  settings: FeedingSettings | null
+  plannedFeedings: PlannedFeeding[]
+  actualFeedings: ActualFeeding[]
+  // Missing from archives taken before the audit log and trash existed
+  auditLog?: AuditEntry[]
+  trash?: TrashedFeeding[]
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT
+  formatVersion: number
+  createdAt: string
+  // Schema version of the data when it was exported
+  schemaVersion: number
+  recommendations: FeedingRecommendation[]
+  children: ChildBackup[]
+  // SHA-256 of each section, keyed "recommendations" or "children.<id>"
+  checksums: Record<string, string>
+}
+
+export interface RestoreOptions {
+  // Add the archive's data to the stored data instead of replacing it
+  merge?: boolean
+  // Log the writes a restore would make instead of making them
+  dryRun?: boolean
+  log?: (message: string) => void
+}
+
+// Counts of what a restore wrote
+export interface RestoreSummary {
+  children: number
+  plannedFeedings: number
+  actualFeedings: number
+  recommendations: number
+}
+
+/**
+ * Thrown when an archive can't be restored, with every problem that was found
+ */
+export class InvalidBackupError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid backup archive: ${problems.join("; ")}`)
+    this.name = "InvalidBackupError"
+  }
+}
+
+function checksum(value: unknown) {
+  return createHash("sha256").update(JSON.stringify(value)).digest("hex")
+}
+
+function computeChecksums(recommendations: FeedingRecommendation[], children: ChildBackup[]) {
+  const checksums: Record<string, string> = { recommendations: checksum(recommendations) }
+  for (const backup of children) {
+    checksums[`children.${backup.child.id}`] = checksum(backup)
+  }
+  return checksums
+}
+
+/**
+ * Exports every child's profile, settings, feedings, audit log and trash, and
+ * the shared recommendations
+ */
+export async function createBackup(): Promise<BackupArchive> {
+  try {
+    const storage = getStorage()
+    const recommendations = await storage.recommendations.list()
+    const children: ChildBackup[] = []
+
+    for (const child of await storage.children.list()) {
+      const childStorage = storage.forChild(child.id)
+      children.push({
+        child,
+        profile: await childStorage.profile.get(),
+        settings: await childStorage.settings.get(),
+        plannedFeedings: await childStorage.plannedFeedings.list(),
+        actualFeedings: await childStorage.actualFeedings.list(),
+        auditLog: await childStorage.auditLog.list(),
+        trash: await childStorage.trash.list()
+      })
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      schemaVersion: await getSchemaVersion(),
+      recommendations,
+      children,
+      checksums: computeChecksums(recommendations, children)
+    }
+  } catch (error) {
+    log.error("Error creating backup", { error })
+    throw error
+  }
+}
+
+// An archive's layout, checked before its checksums. Sections are checked with
+// the same schemas as stored records.
+const archiveHeaderSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  formatVersion: z.number(),
+  schemaVersion: z.number(),
+  recommendations: z.array(z.unknown()),
+  children: z.array(z.unknown()),
+  checksums: z.record(z.string()).optional()
+})
+
+const childBackupSchema = z.object({
+  child: childSchema,
+  profile: newbornProfileSchema.nullable(),
+  settings: feedingSettingsSchema.nullable(),
+  plannedFeedings: z.array(plannedFeedingSchema),
+  actualFeedings: z.array(actualFeedingSchema),
+  auditLog: z.array(z.object({ id: z.string().min(1) }).passthrough()).optional(),
+  trash: z.array(trashedFeedingSchema).optional()
+})
+
+/**
+ * Checks an archive's layout, version, records and checksums
+ * @returns Every problem found; empty if the archive can be restored
+ */
+export function validateBackup(archive: unknown): string[] {
+  if (!z.object({ format: z.literal(BACKUP_FORMAT) }).safeParse(archive).success) {
+    return [`not a ${BACKUP_FORMAT} archive`]
+  }
+  const header = archiveHeaderSchema.safeParse(archive)
+  if (!header.success) {
+    return [`archive layout is invalid: ${describeFieldErrors(toFieldErrors(header.error))}`]
+  }
+  const { formatVersion, schemaVersion, recommendations, children, checksums = {} } = header.data
+  if (formatVersion !== BACKUP_FORMAT_VERSION) {
+    return [`archive format version ${formatVersion} is not supported (expected ${BACKUP_FORMAT_VERSION})`]
+  }
+  if (schemaVersion > LATEST_SCHEMA_VERSION) {
+    return [`archive was taken at schema version ${schemaVersion}, but this build only knows up to ${LATEST_SCHEMA_VERSION}`]
+  }
+
+  const problems: string[] = []
+  if (checksums.recommendations !== checksum(recommendations)) {
+    problems.push("recommendations checksum doesn't match")
+  }
+
+  const ids = new Set<string>()
+  children.forEach((backup, index) => {
+    const result = childBackupSchema.safeParse(backup)
+    if (!result.success) {
+      problems.push(`child ${index + 1} is invalid: ${describeFieldErrors(toFieldErrors(result.error))}`)
+      return
+    }
+    const { id } = result.data.child
+    if (ids.has(id)) {
+      problems.push(`child ${id} appears more than once`)
+    }
+    ids.add(id)
+    // Checksums are of the archive as written, not as parsed
+    if (checksums[`children.${id}`] !== checksum(backup)) {
+      problems.push(`checksum of child ${id} doesn't match`)
+    }
+  })
+
+  if (children.length === 0) {
+    problems.push("archive has no children")
+  }
+  return problems
+}
+
+// Keeps every record of both lists; for ids in both, the higher version wins
+// and the stored record wins a tie
+function mergeRecords<T extends { id: string; version?: number }>(stored: T[], restored: T[]) {
+  const byId = new Map(stored.map((item) => [item.id, item]))
+  for (const item of restored) {
+    const current = byId.get(item.id)
+    if (!current || (item.version ?? 0) > (current.version ?? 0)) {
+      byId.set(item.id, item)
+    }
+  }
+  return [...byId.values()]
+}
+
+async function restoreChild(storage: Storage, backup: ChildBackup, merge: boolean) {
+  const childStorage = storage.forChild(backup.child.id)
+
+  if (merge) {
+    await childStorage.plannedFeedings.update((stored) => mergeRecords(stored, backup.plannedFeedings))
+    await childStorage.actualFeedings.update((stored) => mergeRecords(stored, backup.actualFeedings))
+    await childStorage.auditLog.update((stored) => mergeRecords(stored, backup.auditLog || []))
+    await childStorage.trash.update((stored) => mergeRecords(stored, backup.trash || []))
+    // Profile and settings are only filled in where missing
+    if (backup.profile && !(await childStorage.profile.get())) {
+      await childStorage.profile.save(backup.profile)
+    }
+    if (backup.settings && !(await childStorage.settings.get())) {
+      await childStorage.settings.save(backup.settings)
+    }
+    return
+  }
+
+  // Each list and document is replaced on its own, so whatever a restore
+  // that fails partway hasn't reached yet is left as it was
+  const keys = getChildStorageKeys(backup.child.id)
+  await childStorage.plannedFeedings.replaceAll(backup.plannedFeedings)
+  await childStorage.actualFeedings.replaceAll(backup.actualFeedings)
+  await childStorage.completedFeedings.replaceAll([])
+  await childStorage.auditLog.replaceAll(backup.auditLog || [])
+  await childStorage.trash.replaceAll(backup.trash || [])
+  if (backup.profile) {
+    await childStorage.profile.save(backup.profile)
+  } else {
+    await storage.documents.remove(keys.PROFILE)
+  }
+  if (backup.settings) {
+    await childStorage.settings.save(backup.settings)
+  } else {
+    await storage.documents.remove(keys.SETTINGS)
+  }
+}
+
+// Brings the data restored from an archive taken at an older schema version
+// up to date. Migration steps are safe to run against data partly in the new
+// shape, which is what a merge leaves.
+async function migrateRestored(archive: BackupArchive, dryRun: boolean, log: (message: string) => void) {
+  if (archive.schemaVersion >= LATEST_SCHEMA_VERSION) {
+    return
+  }
+  if (dryRun) {
+    log(`Would migrate the restored data from schema version ${archive.schemaVersion} to ${LATEST_SCHEMA_VERSION}`)
+    return
+  }
+  log(`Migrating the restored data from schema version ${archive.schemaVersion} to ${LATEST_SCHEMA_VERSION}`)
+  await runMigrations({ from: archive.schemaVersion, log })
+}
+
+/**
+ * Imports an archive made by createBackup. By default the stored data is
+ * replaced: each child in the archive has its data overwritten, and only once
+ * all of them are restored is the list of children swapped and the data of
+ * children that aren't in the archive removed. A restore that fails partway
+ * therefore leaves the stored children in place. With merge, children and
+ * records missing from the stored data are added, records in both keep the
+ * higher version, and stored profiles, settings and recommendations are kept.
+ * Either way, an archive from an older schema version is migrated once it is in.
+ * @throws InvalidBackupError if the archive fails validation; nothing is written
+ */
+export async function restoreBackup(archive: BackupArchive, options: RestoreOptions = {}): Promise<RestoreSummary> {
+  const { merge = false, dryRun = false, log = console.log } = options
+
+  const problems = validateBackup(archive)
+  if (problems.length > 0) {
+    throw new InvalidBackupError(problems)
+  }
+
+  const realStorage = getStorage()
+  const schemaVersion = await getSchemaVersion()
+  if (schemaVersion !== LATEST_SCHEMA_VERSION) {
+    throw new InvalidBackupError([
+      `stored data is at schema version ${schemaVersion}; migrate it to ${LATEST_SCHEMA_VERSION} first`
+    ])
+  }
+
+  const storage = dryRun ? createDryRunStorage(realStorage, (message) => log(`  [dry run] ${message}`)) : realStorage
+  const restoredIds = new Set(archive.children.map((backup) => backup.child.id))
+  const summary: RestoreSummary = {
+    children: archive.children.length,
+    plannedFeedings: 0,
+    actualFeedings: 0,
+    recommendations: archive.recommendations.length
+  }
+
+  for (const backup of archive.children) {
+    log(`Restoring ${backup.child.name} (${backup.child.id})`)
+    await restoreChild(storage, backup, merge)
+    summary.plannedFeedings += backup.plannedFeedings.length
+    summary.actualFeedings += backup.actualFeedings.length
+  }
+
+  if (merge) {
+    await storage.children.update((stored) => [
+      ...stored,
+      ...archive.children.map((backup) => backup.child).filter((child) => !stored.some((each) => each.id === child.id))
+    ])
+    if ((await storage.recommendations.list()).length === 0) {
+      await storage.recommendations.replaceAll(archive.recommendations)
+    }
+    await migrateRestored(archive, dryRun, log)
+    return summary
+  }
+
+  // Every child's data is in place; only now are the children swapped and the
+  // ones the archive doesn't have removed
+  let removed: Child[] = []
+  await storage.children.update((stored) => {
+    removed = stored.filter((child) => !restoredIds.has(child.id))
+    return archive.children.map((backup) => backup.child)
+  })
+  await storage.recommendations.replaceAll(archive.recommendations)
+  for (const child of removed) {
+    log(`Clearing data of child ${child.name} (${child.id}), not in the archive`)
+    await clearChildData(storage, getChildStorageKeys(child.id))
+  }
+
+  await migrateRestored(archive, dryRun, log)
+  return summary
+}
@@ -0,0 +1,236 @@
+import { nanoid } from "nanoid"
+import { assertVersion, clearChildData, ConflictError, getChildStorageKeys, getStorage } from "./storage"
+import { DEFAULT_FEEDING_SETTINGS } from "./settings"
+import { updateProfile } from "./recommendations"
+import { childSchema, keepValidRecords } from "./schemas"
+import { logger } from "./logger"
+
+const log = logger.child({ module: "children" })
+
+// A child tracked by the household. Their profile, settings, plans and feeding
+// logs are stored under their own keys (see getChildStorageKeys).
+export interface Child {
+  id: string
+  name: string
+  createdAt: string
+  // Id of the child's twin when twins mode is on; both children point at each other
+  twinId?: string
+  version?: number
+}
+
+// Name given to the first child when none has been added yet
+export const DEFAULT_CHILD_NAME = "Baby"
+
+/**
+ * Thrown when removing the household's only child, which would leave the app
+ * with nothing to show
+ */
+export class LastChildError extends Error {
+  constructor() {
+    super("The last child can't be removed")
+    this.name = "LastChildError"
+  }
+}
+
+/**
+ * Gets every child in the household, in the order they were added, skipping
+ * corrupt records
+ */
+export async function getChildren() {
+  try {
+    return keepValidRecords("child", await getStorage().children.list(), childSchema)
+  } catch (error) {
+    log.error("Error getting children", { error })
+    throw error
+  }
+}
+
+/**
+ * Gets the household's first child, adding one if there are none yet
+ */
+export async function getDefaultChild() {
+  const storage = getStorage()
+  const existing = await storage.children.list()
+  if (existing.length > 0) {
+    return existing[0]
+  }
+
+  const children = await storage.children.update((children) =>
+    children.length > 0
+      ? children
+      : [{ id: nanoid(), name: DEFAULT_CHILD_NAME, createdAt: new Date().toISOString(), version: 1 }]
+  )
+  return children[0]
+}
+
+/**
+ * Works out which child a request is about
+ * @param requestedId Child id sent by the client, if any
+ * @returns The requested child's id, the first child's id when none was requested,
+ *   or null if the requested child doesn't exist
+ */
+export async function resolveChildId(requestedId: unknown) {
+  if (requestedId === undefined || requestedId === null || requestedId === "") {
+    return (await getDefaultChild()).id
+  }
+
+  const children = await getChildren()
+  return children.some((child) => child.id === requestedId) ? (requestedId as string) : null
+}
+
+/**
+ * Adds a child with default feeding settings
+ * @param name Name shown in the child switcher
+ * @param birthDate Optional ISO birth date, used for the child's recommendations
+ * @returns The new child
+ */
+export async function addChild(name: string, birthDate?: string) {
+  try {
+    const storage = getStorage()
+    const child: Child = { id: nanoid(), name, createdAt: new Date().toISOString(), version: 1 }
+
+    await storage.forChild(child.id).settings.save(DEFAULT_FEEDING_SETTINGS)
+    if (birthDate) {
+      await updateProfile(child.id, birthDate)
+    }
+    await storage.children.update((children) => [...children, child])
+
+    return child
+  } catch (error) {
+    log.error("Error adding child", { error })
+    throw error
+  }
+}
+
+/**
+ * Renames a child
+ * @param expectedVersion Version of the child the caller edited; a newer stored version throws a ConflictError
+ * @returns The updated child, or null if there is no child with this id
+ */
+export async function renameChild(id: string, name: string, expectedVersion?: number) {
+  try {
+    let renamed: Child | null = null
+    await getStorage().children.update((children) => {
+      renamed = null
+      return children.map((child) => {
+        if (child.id !== id) {
+          return child
+        }
+        assertVersion(child, expectedVersion)
+        renamed = { ...child, name, version: (child.version ?? 0) + 1 }
+        return renamed
+      })
+    })
+
+    if (!renamed && expectedVersion !== undefined) {
+      throw new ConflictError("This child was removed by someone else")
+    }
+    return renamed
+  } catch (error) {
+    log.error("Error renaming child", { error })
+    throw error
+  }
+}
+
+/**
+ * Removes a child and deletes all of their data
+ * @returns false if there is no child with this id
+ * @throws LastChildError if this is the only child
+ */
+export async function removeChild(id: string) {
+  try {
+    const storage = getStorage()
+    let removed = false
+    await storage.children.update((children) => {
+      removed = children.some((child) => child.id === id)
+      if (removed && children.length === 1) {
+        throw new LastChildError()
+      }
+      // A remaining twin goes back to being planned on their own
+      return children
+        .filter((child) => child.id !== id)
+        .map((child) => (child.twinId === id ? withoutTwin(child) : child))
+    })
+
+    if (removed) {
+      await clearChildData(storage, getChildStorageKeys(id))
+    }
+    return removed
+  } catch (error) {
+    if (!(error instanceof LastChildError)) {
+      log.error("Error removing child", { error })
+    }
+    throw error
+  }
+}
+
+// Returns a copy of the child with the twin link removed
+function withoutTwin(child: Child): Child {
+  const { twinId, ...rest } = child
+  return { ...rest, version: (child.version ?? 0) + 1 }
+}
+
+/**
+ * Gets the twin of a child in twins mode
+ * @returns The twin, or null if the child isn't paired
+ */
+export async function getTwin(childId: string) {
+  const children = await getChildren()
+  const twinId = children.find((child) => child.id === childId)?.twinId
+  return children.find((child) => child.id === twinId) || null
+}
+
+/**
+ * Turns on twins mode for two children, so they share one feeding schedule.
+ * Either child's previous twin is unpaired.
+ * @returns The two paired children, or null if either doesn't exist
+ */
+export async function pairTwins(childId: string, twinId: string) {
+  try {
+    let paired: [Child, Child] | null = null
+    await getStorage().children.update((children) => {
+      paired = null
+      const ids = [childId, twinId]
+      if (!ids.every((id) => children.some((child) => child.id === id))) {
+        return children
+      }
+
+      const updated = children.map((child) => {
+        if (ids.includes(child.id)) {
+          return { ...child, twinId: child.id === childId ? twinId : childId, version: (child.version ?? 0) + 1 }
+        }
+        // Former twins of either child
+        return child.twinId && ids.includes(child.twinId) ? withoutTwin(child) : child
+      })
+      paired = [updated.find((child) => child.id === childId)!, updated.find((child) => child.id === twinId)!]
+      return updated
+    })
+
+    return paired as [Child, Child] | null
+  } catch (error) {
+    log.error("Error pairing twins", { error })
+    throw error
+  }
+}
+
+/**
+ * Turns off twins mode for a child and their twin. Their planned schedules are
+ * kept and from then on change independently.
+ * @returns false if the child wasn't paired
+ */
+export async function unpairTwins(childId: string) {
+  try {
+    let unpaired = false
+    await getStorage().children.update((children) => {
+      const twinId = children.find((child) => child.id === childId)?.twinId
+      unpaired = !!twinId
+      return children.map((child) =>
+        twinId && (child.id === childId || child.id === twinId) ? withoutTwin(child) : child
+      )
+    })
+    return unpaired
+  } catch (error) {
+    log.error("Error unpairing twins", { error })
+    throw error
+  }
+}
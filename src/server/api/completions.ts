@@ -0,0 +1,94 @@
+import type { ChildStorage } from "./storage"
+import type { ActualFeeding } from "./feedings"
+import { logger } from "./logger"
+
+const log = logger.child({ module: "completions" })
+
+// An actual feeding with a plannedFeedingId is the completion of that planned
+// feeding, and the planned feeding's isCompleted says whether it has one. Code
+// that takes a completion away or puts one back changes the flag with it: the
+// flag first, atomically, and back again if the actual feeding can't then be
+// changed. A planned feeding no longer in the plan, e.g. after a new plan was
+// saved, is left alone.
+
+/**
+ * Thrown when a removed completion can't be put back because its planned
+ * feeding has been completed again since
+ */
+export class CompletedAgainError extends Error {
+  constructor(readonly plannedFeedingId: string) {
+    super("The planned feeding this completed has been completed again since; undo that first")
+    this.name = "CompletedAgainError"
+  }
+}
+
+async function setCompletion(storage: ChildStorage, feedingId: string, isCompleted: boolean) {
+  await storage.plannedFeedings.update((feedings) =>
+    feedings.map((feeding) => (feeding.id === feedingId ? { ...feeding, isCompleted } : feeding))
+  )
+}
+
+/**
+ * Sets a planned feeding's completion back after the ledger write that went
+ * with it failed, so the two stay in step. If that fails too, it is logged and
+ * the ledger's error is the one reported.
+ */
+export async function revertCompletion(storage: ChildStorage, feedingId: string, isCompleted: boolean) {
+  try {
+    await setCompletion(storage, feedingId, isCompleted)
+  } catch (error) {
+    log.error("Error reverting a planned feeding after the actual feedings failed to change", { error, feedingId })
+  }
+}
+
+/**
+ * Removes an actual feeding, reopening the planned feeding it completed
+ * @param remove Removes the feeding, saying whether it was there
+ * @returns Whether remove removed it
+ */
+export async function removeCompletion(storage: ChildStorage, feeding: ActualFeeding, remove: () => Promise<boolean>) {
+  const { plannedFeedingId } = feeding
+  if (!plannedFeedingId) {
+    return remove()
+  }
+
+  await setCompletion(storage, plannedFeedingId, false)
+  try {
+    // Not there means someone else removed it, and reopened the feeding too
+    return await remove()
+  } catch (error) {
+    await revertCompletion(storage, plannedFeedingId, true)
+    throw error
+  }
+}
+
+/**
+ * Puts back a removed actual feeding, completing again the planned feeding it
+ * completed
+ * @param restore Writes the feeding back
+ * @throws CompletedAgainError if the planned feeding has been completed again since
+ */
+export async function restoreCompletion(storage: ChildStorage, feeding: ActualFeeding, restore: () => Promise<void>) {
+  const { plannedFeedingId } = feeding
+  if (!plannedFeedingId) {
+    return restore()
+  }
+
+  await storage.plannedFeedings.update((feedings) =>
+    feedings.map((planned) => {
+      if (planned.id !== plannedFeedingId) {
+        return planned
+      }
+      if (planned.isCompleted) {
+        throw new CompletedAgainError(plannedFeedingId)
+      }
+      return { ...planned, isCompleted: true }
+    })
+  )
+  try {
+    await restore()
+  } catch (error) {
+    await revertCompletion(storage, plannedFeedingId, false)
+    throw error
+  }
+}
@@ -0,0 +1,233 @@
+import { createHash } from "crypto"
+import { existsSync } from "fs"
+import { config as loadEnvFile } from "dotenv"
+import { z } from "zod"
+import type { StorageDriver } from "./storage/types"
+import type { FieldError } from "./schemas"
+import type { LogLevel } from "./logger"
+
+// The server's settings, read from the environment once and checked before
+// anything else runs. Everything server-side reads them from getConfig rather
+// than from process.env, so a missing or unsafe setting is reported at
+// startup instead of by whichever request first needs it.
+
+// The .env profile is picked by NODE_ENV
+export const PROFILES = ["development", "test", "production"] as const
+
+export type Profile = (typeof PROFILES)[number]
+
+export interface Config {
+  profile: Profile
+  // NODE_ENV=production or running on Vercel: Redis must use TLS and session
+  // cookies are Secure
+  production: boolean
+  vercel: boolean
+  vercelRegion?: string
+  port: number
+  storageDriver: StorageDriver
+  storageFilePath: string
+  // Set whenever storageDriver is "redis"
+  redisUrl?: string
+  // Without it, plans come from the rule-based planner
+  openaiApiKey?: string
+  // The least important log entries written, see ./logger
+  logLevel: LogLevel
+  // Bearer token /api/metrics asks for; without it the metrics are public
+  metricsToken?: string
+  // IANA zone the household lives in, e.g. "America/Chicago". Feeding times
+  // stored without a zone, planned times and locked times are read in it.
+  timeZone: string
+  // What /api/auth/setup asks for with the first PIN; without it the first PIN
+  // can only be set with src/scripts/set-pin.ts
+  setupToken?: string
+}
+
+const STORAGE_DRIVERS = ["redis", "memory", "file"] as const satisfies readonly StorageDriver[]
+
+const DEFAULT_FILE_PATH = ".data/bottle-planner.json"
+
+// Kept here rather than imported from ./logger, which reads the configuration
+const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const satisfies readonly LogLevel[]
+
+// sha256 of Redis passwords that have been published, e.g. committed to
+// vercel.json. They have to be rotated, so the server refuses them.
+const LEAKED_REDIS_PASSWORDS = ["3a6d6c99d7122f70fea65c681e7d1fe79224628bf7c5d09cacaa97816e6d90b4"]
+
+/**
+ * Thrown when the environment is missing a required setting, has an invalid
+ * one, or is known to be insecure. Each problem is listed by variable.
+ */
+export class ConfigError extends Error {
+  constructor(readonly errors: FieldError[]) {
+    super(`Invalid configuration: ${errors.map((error) => `${error.field} ${error.message}`).join("; ")}`)
+    this.name = "ConfigError"
+  }
+}
+
+const oneOf = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.enum(values, { errorMap: () => ({ message: `must be one of ${values.join(", ")}` }) })
+
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Empty variables count as unset, as in .env.example's blank lines
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "" ? undefined : value), schema.optional())
+
+const envSchema = z
+  .object({
+    NODE_ENV: optional(oneOf(PROFILES)).default("development"),
+    VERCEL: optional(z.string()),
+    VERCEL_REGION: optional(z.string()),
+    PORT: optional(
+      z.coerce
+        .number({ invalid_type_error: "must be a port number" })
+        .int("must be a port number")
+        .min(1, "must be a port number")
+        .max(65535, "must be a port number")
+    ).default(3000),
+    STORAGE_DRIVER: optional(z.string().toLowerCase().pipe(oneOf(STORAGE_DRIVERS))).default("redis"),
+    STORAGE_FILE_PATH: optional(z.string()).default(DEFAULT_FILE_PATH),
+    REDIS_URL: optional(
+      z
+        .string()
+        .url("must be a URL like rediss://default:<password>@<host>:6379")
+        .refine((url) => /^rediss?:\/\//.test(url), "must start with redis:// or rediss://")
+    ),
+    OPENAI_API_KEY: optional(z.string()),
+    LOG_LEVEL: optional(z.string().toLowerCase().pipe(oneOf(LOG_LEVELS))),
+    METRICS_TOKEN: optional(z.string().min(16, "must be at least 16 characters")),
+    SETUP_TOKEN: optional(z.string().min(16, "must be at least 16 characters")),
+    HOUSEHOLD_TIME_ZONE: optional(z.string().refine(isTimeZone, "must be an IANA time zone such as America/Chicago"))
+  })
+  .superRefine((env, context) => {
+    const production = env.NODE_ENV === "production" || !!env.VERCEL
+    const problem = (field: string, message: string) =>
+      context.addIssue({ code: z.ZodIssueCode.custom, path: [field], message })
+
+    if (env.STORAGE_DRIVER === "redis" && !env.REDIS_URL) {
+      problem("REDIS_URL", "is required when STORAGE_DRIVER is redis (or set STORAGE_DRIVER=file to work without Redis)")
+    }
+    if (env.VERCEL && env.STORAGE_DRIVER !== "redis") {
+      problem("STORAGE_DRIVER", `can't be ${env.STORAGE_DRIVER} on Vercel, where every instance has its own memory and disk`)
+    }
+    if (env.VERCEL && !env.HOUSEHOLD_TIME_ZONE) {
+      problem("HOUSEHOLD_TIME_ZONE", "is required on Vercel, whose servers run in UTC, e.g. America/Chicago")
+    }
+
+    if (!env.REDIS_URL || !URL.canParse(env.REDIS_URL)) {
+      return
+    }
+    // The insecure settings the server refuses to start with
+    const redisUrl = new URL(env.REDIS_URL)
+    const password = decodeURIComponent(redisUrl.password)
+    if (password && LEAKED_REDIS_PASSWORDS.includes(createHash("sha256").update(password).digest("hex"))) {
+      problem("REDIS_URL", "has a password that was published with the source code; rotate it in the Upstash console")
+    }
+    const local = ["localhost", "127.0.0.1", "[::1]"].includes(redisUrl.hostname)
+    if (production && !local && redisUrl.protocol !== "rediss:") {
+      problem("REDIS_URL", "must use rediss:// in production, so the password isn't sent in the clear")
+    }
+    if (production && !local && !password) {
+      problem("REDIS_URL", "must include a password in production")
+    }
+  })
+
+/**
+ * Loads the .env files for a profile into process.env. Earlier files win, and
+ * variables already set in the environment win over all of them:
+ * .env.<profile>.local, .env.local (not for test, so tests don't pick up a
+ * developer's secrets), .env.<profile>, .env
+ */
+export function loadEnvFiles(profile: string) {
+  const files = [`.env.${profile}.local`, ...(profile === "test" ? [] : [".env.local"]), `.env.${profile}`, ".env"]
+  for (const file of files) {
+    if (existsSync(file)) {
+      loadEnvFile({ path: file })
+    }
+  }
+}
+
+let config: Config | null = null
+
+/**
+ * Gets the configuration, loading the .env files for NODE_ENV's profile and
+ * checking the environment the first time
+ * @throws ConfigError listing every missing, invalid or insecure setting
+ */
+export function getConfig(): Config {
+  if (!config) {
+    loadEnvFiles(process.env.NODE_ENV || "development")
+
+    const result = envSchema.safeParse(process.env)
+    if (!result.success) {
+      throw new ConfigError(
+        result.error.issues.map((issue) => ({ field: issue.path.join(".") || "environment", message: issue.message }))
+      )
+    }
+
+    const env = result.data
+    config = {
+      profile: env.NODE_ENV,
+      production: env.NODE_ENV === "production" || !!env.VERCEL,
+      vercel: !!env.VERCEL,
+      vercelRegion: env.VERCEL_REGION,
+      port: env.PORT,
+      storageDriver: env.STORAGE_DRIVER,
+      storageFilePath: env.STORAGE_FILE_PATH,
+      redisUrl: env.REDIS_URL,
+      openaiApiKey: env.OPENAI_API_KEY,
+      // Tests only want to hear about problems
+      logLevel: env.LOG_LEVEL ?? (env.NODE_ENV === "test" ? "warn" : "info"),
+      metricsToken: env.METRICS_TOKEN,
+      setupToken: env.SETUP_TOKEN,
+      // Outside Vercel the server usually runs where the household lives
+      timeZone: env.HOUSEHOLD_TIME_ZONE ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+    }
+  }
+
+  return config
+}
+
+/**
+ * Gets the configuration before a server or script starts, printing each
+ * problem and exiting if the environment isn't valid
+ */
+export function requireValidConfig(): Config {
+  try {
+    return getConfig()
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error
+    }
+    console.error("❌ Refusing to start with this configuration:")
+    for (const { field, message } of error.errors) {
+      console.error(`   ${field} ${message}`)
+    }
+    console.error("   See .env.example for every setting.")
+    process.exit(1)
+  }
+}
+
+/**
+ * Shows a Redis URL without its password, for logs and diagnostics
+ */
+export function redactRedisUrl(redisUrl: string | undefined) {
+  if (!redisUrl) {
+    return "not set"
+  }
+  if (!URL.canParse(redisUrl)) {
+    return "invalid"
+  }
+  const url = new URL(redisUrl)
+  if (url.password) {
+    url.password = "****"
+  }
+  return url.toString()
+}
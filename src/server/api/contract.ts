@@ -0,0 +1,396 @@
+import type { Request, RequestHandler } from "express"
+import type { z } from "zod"
+import type { ActualFeeding, PlannedFeeding } from "./feedings"
+import type { FeedingSettings } from "./settings"
+import type { FeedingRecommendation, NewbornProfile } from "./recommendations"
+import type { Child } from "./children"
+import type { TwinIntake } from "./twins"
+import type { RelaxedConstraint } from "./planner"
+import type { AuditEntry } from "./audit"
+import type { ErrorCode } from "./errors"
+import type { TrashedFeeding } from "./trash"
+import type { HouseholdMember, Session } from "./auth"
+import type { StorageStatus } from "./storage/types"
+import type {
+  FieldError,
+  addChildBody,
+  addMemberBody,
+  auditLogQuery,
+  completeFeedingBody,
+  feedingIdBody,
+  memberIdBody,
+  pairTwinsBody,
+  pinBody,
+  setupBody,
+  recentFeedingsQuery,
+  recordIdBody,
+  restoreAuditEntryBody,
+  saveSettingsBody,
+  timeRangeQuery,
+  updateChildBody,
+  updateFeedingBody,
+  updateProfileBody
+} from "./schemas"
+
+// The request and response shapes of every JSON endpoint. The handlers in
+// routes.ts are typed with them and the frontend's client in src/lib/api.ts
+// reads them, so a change to either side that breaks the other fails the
+// type check.
+
+// Every failed request, with the latest data for a CONFLICT and the problem
+// with each field for VALIDATION_FAILED or CORRUPT_RECORD. detail is the
+// underlying cause of a server error.
+export interface ApiFailure {
+  success: false
+  code: ErrorCode
+  message: string
+  detail?: string
+  errors?: FieldError[]
+  // With STORAGE_UNAVAILABLE: whether the server is reconnecting, and when it next tries
+  storage?: StorageStatus
+}
+
+// Household PINs are this many digits, entered with the input-otp component
+export const PIN_LENGTH = 6
+
+// What each PIN lets its holder do, from least to most: a viewer only reads, a
+// caregiver also logs and completes feedings, and the owner can do anything,
+// including changing settings, planning, removing data and handing out PINs
+export const ROLES = ["viewer", "caregiver", "owner"] as const
+
+export type Role = (typeof ROLES)[number]
+
+/**
+ * Whether a role may do what needs the required role
+ */
+export const hasRole = (role: Role, required: Role) => ROLES.indexOf(role) >= ROLES.indexOf(required)
+
+type Ok<T = {}> = { success: true } & T
+
+// A member as the owner's list of PINs shows them, without the PIN
+export type MemberSummary = Pick<HouseholdMember, "id" | "name" | "role" | "createdAt">
+
+interface EnvironmentInfo {
+  environment: string
+  vercel: string
+  serverTime: string
+}
+
+// What the diagnostics endpoint finds, including a sample of the stored keys
+// when the storage can be reached
+export interface DiagnosticInfo {
+  timestamp: string
+  environment: string
+  vercel: string
+  region: string
+  nodeVersion: string
+  storageDriver: string
+  redisUrl: string
+  redisConnected: boolean
+  redisKeys?: string[]
+  keyCount?: number
+  redisError?: string
+}
+
+// What the readiness probe checked: "ok", or what went wrong
+export interface ReadinessChecks {
+  storage: string
+  schema: string
+}
+
+// A new actual feeding in the canonical fields. The server also still
+// accepts the legacy date/time/amount fields, which the client doesn't send.
+export type ActualFeedingInput = Omit<ActualFeeding, "id" | "version">
+
+export interface ActualFeedingConflict {
+  current: ActualFeeding
+  actualFeedings: ActualFeeding[]
+}
+
+interface PlannedFeedingConflict {
+  current: PlannedFeeding
+  feedings: { planned: PlannedFeeding[] }
+}
+
+type NestedActualFeedings = Ok<{ feedings: { actual: ActualFeeding[] }; message?: string }>
+type FlatActualFeedings = Ok<{ actualFeedings: ActualFeeding[]; message?: string }>
+
+type RestoredFromTrash = Ok<{
+  actualFeeding: ActualFeeding
+  actualFeedings: ActualFeeding[]
+  trash: TrashedFeeding[]
+}>
+
+type RestoredFromAudit = Ok<
+  ({ entity: "actualFeeding"; actualFeeding: ActualFeeding | null } | { entity: "settings"; settings: FeedingSettings }) & {
+    actualFeedings: ActualFeeding[]
+  }
+>
+
+// Query parameters and bodies are typed as the client sends them, before the
+// schemas in schemas.ts coerce them
+export interface ApiRoutes {
+  "/api": {
+    method: "GET"
+    response: EnvironmentInfo & { status: string; message: string }
+  }
+  "/api/health/live": {
+    method: "GET"
+    response: Ok<{ status: "live"; uptimeSeconds: number }>
+  }
+  "/api/health/ready": {
+    method: "GET"
+    // Not ready is answered with STORAGE_UNAVAILABLE or SCHEMA_NOT_READY and the same checks
+    response: Ok<{ status: "ready"; checks: ReadinessChecks }>
+  }
+  "/api/metrics": {
+    method: "GET"
+    // The Prometheus text format, not JSON
+    response: string
+  }
+  "/api/diagnostics": {
+    method: "GET"
+    response: DiagnosticInfo
+  }
+  "/api/redis/check-connection": {
+    method: "GET"
+    response: EnvironmentInfo & { connected: boolean; driver?: string; message: string; error?: string; storage: StorageStatus }
+  }
+  "/api/auth/session": {
+    method: "GET"
+    // The signed-in member's id, name and role come with signedIn: true
+    response: Ok<{ signedIn: boolean; pinSet: boolean } & Partial<Session>>
+  }
+  "/api/auth/setup": {
+    method: "POST"
+    body: z.input<typeof setupBody>
+    response: Ok
+  }
+  "/api/auth/login": {
+    method: "POST"
+    body: z.input<typeof pinBody>
+    response: Ok
+  }
+  "/api/auth/logout": {
+    method: "POST"
+    body: undefined
+    response: Ok
+  }
+  "/api/auth/members/get": {
+    method: "GET"
+    response: Ok<{ members: MemberSummary[] }>
+  }
+  "/api/auth/members/add": {
+    method: "POST"
+    body: z.input<typeof addMemberBody>
+    response: Ok<{ member: MemberSummary }>
+  }
+  "/api/auth/members/remove": {
+    method: "POST"
+    body: z.input<typeof memberIdBody>
+    response: Ok
+  }
+  "/api/redis/initialize-data": {
+    method: "POST"
+    body: undefined
+    response: Ok<{ message: string }>
+  }
+  "/api/children/get": {
+    method: "GET"
+    response: Ok<{ children: Child[] }>
+  }
+  "/api/children/add": {
+    method: "POST"
+    body: z.input<typeof addChildBody>
+    response: Ok<{ child: Child; children: Child[] }>
+  }
+  "/api/children/update": {
+    method: "POST"
+    body: z.input<typeof updateChildBody>
+    response: Ok<{ child: Child; children: Child[] }>
+    conflict: { current: Child; children: Child[] }
+  }
+  "/api/children/remove": {
+    method: "POST"
+    body: z.input<typeof recordIdBody>
+    response: Ok<{ children: Child[] }>
+  }
+  "/api/twins/get": {
+    method: "GET"
+    response: Ok<{ twin: Child | null }>
+  }
+  "/api/twins/pair": {
+    method: "POST"
+    body: z.input<typeof pairTwinsBody>
+    response: Ok<{ twin: Child; children: Child[] }>
+  }
+  "/api/twins/unpair": {
+    method: "POST"
+    body: undefined
+    response: Ok<{ children: Child[] }>
+  }
+  "/api/twins/intake": {
+    method: "GET"
+    query: z.input<typeof timeRangeQuery>
+    response: Ok<{ intake: TwinIntake[] }>
+  }
+  "/api/twins/feedings/add": {
+    method: "POST"
+    // twinVolumeMl is what the twin drank; the rest is the active child's feeding
+    body: ActualFeedingInput & { twinVolumeMl: number }
+    response: Ok<{ actualFeedings: ActualFeeding[] }>
+  }
+  "/api/audit/get": {
+    method: "GET"
+    query: z.input<typeof auditLogQuery>
+    response: Ok<{ entries: AuditEntry[] }>
+  }
+  "/api/audit/restore": {
+    method: "POST"
+    body: z.input<typeof restoreAuditEntryBody>
+    response: RestoredFromAudit
+    conflict: ActualFeedingConflict
+  }
+  "/api/settings/get": {
+    method: "GET"
+    response: Ok<{ settings: FeedingSettings }>
+  }
+  "/api/settings/save": {
+    method: "POST"
+    body: z.input<typeof saveSettingsBody>
+    response: Ok
+  }
+  "/api/recommendations/get": {
+    method: "GET"
+    response: Ok<{ recommendations: FeedingRecommendation[] }>
+  }
+  "/api/profile/get": {
+    method: "GET"
+    response: Ok<{ profile: NewbornProfile }>
+  }
+  "/api/profile/update": {
+    method: "POST"
+    body: z.input<typeof updateProfileBody>
+    response: Ok<{ profile: NewbornProfile }>
+  }
+  "/api/feedings/get": {
+    method: "GET"
+    response: Ok<{ feedings: { planned: PlannedFeeding[]; actual: ActualFeeding[] } }>
+  }
+  "/api/feedings/planned/get": {
+    method: "GET"
+    response: Ok<{ feedings: { planned: PlannedFeeding[] } }>
+  }
+  "/api/feedings/plan": {
+    method: "POST"
+    body: undefined
+    // Constraints the rule-based planner couldn't keep, see ../planner
+    response: Ok<{ feedings: { planned: PlannedFeeding[] }; relaxed: RelaxedConstraint[]; message: string }>
+  }
+  "/api/feedings/update": {
+    method: "POST"
+    body: z.input<typeof updateFeedingBody>
+    response: Ok<{ feedings: { planned: PlannedFeeding[]; actual: ActualFeeding[] } }>
+    conflict: PlannedFeedingConflict
+  }
+  "/api/feedings/complete": {
+    method: "POST"
+    body: z.input<typeof completeFeedingBody>
+    response: Ok<{ feedings: { planned: PlannedFeeding[]; actual: ActualFeeding[] }; message: string }>
+    conflict: PlannedFeedingConflict
+  }
+  "/api/feedings/uncomplete": {
+    method: "POST"
+    body: z.input<typeof feedingIdBody>
+    response: Ok<{ feedings: { planned: PlannedFeeding[]; actual: ActualFeeding[] }; message: string }>
+    conflict: PlannedFeedingConflict
+  }
+  "/api/feedings/completed/get": {
+    method: "GET"
+    response: Ok<{ feedings: { completed: ActualFeeding[] } }>
+  }
+  "/api/feedings/recent": {
+    method: "GET"
+    query: z.input<typeof recentFeedingsQuery>
+    response: Ok<{ recentFeedings: (ActualFeeding & { displayAmount: string; timeAgo: string })[] }>
+  }
+  "/api/feedings/actual/get": {
+    method: "GET"
+    query: z.input<typeof timeRangeQuery>
+    response: NestedActualFeedings
+  }
+  "/api/feedings/actual/add": {
+    method: "POST"
+    body: ActualFeedingInput
+    response: NestedActualFeedings
+  }
+  "/api/feedings/actual/update": {
+    method: "POST"
+    body: { id: string; version?: number } & Partial<ActualFeedingInput>
+    response: NestedActualFeedings
+    conflict: ActualFeedingConflict
+  }
+  "/api/feedings/actual/remove": {
+    method: "POST"
+    body: z.input<typeof recordIdBody>
+    response: NestedActualFeedings
+    conflict: ActualFeedingConflict
+  }
+  "/api/feedings/actual/trash": {
+    method: "GET"
+    response: Ok<{ trash: TrashedFeeding[]; retentionDays: number }>
+  }
+  "/api/feedings/actual/restore": {
+    method: "POST"
+    body: z.input<typeof recordIdBody>
+    response: RestoredFromTrash
+  }
+  "/api/actual-feedings/get": {
+    method: "GET"
+    query: z.input<typeof timeRangeQuery>
+    response: FlatActualFeedings
+  }
+  "/api/actual-feedings/add": {
+    method: "POST"
+    body: ActualFeedingInput
+    response: FlatActualFeedings
+  }
+  "/api/actual-feedings/update": {
+    method: "POST"
+    body: { id: string; version?: number } & Partial<ActualFeedingInput>
+    response: FlatActualFeedings
+    conflict: ActualFeedingConflict
+  }
+  "/api/actual-feedings/remove": {
+    method: "POST"
+    body: z.input<typeof recordIdBody>
+    response: FlatActualFeedings
+    conflict: ActualFeedingConflict
+  }
+  "/api/actual-feedings/trash": {
+    method: "GET"
+    response: Ok<{ trash: TrashedFeeding[]; retentionDays: number }>
+  }
+  "/api/actual-feedings/restore": {
+    method: "POST"
+    body: z.input<typeof recordIdBody>
+    response: RestoredFromTrash
+  }
+}
+
+export type ApiPath = keyof ApiRoutes
+
+export type GetPath = { [P in ApiPath]: ApiRoutes[P]["method"] extends "GET" ? P : never }[ApiPath]
+export type PostPath = { [P in ApiPath]: ApiRoutes[P]["method"] extends "POST" ? P : never }[ApiPath]
+export type ConflictPath = { [P in ApiPath]: ApiRoutes[P] extends { conflict: unknown } ? P : never }[ApiPath]
+
+export type ApiQuery<P extends GetPath> = ApiRoutes[P] extends { query: infer Q } ? Q : undefined
+export type ApiBody<P extends PostPath> = ApiRoutes[P] extends { body: infer B } ? B : undefined
+export type ApiResponse<P extends ApiPath> = ApiRoutes[P]["response"]
+export type ApiConflict<P extends ConflictPath> = ApiRoutes[P] extends { conflict: infer C } ? C : never
+
+/**
+ * A handler for one or more of the endpoints above, whose responses are
+ * checked against them. Any handler may also fail.
+ */
+export type ApiHandler<P extends ApiPath> = RequestHandler<Request["params"], ApiResponse<P> | ApiFailure>
@@ -0,0 +1,85 @@
+import type { Response } from "express"
+import { getStorage, StorageUnavailableError } from "./storage"
+import { CorruptRecordError } from "./schemas"
+import { PlannerError } from "./feedings"
+import { ConfigError } from "./config"
+
+/**
+ * The code every failed request is answered with, and the status it is sent
+ * with. Clients decide what went wrong from the code, never from the message,
+ * so a code keeps its meaning once released.
+ */
+export const ERROR_STATUS = {
+  // The request didn't match the endpoint's schema; `errors` lists each field
+  VALIDATION_FAILED: 400,
+  // The request is valid but the data doesn't allow it, e.g. removing the last child
+  OPERATION_NOT_ALLOWED: 400,
+  // No valid session cookie, or a wrong PIN when signing in
+  UNAUTHENTICATED: 401,
+  // The signed-in member's role doesn't allow this, e.g. a viewer saving settings
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  // Someone else changed the record first; the latest data is included
+  CONFLICT: 409,
+  // Sign-in is locked for a while after too many wrong PINs
+  TOO_MANY_ATTEMPTS: 429,
+  // Stored data failed its schema; `errors` lists the invalid fields
+  CORRUPT_RECORD: 500,
+  AI_PLANNER_FAILED: 500,
+  INTERNAL_ERROR: 500,
+  // Redis or the data file can't be reached; `storage` says whether it is being retried
+  STORAGE_UNAVAILABLE: 503,
+  // The stored data couldn't be brought up to this version's schema, or
+  // another server is still migrating it
+  SCHEMA_NOT_READY: 503,
+  // An environment variable is missing, invalid or insecure; `errors` lists each
+  CONFIG_INVALID: 503
+} as const
+
+export type ErrorCode = keyof typeof ERROR_STATUS
+
+export const ERROR_CODES = Object.keys(ERROR_STATUS) as ErrorCode[]
+
+/**
+ * Responds with the error envelope: `success: false`, the code, a message for
+ * people, and any details the code comes with
+ */
+export function sendError(res: Response, code: ErrorCode, message: string, details: Record<string, unknown> = {}) {
+  res.status(ERROR_STATUS[code]).json({ success: false, code, message, ...details })
+}
+
+/**
+ * Tells the client in Retry-After when storage that failed will be tried
+ * again, if it is being retried
+ */
+export function setRetryAfter(res: Response, error: unknown) {
+  if (error instanceof StorageUnavailableError && error.retryAt) {
+    res.setHeader("Retry-After", Math.max(1, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000)))
+  }
+}
+
+/**
+ * Responds to an error a handler didn't expect with the code for its cause.
+ * The cause's message is sent as `detail`.
+ * @param message What the request failed to do, e.g. "Failed to get settings"
+ */
+export function sendServerError(res: Response, error: unknown, message: string) {
+  if (error instanceof CorruptRecordError) {
+    sendError(res, "CORRUPT_RECORD", error.message, { errors: error.errors })
+    return
+  }
+  if (error instanceof ConfigError) {
+    sendError(res, "CONFIG_INVALID", error.message, { errors: error.errors })
+    return
+  }
+  if (error instanceof StorageUnavailableError) {
+    setRetryAfter(res, error)
+    sendError(res, "STORAGE_UNAVAILABLE", message, { detail: error.message, storage: getStorage().status() })
+    return
+  }
+
+  const code: ErrorCode = error instanceof PlannerError ? "AI_PLANNER_FAILED" : "INTERNAL_ERROR"
+  sendError(res, code, message, {
+    detail: error instanceof Error ? error.message : "Unknown error"
+  })
+}
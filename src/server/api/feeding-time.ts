@@ -0,0 +1,218 @@
+import type { PlannedFeeding } from "./feedings"
+import type { LegacyCompletedFeeding } from "./legacy-feedings"
+
+// Clock times further than this from a reference moment are taken to be on the neighbouring day
+const HALF_DAY_MS = 12 * 60 * 60 * 1000
+
+// UTC offsets (minutes) of the time zone abbreviations found in stored feedings
+const TIME_ZONE_OFFSETS: Record<string, number> = {
+  UTC: 0,
+  GMT: 0,
+  EST: -300,
+  EDT: -240,
+  CST: -360,
+  CDT: -300,
+  MST: -420,
+  MDT: -360,
+  PST: -480,
+  PDT: -420
+}
+
+// Formats moments as their wall-clock parts in a time zone
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Gets the date and clock time a moment has in a time zone
+ * @param timeZone IANA zone such as "America/Chicago"; the local time zone if not given
+ * @returns The year, month (1-12), day, hours (0-23) and minutes
+ */
+export function getWallClock(at: number, timeZone?: string) {
+  if (!timeZone) {
+    const date = new Date(at)
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hours: date.getHours(),
+      minutes: date.getMinutes()
+    }
+  }
+
+  let format = wallClockFormats.get(timeZone)
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric"
+    })
+    wallClockFormats.set(timeZone, format)
+  }
+  const parts = Object.fromEntries(format.formatToParts(at).map(({ type, value }) => [type, Number(value)]))
+  return { year: parts.year, month: parts.month, day: parts.day, hours: parts.hour, minutes: parts.minute }
+}
+
+/**
+ * Gets the moment a date and clock time stand for in a time zone
+ * @param month 1-12; days and minutes out of range roll over as with Date
+ * @param timeZone IANA zone such as "America/Chicago"; the local time zone if not given
+ * @returns Milliseconds since the epoch
+ */
+export function getZonedMoment(year: number, month: number, day: number, hours: number, minutes: number, timeZone?: string) {
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hours, minutes).getTime()
+  }
+
+  // The wall clock read as UTC is off by the zone's offset. The offset is
+  // taken again at the first guess, which settles it near DST changes.
+  const wall = Date.UTC(year, month - 1, day, hours, minutes)
+  const offsetAt = (at: number) => {
+    const clock = getWallClock(at, timeZone)
+    return Date.UTC(clock.year, clock.month - 1, clock.day, clock.hours, clock.minutes) - Math.floor(at / 60_000) * 60_000
+  }
+  const guess = wall - offsetAt(wall)
+  return wall - offsetAt(guess)
+}
+
+/**
+ * Parses a feeding date such as "2025-03-24" or "2025.03.24"
+ * @returns The year, month (1-12) and day, or null if the date can't be read
+ */
+export function parseFeedingDate(date: string | undefined) {
+  const match = date?.trim().match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})/)
+  if (!match) {
+    return null
+  }
+
+  const [, year, month, day] = match.map(Number)
+  return { year, month, day }
+}
+
+/**
+ * Parses a clock time in any of the formats found in stored feedings,
+ * e.g. "22:00", "22:00 CDT", "9:30", "10 pm" or "12:30am"
+ * @returns Hours (0-23) and minutes, or null if the time can't be read
+ */
+export function parseClockTime(time: string | undefined) {
+  const match = time?.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i)
+  if (!match) {
+    return null
+  }
+
+  let hours = Number(match[1])
+  const minutes = match[2] ? Number(match[2]) : 0
+  const meridiem = match[3]?.toLowerCase()
+
+  if (meridiem === "pm" && hours < 12) {
+    hours += 12
+  } else if (meridiem === "am" && hours === 12) {
+    hours = 0
+  }
+
+  if (hours > 23 || minutes > 59) {
+    return null
+  }
+
+  return { hours, minutes }
+}
+
+/**
+ * Reads the time zone abbreviation at the end of a clock time, e.g. "22:00 CDT"
+ * @returns The UTC offset in minutes, or null if the time has no known zone
+ */
+export function parseTimeZoneOffset(time: string | undefined) {
+  const match = time?.trim().match(/\s([A-Z]{3,4})$/i)
+  const offset = match ? TIME_ZONE_OFFSETS[match[1].toUpperCase()] : undefined
+  return offset === undefined ? null : offset
+}
+
+/**
+ * Combines a feeding date and clock time into one moment. Times without a
+ * time zone abbreviation are read in the given time zone. The server passes
+ * the household's (getConfig().timeZone), since its own is UTC on Vercel;
+ * the browser leaves it out and uses its own.
+ * @param date Date such as "2025-03-24" or "2025.03.24"
+ * @param time Clock time such as "22:00 CDT" or "10 pm"
+ * @param timeZone IANA zone such as "America/Chicago"; the local time zone if not given
+ * @returns Milliseconds since the epoch, or null if the date or time can't be read
+ */
+export function parseFeedingMoment(date: string | undefined, time: string | undefined, timeZone?: string) {
+  const day = parseFeedingDate(date)
+  const clock = parseClockTime(time)
+  if (!day || !clock) {
+    return null
+  }
+
+  const offset = parseTimeZoneOffset(time)
+  if (offset === null) {
+    return getZonedMoment(day.year, day.month, day.day, clock.hours, clock.minutes, timeZone)
+  }
+
+  return Date.UTC(day.year, day.month - 1, day.day, clock.hours, clock.minutes) - offset * 60 * 1000
+}
+
+/**
+ * Gets the moment an actual feeding happened, used to order and index records.
+ * Also reads records stored before the canonical model (date + actualTime),
+ * which migrations still have to index.
+ * @param timeZone Zone the legacy times are read in, see parseFeedingMoment
+ * @returns Milliseconds since the epoch, or 0 if the time is unreadable
+ */
+export function getActualFeedingTimestamp(
+  feeding: {
+    occurredAt?: string
+    date?: string
+    actualTime?: string
+    time?: string
+  },
+  timeZone?: string
+) {
+  if (feeding.occurredAt) {
+    const timestamp = Date.parse(feeding.occurredAt)
+    return isNaN(timestamp) ? 0 : timestamp
+  }
+
+  return (
+    parseFeedingMoment(feeding.date, feeding.actualTime || feeding.time, timeZone) ??
+    parseFeedingMoment(feeding.date, "00:00", timeZone) ??
+    0
+  )
+}
+
+/**
+ * Gets the moment a planned feeding was planned for. Planned feedings without
+ * a date are put on the day that brings them closest to the given moment, so
+ * a 23:45 slot completed at 00:10 was planned for the previous evening.
+ * @param near Milliseconds since the epoch, e.g. when the feeding was given
+ * @param timeZone Zone the planned time is read in, see parseFeedingMoment
+ * @returns Milliseconds since the epoch, or null if the planned time can't be read
+ */
+export function getPlannedFeedingMoment(
+  feeding: Pick<PlannedFeeding, "date" | "planTime" | "time">,
+  near: number,
+  timeZone?: string
+) {
+  const nearDate = getWallClock(near, timeZone)
+  const day = feeding.date || `${nearDate.year}-${nearDate.month}-${nearDate.day}`
+
+  let moment = parseFeedingMoment(day, feeding.planTime || feeding.time, timeZone)
+  if (moment !== null && !feeding.date && moment - near > HALF_DAY_MS) {
+    moment -= 2 * HALF_DAY_MS
+  } else if (moment !== null && !feeding.date && near - moment > HALF_DAY_MS) {
+    moment += 2 * HALF_DAY_MS
+  }
+  return moment
+}
+
+/**
+ * Gets the moment a planned feeding was marked completed, for completions
+ * stored before schema version 5
+ * @returns Milliseconds since the epoch, or 0 if the timestamp is unreadable
+ */
+export function getCompletedFeedingTimestamp(feeding: Pick<LegacyCompletedFeeding, "completedAt">) {
+  const timestamp = Date.parse(feeding.completedAt)
+  return isNaN(timestamp) ? 0 : timestamp
+}
@@ -1,149 +1,224 @@
-import { getRedisClient } from "./redis-client"
-import { getSettings } from "./settings"
+import { getStorage, ConflictError, type RecordRepository, type VersionedRecord } from "./storage"
+import { recordAudit, SYSTEM_ACTOR } from "./audit"
+import { moveToTrash } from "./trash"
+import { removeCompletion, revertCompletion } from "./completions"
+import { getSettings, DEFAULT_FEEDING_SETTINGS, type FeedingSettings } from "./settings"
+import { getTwin } from "./children"
+import { mergeTwinSettings, planForTwin } from "./twins"
+import { getActualFeedingTimestamp, getPlannedFeedingMoment } from "./feeding-time"
+import { toMillilitres } from "./volume"
+import { z } from "zod"
+import {
+  actualFeedingSchema,
+  describeFieldErrors,
+  keepValidRecords,
+  plannedFeedingSchema,
+  toFieldErrors
+} from "./schemas"
 import { nanoid } from "nanoid"
 import { generateText } from "ai"
-import { openai } from "@ai-sdk/openai"
-
-// Keys used to store feedings data in Redis
-const PLANNED_FEEDINGS_KEY = "baby:plannedFeedings"
-const ACTUAL_FEEDINGS_KEY = "baby:actualFeedings"
+import { createOpenAI } from "@ai-sdk/openai"
+import { getConfig } from "./config"
+import { logger } from "./logger"
+import { aiPlannerRuns } from "./metrics"
+import { getProfile } from "./recommendations"
+import { planWithConstraints, type ConstraintPlan } from "./planner"
+
+const log = logger.child({ module: "feedings" })
+
+// Every function that reads or writes feedings takes the id of the child they
+// belong to as its first argument (see ./children).
+//
+// Every feeding given, whether logged by hand or by completing a planned
+// feeding, is an actual feeding; completions are linked to the planned feeding
+// by plannedFeedingId, and a planned feeding's isCompleted only changes
+// together with its completion (see completeFeeding and uncompleteFeeding).
+// Changes to actual feedings are recorded in the child's audit log (see
+// ./audit) under the actor passed last, and removed actual feedings go to the
+// child's trash (see ./trash).
+
+// Attempts at a change pinned to the version just read, see changeWithBefore
+const MAX_PINNED_ATTEMPTS = 3
 
 // Types for our feeding data structures
 export interface PlannedFeeding {
   id: string
-  time: string
+  date?: string
+  time?: string
+  planTime?: string
   amount: number
   amountUnit: string
   isLocked: boolean
   isCompleted: boolean
-  generatedAt: string
+  // When the plan was made; plans from planFeedings don't record it
+  generatedAt?: string
 }
 
+// Units a feeding amount can be entered in
+export type VolumeUnit = "ml" | "oz"
+
 export interface ActualFeeding {
   id: string
-  date: string
-  time?: string
-  actualTime: string
-  planTime: string
-  amount?: number
-  Amount?: string
+  // When the feeding happened (ISO instant)
+  occurredAt: string
+  // When the feeding was planned for (ISO instant), if known
+  plannedFor?: string
+  volumeMl: number
+  // Unit the amount was entered in, so it can be shown the same way
+  sourceUnit: VolumeUnit
   notes?: string
+  // Shared by the twins' records of a feeding given to both at once (see ./twins)
+  pairId?: string
+  // The planned feeding this feeding completed, see completeFeeding
+  plannedFeedingId?: string
+  // Incremented on every change, see VersionedRecord
+  version?: number
 }
 
 /**
- * Gets all planned feedings from Redis storage
+ * Gets all planned feedings from storage, skipping corrupt ones
  * @returns Array of planned feeding objects, or empty array if none found
  */
-export async function getPlannedFeedings() {
+export async function getPlannedFeedings(childId: string) {
   try {
-    const client = await getRedisClient()
-    const feedings = await client.get(PLANNED_FEEDINGS_KEY)
-
-    if (!feedings) {
-      return []
-    }
-
-    return JSON.parse(feedings)
+    const feedings = await getStorage().forChild(childId).plannedFeedings.list()
+    return keepValidRecords("planned feeding", feedings, plannedFeedingSchema)
   } catch (error) {
-    console.error("Error getting planned feedings:", error)
+    log.error("Error getting planned feedings", { error })
     throw error
   }
 }
 
 /**
- * Gets all feedings from Redis storage (for backward compatibility)
+ * Gets all feedings from storage (for backward compatibility)
  * @returns Array of feeding objects, or empty array if none found
  */
-export async function getFeedings() {
-  return getPlannedFeedings()
+export async function getFeedings(childId: string) {
+  return getPlannedFeedings(childId)
 }
 
 /**
- * Gets all actual feedings from Redis storage
+ * Gets actual feedings from storage, oldest first, skipping corrupt ones
+ * @param range Optional time range (ms since the epoch, inclusive) to limit the results to
  * @returns Array of actual feeding objects, or empty array if none found
  */
-export async function getActualFeedings() {
+export async function getActualFeedings(childId: string, range?: { from?: number; to?: number }) {
   try {
-    const client = await getRedisClient()
-    const feedings = await client.get(ACTUAL_FEEDINGS_KEY)
+    const repository = getStorage().forChild(childId).actualFeedings
 
-    if (!feedings) {
-      return []
-    }
-
-    return JSON.parse(feedings)
+    const feedings = range && (range.from !== undefined || range.to !== undefined)
+      ? await repository.range(range.from ?? 0, range.to ?? Number.MAX_SAFE_INTEGER)
+      : await repository.list()
+    return keepValidRecords("actual feeding", feedings, actualFeedingSchema)
   } catch (error) {
-    console.error("Error getting actual feedings:", error)
+    log.error("Error getting actual feedings", { error })
     throw error
   }
 }
 
 /**
- * Saves planned feedings to Redis
+ * Checks a plan against the planned feeding schema
+ * @returns The plan with defaults filled in
+ * @throws Error listing the invalid fields
+ */
+function checkPlan(feedings: unknown[]) {
+  const result = z.array(plannedFeedingSchema).safeParse(feedings)
+  if (!result.success) {
+    throw new Error(`Invalid feeding plan: ${describeFieldErrors(toFieldErrors(result.error))}`)
+  }
+  return result.data
+}
+
+/**
+ * Saves planned feedings to storage
  * @param feedings Array of planned feeding objects
  * @returns true if successful
+ * @throws Error if a feeding fails the planned feeding schema; nothing is saved
  */
-export async function savePlannedFeedings(feedings: PlannedFeeding[]) {
+export async function savePlannedFeedings(childId: string, feedings: PlannedFeeding[]) {
   try {
-    const client = await getRedisClient()
-    await client.set(PLANNED_FEEDINGS_KEY, JSON.stringify(feedings))
+    await getStorage().forChild(childId).plannedFeedings.replaceAll(checkPlan(feedings))
     return true
   } catch (error) {
-    console.error("Error saving planned feedings:", error)
+    log.error("Error saving planned feedings", { error })
     throw error
   }
 }
 
 /**
- * Saves feedings to Redis (for backward compatibility)
+ * Saves feedings to storage (for backward compatibility)
  * @param feedings Array of feeding objects
  * @returns true if successful
  */
-export async function saveFeedings(feedings: any[]) {
-  return savePlannedFeedings(feedings)
+export async function saveFeedings(childId: string, feedings: PlannedFeeding[]) {
+  return savePlannedFeedings(childId, feedings)
 }
 
 /**
- * Saves actual feedings to Redis
+ * Saves actual feedings to storage
  * @param feedings Array of actual feeding objects
  * @returns true if successful
  */
-export async function saveActualFeedings(feedings: ActualFeeding[]) {
+export async function saveActualFeedings(childId: string, feedings: ActualFeeding[]) {
   try {
-    const client = await getRedisClient()
-    await client.set(ACTUAL_FEEDINGS_KEY, JSON.stringify(feedings))
+    await getStorage().forChild(childId).actualFeedings.replaceAll(feedings)
     return true
   } catch (error) {
-    console.error("Error saving actual feedings:", error)
+    log.error("Error saving actual feedings", { error })
     throw error
   }
 }
 
+/**
+ * Reads a record and then changes it, pinned to the version that was read, so
+ * the audit log gets exactly the value that was replaced. When the caller has
+ * no version of their own, a change made by someone else in between is retried
+ * instead of being reported as a conflict.
+ */
+async function changeWithBefore<T extends VersionedRecord, R>(
+  repository: RecordRepository<T>,
+  id: string,
+  expectedVersion: number | undefined,
+  change: (version: number | undefined, before: T | null) => Promise<R>
+) {
+  for (let attempt = 1; ; attempt++) {
+    const before = await repository.get(id)
+    try {
+      return { before, result: await change(expectedVersion ?? before?.version, before) }
+    } catch (error) {
+      if (expectedVersion !== undefined || !(error instanceof ConflictError) || attempt >= MAX_PINNED_ATTEMPTS) {
+        throw error
+      }
+    }
+  }
+}
+
 /**
  * Adds a new actual feeding record
  * @param feeding The actual feeding data to add
+ * @param actor Who made the change, for the audit log
  * @returns The updated list of actual feedings
  */
-export async function addActualFeeding(feeding: Omit<ActualFeeding, "id">) {
+export async function addActualFeeding(
+  childId: string,
+  feeding: Omit<ActualFeeding, "id" | "version">,
+  actor = SYSTEM_ACTOR
+) {
   try {
-    const actualFeedings = await getActualFeedings()
-    
-    // Transform data if needed - handle both formats
-    const newFeeding: ActualFeeding = {
-      id: nanoid(),
-      ...feeding,
-      // If Amount is provided as string but amount isn't, try to parse
-      amount: feeding.amount || (feeding.Amount ? parseFloat(feeding.Amount.replace(/[^\d.-]/g, '')) : undefined),
-      // If time isn't provided but actualTime is, use that
-      time: feeding.time || feeding.actualTime
-    }
+    const created: ActualFeeding = { ...feeding, id: nanoid(), version: 1 }
+    await getStorage().forChild(childId).actualFeedings.upsert(created)
+    await recordAudit(childId, {
+      actor,
+      entity: "actualFeeding",
+      entityId: created.id,
+      action: "create",
+      before: null,
+      after: created
+    })
     
-    const updatedFeedings = [...actualFeedings, newFeeding]
-    await saveActualFeedings(updatedFeedings)
-    
-    return updatedFeedings
+    return getActualFeedings(childId)
   } catch (error) {
-    console.error("Error adding actual feeding:", error)
+    log.error("Error adding actual feeding", { error })
     throw error
   }
 }
@@ -152,135 +227,209 @@ export async function addActualFeeding(feeding: Omit<ActualFeeding, "id">) {
  * Updates an existing actual feeding record
  * @param id ID of the feeding to update
  * @param updatedData Updated feeding data
+ * @param expectedVersion Version of the feeding the caller edited; a newer stored version throws a ConflictError
+ * @param actor Who made the change, for the audit log
  * @returns The updated list of actual feedings
  */
-export async function updateActualFeeding(id: string, updatedData: Partial<Omit<ActualFeeding, "id">>) {
+export async function updateActualFeeding(
+  childId: string,
+  id: string,
+  updatedData: Partial<Omit<ActualFeeding, "id" | "version">>,
+  expectedVersion?: number,
+  actor = SYSTEM_ACTOR
+) {
   try {
-    const actualFeedings = await getActualFeedings()
-    
-    // Transform data if needed
-    const processedData = { ...updatedData }
-    
-    // If Amount is provided as string but amount isn't, try to parse
-    if (processedData.Amount && !processedData.amount) {
-      processedData.amount = parseFloat(processedData.Amount.replace(/[^\d.-]/g, ''))
+    const repository = getStorage().forChild(childId).actualFeedings
+    const { before, result: updated } = await changeWithBefore(repository, id, expectedVersion, (version) =>
+      repository.patch(id, updatedData, version)
+    )
+    if (!updated && expectedVersion !== undefined) {
+      throw new ConflictError("This record was removed by someone else")
     }
-    
-    // If time isn't provided but actualTime is, use that
-    if (processedData.actualTime && !processedData.time) {
-      processedData.time = processedData.actualTime
+    if (updated) {
+      await recordAudit(childId, { actor, entity: "actualFeeding", entityId: id, action: "update", before, after: updated })
     }
     
-    const updatedFeedings = actualFeedings.map((feeding: ActualFeeding) => 
-      feeding.id === id ? { ...feeding, ...processedData } : feeding
-    )
-    
-    await saveActualFeedings(updatedFeedings)
-    return updatedFeedings
+    return getActualFeedings(childId)
   } catch (error) {
-    console.error("Error updating actual feeding:", error)
+    log.error("Error updating actual feeding", { error })
     throw error
   }
 }
 
 /**
- * Removes an actual feeding record
+ * Removes an actual feeding record, moving it to the trash. Removing the
+ * completion of a planned feeding reopens that feeding.
  * @param id ID of the feeding to remove
+ * @param expectedVersion Version of the feeding the caller saw; a newer stored version throws a ConflictError
+ * @param actor Who made the change, for the audit log
  * @returns The updated list of actual feedings
  */
-export async function removeActualFeeding(id: string) {
+export async function removeActualFeeding(
+  childId: string,
+  id: string,
+  expectedVersion?: number,
+  actor = SYSTEM_ACTOR
+) {
   try {
-    const actualFeedings = await getActualFeedings()
-    const updatedFeedings = actualFeedings.filter((feeding: ActualFeeding) => feeding.id !== id)
-    
-    await saveActualFeedings(updatedFeedings)
-    return updatedFeedings
+    const storage = getStorage().forChild(childId)
+    const repository = storage.actualFeedings
+    const { before, result: removed } = await changeWithBefore(repository, id, expectedVersion, async (version, current) =>
+      current
+        ? moveToTrash(childId, current, () => removeCompletion(storage, current, () => repository.remove(id, version)), actor)
+        : false
+    )
+    if (!removed && expectedVersion !== undefined) {
+      throw new ConflictError("This record was already removed by someone else")
+    }
+    if (removed && before) {
+      await recordAudit(childId, { actor, entity: "actualFeeding", entityId: id, action: "remove", before, after: null })
+    }
+    return getActualFeedings(childId)
   } catch (error) {
-    console.error("Error removing actual feeding:", error)
+    log.error("Error removing actual feeding", { error })
     throw error
   }
 }
 
 /**
- * Updates a planned feeding completion status
+ * Sets a planned feeding's completion status. Completing logs the planned
+ * amount as given now and reopening removes the completion, through
+ * completeFeeding and uncompleteFeeding, so the flag never disagrees with the
+ * actual feedings. A feeding already in that state is left as it is.
  * @param feedingId ID of the feeding to update
  * @param isCompleted New completion status
- * @returns true if successful
+ * @param actor Who made the change, for the audit log
+ * @returns The updated planned and actual feedings, or null if the feeding was not found
  */
-export async function updateFeeding(feedingId: string, isCompleted: boolean) {
+export async function updateFeeding(childId: string, feedingId: string, isCompleted: boolean, actor = SYSTEM_ACTOR) {
   try {
-    const feedings = await getPlannedFeedings()
-    const updatedFeedings = feedings.map((feeding: PlannedFeeding) =>
-      feeding.id === feedingId ? { ...feeding, isCompleted } : feeding,
-    )
-
-    await savePlannedFeedings(updatedFeedings)
-    return true
+    const planned = await getPlannedFeedings(childId)
+    const feeding = planned.find((each) => each.id === feedingId)
+    if (!feeding) {
+      return null
+    }
+    if (feeding.isCompleted === isCompleted) {
+      return { planned, actual: await getActualFeedings(childId) }
+    }
+    return isCompleted
+      ? completeFeeding(childId, feedingId, feeding.amount, actor)
+      : uncompleteFeeding(childId, feedingId, actor)
   } catch (error) {
-    console.error("Error updating feeding:", error)
+    log.error("Error updating feeding", { error })
     throw error
   }
 }
 
 /**
- * Plans the next 10 feedings using the OpenAI API or falls back to a rule-based approach
- * @returns Array of feeding plan objects
+ * Thrown when no feeding plan could be made: neither the AI planner nor the
+ * rule-based fallback produced one
  */
-export async function planFeedings() {
+export class PlannerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PlannerError"
+  }
+}
+
+/**
+ * Plans the next 10 feedings using the OpenAI API or falls back to the rule-based planner (see ./planner).
+ * In twins mode one schedule is planned for both children and saved for each.
+ * @returns The feeding plan, and the constraints the rule-based planner had to relax (none for AI plans)
+ * @throws PlannerError if no plan could be made
+ */
+export async function planFeedings(childId: string): Promise<ConstraintPlan> {
   try {
-    const settings = await getSettings()
-    if (!settings) {
-      console.error("Settings not found, cannot plan feedings")
-      throw new Error("Settings not found")
+    const ownSettings = await getSettings(childId)
+    if (!ownSettings) {
+      throw new PlannerError("No feeding settings are saved for this child to plan from")
+    }
+
+    const twin = await getTwin(childId)
+    const twinSettings = twin ? (await getSettings(twin.id)) || DEFAULT_FEEDING_SETTINGS : null
+    const settings = twinSettings ? mergeTwinSettings(ownSettings, twinSettings) : ownSettings
+
+    // Saves the plan, and in twins mode the same slots with the twin's amounts
+    const savePlan = async (plan: PlannedFeeding[]) => {
+      await saveFeedings(childId, plan)
+      if (twin && twinSettings) {
+        await saveFeedings(twin.id, planForTwin(plan, ownSettings, twinSettings))
+      }
     }
 
     // Get current feedings to use as context
-    const currentFeedings = await getFeedings()
-    console.log("Planning feedings with current settings:", JSON.stringify(settings, null, 2))
+    const currentFeedings = await getFeedings(childId)
+    log.info("Planning feedings", { childId, twinId: twin?.id, currentFeedings: currentFeedings.length })
 
     try {
       // Use AI SDK to generate the feeding plan
-      console.log("Generating feeding plan with AI...")
       const prompt = generateFeedingPrompt(settings, currentFeedings)
-      console.log("Using prompt:", prompt)
+      log.debug("Generating feeding plan with AI", { promptLength: prompt.length })
       
       const { text } = await generateText({
-        model: openai("gpt-4o"),
+        model: createOpenAI({ apiKey: getConfig().openaiApiKey })("gpt-4o"),
         prompt: prompt,
         maxTokens: 1000,
       })
       
-      console.log("AI response received:", text.substring(0, 100) + "...")
-
       // Parse the AI response
-      const feedingPlan = parseFeedingPlan(text, settings)
-      console.log("Feeding plan parsed successfully:", feedingPlan.length, "feedings planned")
+      const feedingPlan = parseFeedingPlan(text)
 
       // Save the new feeding plan
-      await saveFeedings(feedingPlan)
-      console.log("Feeding plan saved to Redis")
+      await savePlan(feedingPlan)
+      log.info("Saved the AI feeding plan", { childId, feedings: feedingPlan.length })
+      aiPlannerRuns.inc({ result: "success" })
 
-      return feedingPlan
+      return { feedings: feedingPlan, relaxed: [] }
     } catch (aiError: unknown) {
-      console.error("Error using AI to plan feedings:", aiError)
-      console.error("Error details:", aiError instanceof Error ? aiError.stack : "No stack trace available")
-      console.log("Falling back to rule-based approach...")
+      log.warn("The AI planner failed; falling back to the rule-based planner", { childId, error: aiError })
       
       // If AI generation fails, use the fallback plan
-      const fallbackPlan = generateFallbackPlan(settings)
-      console.log("Generated fallback plan with", fallbackPlan.length, "feedings")
-      await saveFeedings(fallbackPlan)
+      let fallbackPlan: ConstraintPlan
+      try {
+        fallbackPlan = await planWithRules(childId, settings)
+      } catch (fallbackError) {
+        aiPlannerRuns.inc({ result: "failed" })
+        throw new PlannerError(
+          `The AI planner and the rule-based fallback both failed: ${fallbackError instanceof Error ? fallbackError.message : "Unknown error"}`
+        )
+      }
+      await savePlan(fallbackPlan.feedings)
+      log.info("Saved the rule-based feeding plan", {
+        childId,
+        feedings: fallbackPlan.feedings.length,
+        relaxed: fallbackPlan.relaxed.map((each) => each.constraint)
+      })
+      aiPlannerRuns.inc({ result: "fallback" })
       
       return fallbackPlan
     }
   } catch (error: unknown) {
-    console.error("Error planning feedings:", error)
-    console.error("Error details:", error instanceof Error ? error.stack : "No stack trace available")
+    log.error("Error planning feedings", { childId, error })
     throw error
   }
 }
 
-function generateFeedingPrompt(settings: any, currentFeedings: any[]) {
+// Plans with the rule-based planner, counting from the child's last feeding in
+// the past day and aiming for their current recommendation's daily intake
+async function planWithRules(childId: string, settings: FeedingSettings): Promise<ConstraintPlan> {
+  const now = Date.now()
+  const { timeZone } = getConfig()
+  const recent = await getActualFeedings(childId, { from: now - 24 * 60 * 60 * 1000, to: now })
+  const lastFedAt = recent.length > 0 ? getActualFeedingTimestamp(recent[recent.length - 1], timeZone) : undefined
+
+  let dailyIntake
+  try {
+    dailyIntake = (await getProfile(childId)).currentRecommendation.dailyIntake
+  } catch (error) {
+    // A plan with target amounts is better than none
+    log.warn("Planning without a daily intake; the child's profile can't be read", { childId, error })
+  }
+
+  return planWithConstraints({ settings, now, lastFedAt, dailyIntake, timeZone })
+}
+
+function generateFeedingPrompt(settings: FeedingSettings, currentFeedings: PlannedFeeding[]) {
   const now = new Date()
   const formattedDate = now.toISOString()
 
@@ -301,7 +450,7 @@ function generateFeedingPrompt(settings: any, currentFeedings: any[]) {
       settings.lockedFeedings.enabled
         ? `
     Locked feedings (these must be included):
-    ${settings.lockedFeedings.times.map((time: string) => `- ${time}`).join("\n")}
+    ${settings.lockedFeedings.times.map((time) => `- ${time}`).join("\n")}
     `
         : "No locked feedings."
     }
@@ -312,7 +461,7 @@ function generateFeedingPrompt(settings: any, currentFeedings: any[]) {
     Recent feedings:
     ${currentFeedings
       .slice(0, 5)
-      .map((feeding: any) => `- Time: ${feeding.time}, Amount: ${feeding.amount} oz, Completed: ${feeding.isCompleted}`)
+      .map((feeding) => `- Time: ${feeding.time}, Amount: ${feeding.amount} ${feeding.amountUnit}, Completed: ${feeding.isCompleted}`)
       .join("\n")}
     `
         : "No recent feedings."
@@ -327,87 +476,207 @@ function generateFeedingPrompt(settings: any, currentFeedings: any[]) {
   `
 }
 
-function parseFeedingPlan(aiResponse: string, settings: any) {
-  try {
-    // Extract JSON from the AI response
-    const jsonMatch = aiResponse.match(/\[[\s\S]*\]/)
-    if (!jsonMatch) {
-      throw new Error("Could not parse AI response")
-    }
+// Throws if the response has no JSON array of valid feedings, so the caller
+// falls back to the rule-based planner
+function parseFeedingPlan(aiResponse: string): PlannedFeeding[] {
+  // Extract JSON from the AI response
+  const jsonMatch = aiResponse.match(/\[[\s\S]*\]/)
+  if (!jsonMatch) {
+    throw new Error("Could not parse AI response")
+  }
 
-    const feedingData = JSON.parse(jsonMatch[0])
+  const feedingData: unknown = JSON.parse(jsonMatch[0])
 
-    // Process the feeding data
-    return feedingData.map((feeding: any) => ({
-      id: nanoid(),
-      time: feeding.time,
-      amount: feeding.amount,
-      isLocked: feeding.isLocked,
-      isCompleted: false,
-    }))
+  if (!Array.isArray(feedingData)) {
+    throw new Error("AI response is not a list of feedings")
+  }
+
+  // Process the feeding data; checkPlan rejects fields of the wrong type
+  return checkPlan(
+    feedingData.map((feeding: unknown) => {
+      const { time, amount, isLocked } = (feeding ?? {}) as Record<string, unknown>
+      return { id: nanoid(), time, amount, amountUnit: "oz", isLocked, isCompleted: false }
+    })
+  )
+}
+
+/**
+ * Gets the actual feedings that completed a planned feeding
+ * @returns Array of actual feedings with a plannedFeedingId, or empty array if none found
+ */
+export async function getCompletedFeedings(childId: string) {
+  try {
+    const feedings = await getActualFeedings(childId)
+    return feedings.filter((feeding) => feeding.plannedFeedingId)
   } catch (error) {
-    console.error("Error parsing AI response:", error)
+    log.error("Error getting completed feedings", { error })
+    throw error
+  }
+}
 
-    // Fallback: Generate a basic feeding plan
-    return generateFallbackPlan(settings)
+/**
+ * Builds the actual feeding that records a planned feeding being given
+ * @param amount Amount the baby drank, in the planned feeding's unit
+ * @param occurredAt When it was given, in milliseconds since the epoch
+ */
+export function toCompletionFeeding(
+  planned: PlannedFeeding,
+  amount: number,
+  occurredAt: number
+): Omit<ActualFeeding, "id" | "version"> {
+  const sourceUnit: VolumeUnit = planned.amountUnit === "ml" ? "ml" : "oz"
+  const plannedFor = getPlannedFeedingMoment(planned, occurredAt, getConfig().timeZone)
+
+  return {
+    occurredAt: new Date(occurredAt).toISOString(),
+    ...(plannedFor !== null && { plannedFor: new Date(plannedFor).toISOString() }),
+    volumeMl: toMillilitres(amount, sourceUnit),
+    sourceUnit,
+    plannedFeedingId: planned.id
   }
 }
 
-function generateFallbackPlan(settings: any) {
-  const feedings = []
-  const now = new Date()
-  let currentTime = now
-
-  // Add locked feedings if enabled
-  if (settings.lockedFeedings.enabled) {
-    for (const timeString of settings.lockedFeedings.times) {
-      const [hours, minutes] = timeString.split(":").map(Number)
-      const feedingTime = new Date(now)
-      feedingTime.setHours(hours, minutes, 0, 0)
-
-      // If the time has passed today, set it for tomorrow
-      if (feedingTime < now) {
-        feedingTime.setDate(feedingTime.getDate() + 1)
+/**
+ * Marks a planned feeding as completed and logs it as an actual feeding,
+ * linked to the planned feeding. If the actual feeding can't be saved, the
+ * planned feeding is set back to not completed.
+ * @param feedingId ID of the planned feeding to complete
+ * @param actualAmount Amount the baby actually drank, in the planned feeding's unit
+ * @param actor Who made the change, for the audit log
+ * @param occurredAt When it was given, in milliseconds since the epoch
+ * @returns The updated planned and actual feedings, or null if the feeding was not found
+ */
+export async function completeFeeding(
+  childId: string,
+  feedingId: string,
+  actualAmount: number,
+  actor = SYSTEM_ACTOR,
+  occurredAt = Date.now()
+) {
+  try {
+    const storage = getStorage().forChild(childId)
+    let feedingToComplete: PlannedFeeding | undefined
+
+    // Marking the planned feeding completed is atomic, so only one caregiver
+    // can complete it; anyone else gets a ConflictError
+    const plannedFeedings = await storage.plannedFeedings.update((feedings) => {
+      feedingToComplete = feedings.find((feeding) => feeding.id === feedingId)
+      if (feedingToComplete?.isCompleted) {
+        throw new ConflictError("This feeding has already been completed", feedingToComplete)
       }
 
-      feedings.push({
-        id: nanoid(),
-        time: timeString,
-        amount: settings.feedAmounts.target,
-        isLocked: true,
-        isCompleted: false,
-      })
+      return feedings.map((feeding) =>
+        feeding.id === feedingId ? { ...feeding, isCompleted: true } : feeding
+      )
+    })
+
+    if (!feedingToComplete) {
+      return null
     }
+
+    const given: ActualFeeding = {
+      ...toCompletionFeeding(feedingToComplete, actualAmount, occurredAt),
+      id: nanoid(),
+      version: 1
+    }
+    try {
+      await storage.actualFeedings.upsert(given)
+    } catch (error) {
+      await revertCompletion(storage, feedingId, false)
+      throw error
+    }
+    await recordAudit(childId, {
+      actor,
+      entity: "actualFeeding",
+      entityId: given.id,
+      action: "create",
+      before: null,
+      after: given
+    })
+
+    return {
+      planned: keepValidRecords("planned feeding", plannedFeedings, plannedFeedingSchema),
+      actual: await getActualFeedings(childId)
+    }
+  } catch (error) {
+    log.error("Error completing feeding", { error })
+    throw error
   }
+}
 
-  // Add regular feedings to reach 10 total
-  while (feedings.length < 10) {
-    currentTime = new Date(currentTime.getTime() + settings.feedWindows.ideal * 60 * 60 * 1000)
+/**
+ * Reverts completeFeeding: marks the planned feeding as not completed and
+ * removes the actual feeding that completed it. If the actual feeding can't
+ * be removed, the planned feeding is marked completed again and any
+ * completions already removed are put back.
+ * @param feedingId ID of the planned feeding to reopen
+ * @param actor Who made the change, for the audit log
+ * @returns The updated planned and actual feedings, or null if there is neither a planned feeding nor a completion with this id
+ */
+export async function uncompleteFeeding(childId: string, feedingId: string, actor = SYSTEM_ACTOR) {
+  try {
+    const storage = getStorage().forChild(childId)
+    let feedingToReopen: PlannedFeeding | undefined
+
+    // Like completing, reopening the planned feeding is atomic, so two undos
+    // can't both go ahead; the second gets a ConflictError. A feeding that has
+    // since been replaced by a new plan only loses its completion.
+    const plannedFeedings = await storage.plannedFeedings.update((feedings) => {
+      feedingToReopen = feedings.find((feeding) => feeding.id === feedingId)
+      if (feedingToReopen && !feedingToReopen.isCompleted) {
+        throw new ConflictError("This feeding is not completed", feedingToReopen)
+      }
 
-    const hours = currentTime.getHours().toString().padStart(2, "0")
-    const minutes = currentTime.getMinutes().toString().padStart(2, "0")
-    const timeString = `${hours}:${minutes}`
+      return feedings.map((feeding) =>
+        feeding.id === feedingId ? { ...feeding, isCompleted: false } : feeding
+      )
+    })
 
-    // Check if this time conflicts with a locked feeding
-    const isTimeConflict = feedings.some((feeding) => feeding.time === timeString)
+    const completions = (await storage.actualFeedings.list()).filter(
+      (feeding) => feeding.plannedFeedingId === feedingId
+    )
+    if (!feedingToReopen && completions.length === 0) {
+      return null
+    }
 
-    if (!isTimeConflict) {
-      feedings.push({
-        id: nanoid(),
-        time: timeString,
-        amount: settings.feedAmounts.target,
-        isLocked: false,
-        isCompleted: false,
-      })
+    const removed: ActualFeeding[] = []
+    try {
+      for (const completion of completions) {
+        if (await storage.actualFeedings.remove(completion.id)) {
+          removed.push(completion)
+        }
+      }
+    } catch (error) {
+      try {
+        for (const completion of removed) {
+          await storage.actualFeedings.upsert(completion)
+        }
+      } catch (undoError) {
+        log.error("Error putting completions back after uncompleting failed", { error: undoError, feedingId })
+      }
+      if (feedingToReopen) {
+        await revertCompletion(storage, feedingId, true)
+      }
+      throw error
     }
-  }
 
-  // Sort feedings by time
-  return feedings.sort((a, b) => {
-    const [aHours, aMinutes] = a.time.split(":").map(Number)
-    const [bHours, bMinutes] = b.time.split(":").map(Number)
+    for (const completion of removed) {
+      await recordAudit(childId, {
+        actor,
+        entity: "actualFeeding",
+        entityId: completion.id,
+        action: "remove",
+        before: completion,
+        after: null
+      })
+    }
 
-    return aHours * 60 + aMinutes - (bHours * 60 + bMinutes)
-  })
+    return {
+      planned: keepValidRecords("planned feeding", plannedFeedings, plannedFeedingSchema),
+      actual: await getActualFeedings(childId)
+    }
+  } catch (error) {
+    log.error("Error uncompleting feeding", { error })
+    throw error
+  }
 }
-
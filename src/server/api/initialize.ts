@@ -0,0 +1,95 @@
+import { getStorage } from "./storage"
+import { getChildren, getDefaultChild } from "./children"
+import { DEFAULT_FEEDING_SETTINGS } from "./settings"
+import { logger } from "./logger"
+
+const log = logger.child({ module: "initialize" })
+
+/**
+ * Initializes required data in storage if it doesn't exist
+ * This ensures the application always has data to work with
+ * @returns false if the data couldn't be initialized
+ */
+export async function initializeStorageData() {
+  log.info(`Checking ${getStorage().driver} storage data initialization...`)
+
+  try {
+    const storage = getStorage()
+    let dataInitialized = true
+
+    // Make sure there is a child to show, then check each child's data
+    await getDefaultChild()
+    for (const child of await getChildren()) {
+      const childStorage = storage.forChild(child.id)
+
+      // Check profile data
+      const existingProfile = await childStorage.profile.get()
+      if (!existingProfile) {
+        log.info("Profile data missing, initializing...", { childId: child.id })
+        const defaultProfile = {
+          birthDate: "2025-03-20T00:00:00.000Z",
+          ageInDays: 7,
+          currentRecommendation: {
+            date: "2025-03-26",
+            ageInDays: 7,
+            feedingFrequency: { minHours: 2, maxHours: 3 },
+            amountPerFeeding: { minOz: 2, maxOz: 2, minMl: 60, maxMl: 60 },
+            dailyIntake: { minOz: 18, maxOz: 20, minMl: 540, maxMl: 600 }
+          }
+        }
+        await childStorage.profile.save(defaultProfile)
+        dataInitialized = false
+      }
+
+      // Check settings data
+      const existingSettings = await childStorage.settings.get()
+      if (!existingSettings) {
+        log.info("Settings data missing, initializing...", { childId: child.id })
+        await childStorage.settings.save(DEFAULT_FEEDING_SETTINGS)
+        dataInitialized = false
+      }
+    }
+
+    // Check recommendations data
+    const existingRecommendations = await storage.recommendations.list()
+    if (existingRecommendations.length === 0) {
+      log.info("Recommendations data missing, initializing...")
+      const defaultRecommendations = [
+        {
+          date: "2025-03-24",
+          ageInDays: 5,
+          feedingFrequency: { minHours: 2, maxHours: 3 },
+          amountPerFeeding: { minOz: 1.5, maxOz: 2, minMl: 45, maxMl: 60 },
+          dailyIntake: { minOz: 16, maxOz: 20, minMl: 480, maxMl: 600 }
+        },
+        {
+          date: "2025-03-25",
+          ageInDays: 6,
+          feedingFrequency: { minHours: 2, maxHours: 3 },
+          amountPerFeeding: { minOz: 1.5, maxOz: 2, minMl: 45, maxMl: 60 },
+          dailyIntake: { minOz: 16, maxOz: 20, minMl: 480, maxMl: 600 }
+        },
+        {
+          date: "2025-03-26",
+          ageInDays: 7,
+          feedingFrequency: { minHours: 2, maxHours: 3 },
+          amountPerFeeding: { minOz: 2, maxOz: 2, minMl: 60, maxMl: 60 },
+          dailyIntake: { minOz: 18, maxOz: 20, minMl: 540, maxMl: 600 }
+        }
+      ]
+      await storage.recommendations.replaceAll(defaultRecommendations)
+      dataInitialized = false
+    }
+
+    if (dataInitialized) {
+      log.info("All storage data is already initialized.")
+    } else {
+      log.info("Successfully initialized missing storage data.")
+    }
+
+    return true
+  } catch (error) {
+    log.error("Error initializing storage data", { error })
+    return false
+  }
+}
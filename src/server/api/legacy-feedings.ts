@@ -0,0 +1,133 @@
+import type { ActualFeeding, PlannedFeeding, VolumeUnit } from "./feedings"
+import { parseFeedingMoment } from "./feeding-time"
+import { getConfig } from "./config"
+import { ML_PER_OZ, toMillilitres } from "./volume"
+
+// Unit-less amounts up to this size are taken to be ounces, larger ones millilitres
+const MAX_UNITLESS_OZ = 10
+
+// Planned and actual times further apart than this are assumed to straddle midnight
+const HALF_DAY_MS = 12 * 60 * 60 * 1000
+
+/**
+ * Actual feeding as stored before the canonical model: separate date and
+ * clock-time strings in several formats, and an amount as ounces or as text
+ */
+export interface LegacyActualFeeding {
+  id: string
+  date?: string
+  time?: string
+  actualTime?: string
+  planTime?: string
+  // Ounces
+  amount?: number
+  // Free text such as "35 ml"
+  Amount?: string
+  notes?: string
+  version?: number
+}
+
+/**
+ * Completion of a planned feeding as stored before schema version 5: a copy
+ * of the planned feeding in its own collection, apart from the actual
+ * feedings. Migration 5 folds these into the actual feedings.
+ */
+export interface LegacyCompletedFeeding extends PlannedFeeding {
+  completedAt: string
+  // Both in the planned feeding's amountUnit
+  actualAmount: number
+  plannedAmount: number
+}
+
+/**
+ * Checks whether a stored or submitted feeding already uses the canonical model
+ */
+export function isCanonicalActualFeeding(feeding: object): feeding is ActualFeeding {
+  const candidate = feeding as Partial<ActualFeeding>
+  return typeof candidate.occurredAt === "string" && typeof candidate.volumeMl === "number"
+}
+
+/**
+ * Reads a legacy amount: a number of ounces, or text like "35 ml", "2oz" or "1.5"
+ * @returns The volume and the unit it was recorded in, or null if there is no usable amount
+ */
+export function parseLegacyVolume(amount: number | undefined, text: string | undefined) {
+  if (typeof amount === "number" && amount > 0) {
+    return { volumeMl: toMillilitres(amount, "oz"), sourceUnit: "oz" as VolumeUnit }
+  }
+
+  const match = text?.trim().match(/^(\d+(?:\.\d+)?)\s*(ml|cc|oz|ounces?)?\b/i)
+  if (!match) {
+    return null
+  }
+
+  const value = Number(match[1])
+  const unitText = match[2]?.toLowerCase()
+  const sourceUnit: VolumeUnit = unitText
+    ? (unitText.startsWith("o") ? "oz" : "ml")
+    : (value <= MAX_UNITLESS_OZ ? "oz" : "ml")
+
+  return value > 0 ? { volumeMl: toMillilitres(value, sourceUnit), sourceUnit } : null
+}
+
+/**
+ * Converts a feeding in any legacy shape to the canonical model. Canonical
+ * feedings are returned unchanged.
+ *
+ * Planned times are put on the day closest to the actual time, so a feeding
+ * planned for 23:45 and given at 00:10 is planned for the previous evening.
+ * @returns The canonical feeding, or null if the time or amount can't be read
+ */
+export function upgradeActualFeeding(feeding: LegacyActualFeeding | ActualFeeding): ActualFeeding | null {
+  if (isCanonicalActualFeeding(feeding)) {
+    return feeding
+  }
+
+  const legacy = feeding as LegacyActualFeeding
+  // Legacy times without a zone are the household's
+  const { timeZone } = getConfig()
+  const occurredAt = parseFeedingMoment(legacy.date, legacy.actualTime || legacy.time, timeZone)
+  const volume = parseLegacyVolume(legacy.amount, legacy.Amount)
+  if (occurredAt === null || !volume) {
+    return null
+  }
+
+  let plannedFor = parseFeedingMoment(legacy.date, legacy.planTime, timeZone)
+  if (plannedFor !== null && plannedFor - occurredAt > HALF_DAY_MS) {
+    plannedFor -= 2 * HALF_DAY_MS
+  } else if (plannedFor !== null && occurredAt - plannedFor > HALF_DAY_MS) {
+    plannedFor += 2 * HALF_DAY_MS
+  }
+
+  return {
+    id: legacy.id,
+    occurredAt: new Date(occurredAt).toISOString(),
+    ...(plannedFor !== null && { plannedFor: new Date(plannedFor).toISOString() }),
+    ...volume,
+    ...(legacy.notes && { notes: legacy.notes }),
+    ...(legacy.version !== undefined && { version: legacy.version })
+  }
+}
+
+/**
+ * Converts a canonical feeding back to the legacy shape, for rolling back the
+ * migration that introduced the canonical model. Times are written in the
+ * server's local time zone.
+ */
+export function downgradeActualFeeding(feeding: ActualFeeding): LegacyActualFeeding {
+  const formatClock = (date: Date) =>
+    `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`
+  const occurredAt = new Date(feeding.occurredAt)
+  const date = `${occurredAt.getFullYear()}-${String(occurredAt.getMonth() + 1).padStart(2, "0")}-${String(occurredAt.getDate()).padStart(2, "0")}`
+
+  return {
+    id: feeding.id,
+    date,
+    time: formatClock(occurredAt),
+    actualTime: formatClock(occurredAt),
+    planTime: feeding.plannedFor ? formatClock(new Date(feeding.plannedFor)) : formatClock(occurredAt),
+    amount: Math.round((feeding.volumeMl / ML_PER_OZ) * 100) / 100,
+    ...(feeding.notes && { notes: feeding.notes }),
+    ...(feeding.version !== undefined && { version: feeding.version })
+  }
+}
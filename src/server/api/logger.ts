@@ -0,0 +1,174 @@
+import { AsyncLocalStorage } from "async_hooks"
+import type { RequestHandler } from "express"
+import { nanoid } from "nanoid"
+import { getConfig } from "./config"
+
+// The server's logs: one JSON object per line, with a level, a message, the
+// module that wrote it and the id of the request being handled, if any.
+// Anything that could hold a secret or a family's notes is redacted on the
+// way out, so callers can pass whole records and errors as fields.
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const
+
+export type LogLevel = (typeof LOG_LEVELS)[number]
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  // A logger that adds these fields to every entry, e.g. { module: "redis" }
+  child(fields: LogFields): Logger
+}
+
+// Fields whose values are never written, whatever they hold
+const REDACTED_FIELDS = new Set([
+  "notes",
+  "pin",
+  "pinhash",
+  "pinsalt",
+  "sessionsecret",
+  "password",
+  "apikey",
+  "openaiapikey",
+  "token",
+  "cookie",
+  "authorization",
+  "redisurl",
+  "prompt"
+])
+
+const REDACTED = "[redacted]"
+
+// Credentials inside connection strings and OpenAI keys inside free text, e.g.
+// an error message quoting REDIS_URL
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/\b([a-z][a-z0-9+.-]*:\/\/[^:@/\s]*:)[^@/\s]+@/gi, "$1****@"],
+  [/\bsk-[A-Za-z0-9_-]{8,}/g, "sk-****"]
+]
+
+const redactString = (value: string) =>
+  SECRET_PATTERNS.reduce((redacted, [pattern, replacement]) => redacted.replace(pattern, replacement), value)
+
+/**
+ * Copies a value for a log entry with the secrets taken out: redacted fields
+ * are replaced, credentials in strings are masked and errors are reduced to
+ * their name, message, code and stack
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return redactString(value)
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...("code" in value && { code: value.code }),
+      ...(value.stack && { stack: redactString(value.stack) })
+    }
+  }
+  if (value === null || typeof value !== "object") {
+    return value
+  }
+  // Deeply nested data is summarized rather than walked
+  if (depth >= 5) {
+    return Array.isArray(value) ? `[${value.length} items]` : "[object]"
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1))
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      REDACTED_FIELDS.has(key.toLowerCase()) ? REDACTED : redact(field, depth + 1)
+    ])
+  )
+}
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>()
+
+/**
+ * The id of the request being handled, if any
+ */
+export function getRequestId() {
+  return requestContext.getStore()?.requestId
+}
+
+// LOG_LEVEL, or info while the configuration can't be read, e.g. when
+// reporting that it is invalid
+function minimumLevel(): LogLevel {
+  try {
+    return getConfig().logLevel
+  } catch {
+    return "info"
+  }
+}
+
+function write(level: Exclude<LogLevel, "silent">, message: string, fields: LogFields) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimumLevel())) {
+    return
+  }
+
+  const requestId = getRequestId()
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: redactString(message),
+    ...(requestId && { requestId }),
+    ...(redact(fields) as LogFields)
+  }
+  const line = `${JSON.stringify(entry)}\n`
+  if (level === "warn" || level === "error") {
+    process.stderr.write(line)
+  } else {
+    process.stdout.write(line)
+  }
+}
+
+/**
+ * Creates a logger that adds the given fields to every entry
+ */
+export function createLogger(bound: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write("debug", message, { ...bound, ...fields }),
+    info: (message, fields) => write("info", message, { ...bound, ...fields }),
+    warn: (message, fields) => write("warn", message, { ...bound, ...fields }),
+    error: (message, fields) => write("error", message, { ...bound, ...fields }),
+    child: (fields) => createLogger({ ...bound, ...fields })
+  }
+}
+
+export const logger = createLogger()
+
+const log = logger.child({ module: "http" })
+
+// Ids clients may pass in X-Request-Id, e.g. from a proxy
+const REQUEST_ID_PATTERN = /^[\w.-]{1,64}$/
+
+/**
+ * Gives each request an id, from X-Request-Id or a new one, that every log
+ * entry written while handling it carries. The id is sent back in
+ * X-Request-Id, and each request is logged with its status and duration once
+ * answered. Registered first by both entry points.
+ */
+export const requestLogging: RequestHandler = (req, res, next) => {
+  const given = req.get("X-Request-Id")
+  const requestId = given && REQUEST_ID_PATTERN.test(given) ? given : nanoid(12)
+  const startedAt = performance.now()
+
+  res.setHeader("X-Request-Id", requestId)
+  res.on("finish", () => {
+    // Query strings are left out; they can name children and feedings
+    log.info("Request finished", {
+      requestId,
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      status: res.statusCode,
+      durationMs: Math.round(performance.now() - startedAt)
+    })
+  })
+
+  requestContext.run({ requestId }, next)
+}
@@ -0,0 +1,186 @@
+import type { RequestHandler } from "express"
+
+// The server's metrics, kept in memory and served by /api/metrics in the
+// Prometheus text format, so the self-hosted server can be watched with
+// standard tooling. Each process counts for itself: a restart starts again
+// from zero, and every Vercel instance has its own counts.
+
+type Labels = Record<string, string>
+
+interface Metric {
+  name: string
+  help: string
+  type: "counter" | "histogram" | "gauge"
+  // The metric's lines, without HELP and TYPE
+  render(): string[]
+}
+
+const metrics: Metric[] = []
+
+// Latency buckets in seconds, from a cache hit to a slow AI plan
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : ""
+}
+
+// Series are kept by their rendered labels, so label order doesn't matter
+// as long as each call site passes the same names
+const seriesKey = (labels: Labels) => formatLabels(Object.fromEntries(Object.entries(labels).sort()))
+
+export interface Counter {
+  inc(labels?: Labels, by?: number): void
+}
+
+export interface Histogram {
+  observe(labels: Labels, seconds: number): void
+}
+
+/**
+ * Registers a counter, a total that only goes up
+ * @param initial Series to report as 0 until counted, so rates work from the start
+ */
+export function createCounter(name: string, help: string, initial: Labels[] = []): Counter {
+  const series = new Map(initial.map((labels) => [seriesKey(labels), { labels, value: 0 }]))
+  metrics.push({
+    name,
+    help,
+    type: "counter",
+    render: () => [...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`)
+  })
+
+  return {
+    inc(labels = {}, by = 1) {
+      const key = seriesKey(labels)
+      const current = series.get(key) ?? { labels, value: 0 }
+      current.value += by
+      series.set(key, current)
+    }
+  }
+}
+
+/**
+ * Registers a histogram of durations in seconds
+ */
+export function createHistogram(name: string, help: string, buckets = DEFAULT_BUCKETS): Histogram {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>()
+  metrics.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((bound, index) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`
+      ])
+  })
+
+  return {
+    observe(labels, seconds) {
+      const key = seriesKey(labels)
+      const current = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 }
+      buckets.forEach((bound, index) => {
+        if (seconds <= bound) {
+          current.counts[index]++
+        }
+      })
+      current.sum += seconds
+      current.count++
+      series.set(key, current)
+    }
+  }
+}
+
+/**
+ * Registers a gauge whose value is read when the metrics are rendered
+ */
+export function createGauge(name: string, help: string, read: () => number) {
+  metrics.push({ name, help, type: "gauge", render: () => [`${name} ${read()}`] })
+}
+
+/**
+ * Renders every metric in the Prometheus text exposition format
+ */
+export function renderMetrics() {
+  return (
+    metrics
+      .flatMap((metric) => [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render()])
+      .join("\n") + "\n"
+  )
+}
+
+/**
+ * Times a promise, recording its duration and whether it failed
+ */
+export async function timed<T>(histogram: Histogram, labels: Labels, run: () => Promise<T>): Promise<T> {
+  const startedAt = performance.now()
+  let outcome = "ok"
+  try {
+    return await run()
+  } catch (error) {
+    outcome = "error"
+    throw error
+  } finally {
+    histogram.observe({ ...labels, outcome }, (performance.now() - startedAt) / 1000)
+  }
+}
+
+export const httpRequests = createCounter("bottle_planner_http_requests_total", "Requests answered, by route and status")
+
+export const httpRequestDuration = createHistogram(
+  "bottle_planner_http_request_duration_seconds",
+  "Time to answer a request, by route"
+)
+
+export const storageOperationDuration = createHistogram(
+  "bottle_planner_storage_operation_duration_seconds",
+  "Time taken by storage operations, by driver, operation and outcome"
+)
+
+export const aiPlannerRuns = createCounter(
+  "bottle_planner_ai_planner_runs_total",
+  "Feeding plans made, by result: success from the AI planner, fallback to the rule-based planner, or failed",
+  [{ result: "success" }, { result: "fallback" }, { result: "failed" }]
+)
+
+export const redisConnections = createCounter(
+  "bottle_planner_redis_connections_total",
+  "Attempts to connect to Redis, by outcome",
+  [{ outcome: "ok" }, { outcome: "error" }]
+)
+
+export const redisReconnects = createCounter(
+  "bottle_planner_redis_reconnects_total",
+  "Times the Redis client reconnected after losing its connection",
+  [{}]
+)
+
+export const redisErrors = createCounter("bottle_planner_redis_errors_total", "Errors reported by the Redis client", [{}])
+
+createGauge("bottle_planner_process_uptime_seconds", "Seconds since this process started", () => Math.round(process.uptime()))
+
+createGauge("bottle_planner_process_resident_memory_bytes", "Resident memory of this process", () => process.memoryUsage().rss)
+
+/**
+ * Counts and times each request by the route that answered it. Routes are
+ * recorded by their path in the route table, never the requested URL, so
+ * ids and query strings can't create new series. Registered right after
+ * requestLogging by both entry points.
+ */
+export const requestMetrics: RequestHandler = (req, res, next) => {
+  const startedAt = performance.now()
+
+  res.on("finish", () => {
+    // Requests no route answered, e.g. 404s and failed sign-in checks, share one series
+    const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : "unmatched"
+    httpRequests.inc({ method: req.method, route, status: String(res.statusCode) })
+    httpRequestDuration.observe({ method: req.method, route }, (performance.now() - startedAt) / 1000)
+  })
+
+  next()
+}
@@ -0,0 +1,26 @@
+import type { Migration } from "./types"
+
+// Combined feedings key used before planned and actual feedings were split
+const DEPRECATED_FEEDINGS_KEY = "baby:feedings"
+
+/**
+ * Deletes the deprecated "baby:feedings" document (formerly
+ * src/scripts/delete-old-data.ts). Its contents are logged first so they can
+ * be recovered from the migration output if ever needed.
+ */
+export const removeDeprecatedFeedingsKey: Migration = {
+  version: 1,
+  name: "remove-deprecated-feedings-key",
+  description: `Delete the deprecated ${DEPRECATED_FEEDINGS_KEY} key`,
+
+  async up({ storage, log }) {
+    if (!(await storage.keys()).includes(DEPRECATED_FEEDINGS_KEY)) {
+      log(`${DEPRECATED_FEEDINGS_KEY} does not exist, nothing to delete`)
+      return
+    }
+
+    const oldData = await storage.documents.read(DEPRECATED_FEEDINGS_KEY)
+    log(`Backing up ${DEPRECATED_FEEDINGS_KEY} before deletion: ${JSON.stringify(oldData)}`)
+    await storage.documents.remove(DEPRECATED_FEEDINGS_KEY)
+  }
+}
@@ -0,0 +1,63 @@
+import type { ActualFeeding } from "../feedings"
+import type { LegacyActualFeeding } from "../legacy-feedings"
+import { LEGACY_CHILD_KEYS } from "../storage/types"
+import type { Migration } from "./types"
+
+// Original dates of the rewritten feedings, by feeding id, kept for down()
+const BACKUP_KEY = "baby:migrations:isoActualFeedingDates"
+
+// Applies a change to the feedings in their legacy shape
+function mapLegacy(feedings: ActualFeeding[], change: (feeding: LegacyActualFeeding) => LegacyActualFeeding) {
+  return (feedings as unknown as LegacyActualFeeding[]).map(change) as unknown as ActualFeeding[]
+}
+
+/**
+ * Rewrites actual feeding dates such as "2025.03.21" (as imported by the old
+ * add-more-feedings script) to ISO "2025-03-21", so every record sorts and
+ * filters the same way. Runs before the canonical model (migration 3), so it
+ * works on legacy records.
+ */
+export const isoActualFeedingDates: Migration = {
+  version: 2,
+  name: "iso-actual-feeding-dates",
+  description: "Store actual feeding dates as YYYY-MM-DD",
+
+  async up({ storage, log }) {
+    const originalDates: Record<string, string> =
+      (await storage.documents.read<Record<string, string>>(BACKUP_KEY)) || {}
+
+    await storage.forKeys(LEGACY_CHILD_KEYS).actualFeedings.update((feedings) =>
+      mapLegacy(feedings, (feeding) => {
+        const match = feeding.date?.match(/^(\d{4})[./](\d{1,2})[./](\d{1,2})$/)
+        if (!match) {
+          return feeding
+        }
+
+        const [, year, month, day] = match
+        const date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`
+        originalDates[feeding.id] = feeding.date!
+        log(`${feeding.id}: ${feeding.date} -> ${date}`)
+        return { ...feeding, date }
+      })
+    )
+
+    await storage.documents.write(BACKUP_KEY, originalDates)
+  },
+
+  async down({ storage, log }) {
+    const originalDates = (await storage.documents.read<Record<string, string>>(BACKUP_KEY)) || {}
+
+    await storage.forKeys(LEGACY_CHILD_KEYS).actualFeedings.update((feedings) =>
+      mapLegacy(feedings, (feeding) => {
+        if (!(feeding.id in originalDates)) {
+          return feeding
+        }
+
+        log(`${feeding.id}: ${feeding.date} -> ${originalDates[feeding.id]}`)
+        return { ...feeding, date: originalDates[feeding.id] }
+      })
+    )
+
+    await storage.documents.remove(BACKUP_KEY)
+  }
+}
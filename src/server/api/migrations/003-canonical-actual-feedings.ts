@@ -0,0 +1,75 @@
+import type { ActualFeeding } from "../feedings"
+import {
+  downgradeActualFeeding,
+  upgradeActualFeeding,
+  type LegacyActualFeeding
+} from "../legacy-feedings"
+import { LEGACY_CHILD_KEYS } from "../storage/types"
+import type { Migration } from "./types"
+
+// Original records, kept so down() can restore them exactly
+const BACKUP_KEY = "baby:migrations:canonicalActualFeedings"
+
+interface Backup {
+  // Legacy records that were converted, by id
+  originals: Record<string, LegacyActualFeeding>
+  // Legacy records whose time or amount couldn't be read; taken out of the list
+  unreadable: LegacyActualFeeding[]
+}
+
+/**
+ * Converts every actual feeding to the canonical model (occurredAt, plannedFor,
+ * volumeMl, sourceUnit). Records that can't be converted are moved to the
+ * backup document and logged, so one bad row doesn't block the upgrade.
+ */
+export const canonicalActualFeedings: Migration = {
+  version: 3,
+  name: "canonical-actual-feedings",
+  description: "Store actual feedings as ISO instants and millilitres",
+
+  async up({ storage, log }) {
+    const previous: Backup = (await storage.documents.read<Backup>(BACKUP_KEY)) || { originals: {}, unreadable: [] }
+    let backup = previous
+
+    await storage.forKeys(LEGACY_CHILD_KEYS).actualFeedings.update((feedings) => {
+      const converted: ActualFeeding[] = []
+      backup = { originals: { ...previous.originals }, unreadable: [...previous.unreadable] }
+
+      for (const feeding of feedings as (ActualFeeding | LegacyActualFeeding)[]) {
+        const canonical = upgradeActualFeeding(feeding)
+        if (canonical === feeding) {
+          converted.push(canonical)
+        } else if (canonical) {
+          backup.originals[feeding.id] = feeding as LegacyActualFeeding
+          converted.push(canonical)
+        } else {
+          log(`Can't read feeding ${feeding.id}, moving it to ${BACKUP_KEY}: ${JSON.stringify(feeding)}`)
+          backup.unreadable.push(feeding as LegacyActualFeeding)
+        }
+      }
+
+      return converted
+    })
+
+    await storage.documents.write(BACKUP_KEY, backup)
+  },
+
+  async down({ storage, log }) {
+    const backup: Backup = (await storage.documents.read<Backup>(BACKUP_KEY)) || { originals: {}, unreadable: [] }
+
+    await storage.forKeys(LEGACY_CHILD_KEYS).actualFeedings.update((feedings) => {
+      const legacy = feedings.map((feeding) => {
+        const original = backup.originals[feeding.id]
+        // Feedings edited since the upgrade are converted back instead of restored
+        return original && original.version === feeding.version ? original : downgradeActualFeeding(feeding)
+      })
+
+      if (backup.unreadable.length > 0) {
+        log(`Restoring ${backup.unreadable.length} unreadable feeding(s)`)
+      }
+      return [...legacy, ...backup.unreadable] as unknown as ActualFeeding[]
+    })
+
+    await storage.documents.remove(BACKUP_KEY)
+  }
+}
@@ -0,0 +1,86 @@
+import { nanoid } from "nanoid"
+import { DEFAULT_CHILD_NAME, type Child } from "../children"
+import { clearChildData } from "../storage"
+import {
+  LEGACY_CHILD_KEYS,
+  STORAGE_KEYS,
+  getChildStorageKeys,
+  type ChildStorage
+} from "../storage/types"
+import type { Migration } from "./types"
+
+// Copies everything that exists in one child namespace over the other
+async function copyChildData(from: ChildStorage, to: ChildStorage, log: (message: string) => void) {
+  const profile = await from.profile.get()
+  if (profile) {
+    await to.profile.save(profile)
+  }
+
+  const settings = await from.settings.get()
+  if (settings) {
+    await to.settings.save(settings)
+  }
+
+  const planned = await from.plannedFeedings.list()
+  if (planned.length > 0) {
+    await to.plannedFeedings.replaceAll(planned)
+  }
+
+  const actual = await from.actualFeedings.list()
+  if (actual.length > 0) {
+    await to.actualFeedings.replaceAll(actual)
+  }
+
+  const completed = await from.completedFeedings.list()
+  if (completed.length > 0) {
+    await to.completedFeedings.replaceAll(completed)
+  }
+
+  log(
+    `Copied ${profile ? "profile" : "no profile"}, ${settings ? "settings" : "no settings"}, ` +
+      `${planned.length} planned, ${actual.length} actual and ${completed.length} completed feedings`
+  )
+}
+
+/**
+ * Moves the single baby's data from the global keys ("baby:profile",
+ * "baby:actualFeedings", ...) into the namespace of a first child, so a
+ * household can add more children.
+ *
+ * The child is saved before its data is copied, so a rerun after an
+ * interruption copies into the same child instead of creating another.
+ */
+export const households: Migration = {
+  version: 4,
+  name: "households",
+  description: "Move the stored data into a first child's namespace",
+
+  async up({ storage, log }) {
+    let child: Child = (await storage.children.list())[0]
+    if (!child) {
+      child = { id: nanoid(), name: DEFAULT_CHILD_NAME, createdAt: new Date().toISOString(), version: 1 }
+      await storage.children.replaceAll([child])
+      log(`Added child "${child.name}" (${child.id})`)
+    }
+
+    await copyChildData(storage.forKeys(LEGACY_CHILD_KEYS), storage.forChild(child.id), log)
+    await clearChildData(storage, LEGACY_CHILD_KEYS)
+  },
+
+  async down({ storage, log }) {
+    const children = await storage.children.list()
+    if (children.length > 1) {
+      throw new Error(
+        `Can't roll back while the household has ${children.length} children. Remove all but one first.`
+      )
+    }
+
+    if (children.length === 1) {
+      log(`Moving data of child "${children[0].name}" (${children[0].id}) back to the global keys`)
+      await copyChildData(storage.forChild(children[0].id), storage.forKeys(LEGACY_CHILD_KEYS), log)
+      await clearChildData(storage, getChildStorageKeys(children[0].id))
+    }
+
+    await storage.documents.remove(STORAGE_KEYS.CHILDREN)
+  }
+}
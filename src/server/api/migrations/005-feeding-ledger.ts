@@ -0,0 +1,178 @@
+import { nanoid } from "nanoid"
+import { toCompletionFeeding, type ActualFeeding, type PlannedFeeding } from "../feedings"
+import { getCompletedFeedingTimestamp, getWallClock } from "../feeding-time"
+import { getConfig } from "../config"
+import type { LegacyCompletedFeeding } from "../legacy-feedings"
+import { fromMillilitres } from "../volume"
+import type { Migration } from "./types"
+
+// What each child's upgrade changed, by child id, kept for down()
+const BACKUP_KEY = "baby:migrations:feedingLedger"
+
+// A feeding logged by hand this close to a completion is taken to be the same feeding
+const DUPLICATE_WINDOW_MS = 30 * 60 * 1000
+
+interface Backup {
+  // The completion records that were folded into the actual feedings
+  completions: LegacyCompletedFeeding[]
+  // Feedings logged by hand that were linked to a completion instead of adding another
+  linked: string[]
+}
+
+// The unlinked feeding logged by hand closest to a completion, if any is close enough
+function findDuplicate(feedings: ActualFeeding[], completion: Omit<ActualFeeding, "id" | "version">) {
+  const references = [completion.occurredAt, completion.plannedFor]
+    .filter((instant): instant is string => !!instant)
+    .map(Date.parse)
+
+  let closest: { feeding: ActualFeeding; distance: number } | null = null
+  for (const feeding of feedings) {
+    if (feeding.plannedFeedingId) {
+      continue
+    }
+
+    const distance = feeding.plannedFor && feeding.plannedFor === completion.plannedFor
+      ? 0
+      : Math.min(...references.map((reference) => Math.abs(Date.parse(feeding.occurredAt) - reference)))
+    if (distance <= DUPLICATE_WINDOW_MS && (!closest || distance < closest.distance)) {
+      closest = { feeding, distance }
+    }
+  }
+  return closest?.feeding ?? null
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+// Rebuilds the completion record of a feeding completed after the upgrade.
+// Planned times are "HH:MM" in the household's time zone.
+function toLegacyCompletion(feeding: ActualFeeding, plan: PlannedFeeding[]): LegacyCompletedFeeding {
+  const amount = fromMillilitres(feeding.volumeMl, feeding.sourceUnit)
+  const { hours, minutes } = getWallClock(Date.parse(feeding.plannedFor ?? feeding.occurredAt), getConfig().timeZone)
+  const planned = plan.find((each) => each.id === feeding.plannedFeedingId) ?? {
+    id: feeding.plannedFeedingId!,
+    time: `${pad(hours)}:${pad(minutes)}`,
+    amount,
+    amountUnit: feeding.sourceUnit,
+    isLocked: false,
+    isCompleted: true,
+    generatedAt: feeding.occurredAt
+  }
+
+  return {
+    ...planned,
+    isCompleted: true,
+    completedAt: feeding.occurredAt,
+    actualAmount: amount,
+    plannedAmount: planned.amount
+  }
+}
+
+/**
+ * Folds each child's completed feedings into their actual feedings, so every
+ * feeding given is counted once in one ledger. A completion becomes an actual
+ * feeding linked to the planned feeding by plannedFeedingId; when a feeding
+ * logged by hand within DUPLICATE_WINDOW_MS already records it, that feeding
+ * is linked instead of adding a second one.
+ */
+export const feedingLedger: Migration = {
+  version: 5,
+  name: "feeding-ledger",
+  description: "Record completed feedings as actual feedings linked to the planned feeding",
+
+  async up({ storage, log }) {
+    const backups: Record<string, Backup> = (await storage.documents.read<Record<string, Backup>>(BACKUP_KEY)) || {}
+
+    for (const child of await storage.children.list()) {
+      const scope = storage.forChild(child.id)
+      const completions = await scope.completedFeedings.list()
+      if (completions.length === 0) {
+        continue
+      }
+
+      const previous = backups[child.id] || { completions: [], linked: [] }
+      let linked: string[] = []
+      await scope.actualFeedings.update((feedings) => {
+        const ledger = [...feedings]
+        linked = [...previous.linked]
+
+        for (const completion of completions) {
+          // Already folded in by an interrupted run
+          if (ledger.some((feeding) => feeding.plannedFeedingId === completion.id)) {
+            continue
+          }
+
+          const entry = toCompletionFeeding(
+            completion,
+            completion.actualAmount,
+            getCompletedFeedingTimestamp(completion) || Date.now()
+          )
+          const duplicate = findDuplicate(ledger, entry)
+          if (duplicate) {
+            log(`${child.name}: completion ${completion.id} is feeding ${duplicate.id}, linking them`)
+            ledger[ledger.indexOf(duplicate)] = {
+              ...duplicate,
+              plannedFeedingId: completion.id,
+              version: (duplicate.version ?? 0) + 1
+            }
+            linked.push(duplicate.id)
+          } else {
+            ledger.push({ ...entry, id: nanoid(), version: 1 })
+          }
+        }
+
+        return ledger
+      })
+
+      backups[child.id] = {
+        completions: [...previous.completions.filter((each) => !completions.some((c) => c.id === each.id)), ...completions],
+        linked
+      }
+      await storage.documents.write(BACKUP_KEY, backups)
+      await scope.completedFeedings.replaceAll([])
+      log(`${child.name}: folded ${completions.length} completed feeding(s) into the actual feedings`)
+    }
+  },
+
+  async down({ storage, log }) {
+    const backups: Record<string, Backup> = (await storage.documents.read<Record<string, Backup>>(BACKUP_KEY)) || {}
+
+    for (const child of await storage.children.list()) {
+      const scope = storage.forChild(child.id)
+      const backup = backups[child.id] || { completions: [], linked: [] }
+      const feedings = await scope.actualFeedings.list()
+      const plan = await scope.plannedFeedings.list()
+
+      // The original records, plus records for feedings completed since the upgrade
+      const completions = new Map(backup.completions.map((completion) => [completion.id, completion]))
+      for (const feeding of feedings) {
+        if (feeding.plannedFeedingId && !backup.linked.includes(feeding.id) && !completions.has(feeding.plannedFeedingId)) {
+          completions.set(feeding.plannedFeedingId, toLegacyCompletion(feeding, plan))
+        }
+      }
+      if (completions.size === 0) {
+        continue
+      }
+
+      // Written before the feedings are taken out, so an interrupted run loses nothing
+      await scope.completedFeedings.update((stored) => [
+        ...stored.filter((completion) => !completions.has(completion.id)),
+        ...completions.values()
+      ])
+      await scope.actualFeedings.update((current) =>
+        current.flatMap((feeding) => {
+          if (!feeding.plannedFeedingId) {
+            return [feeding]
+          }
+          if (!backup.linked.includes(feeding.id)) {
+            return []
+          }
+          const { plannedFeedingId, ...unlinked } = feeding
+          return [{ ...unlinked, version: (feeding.version ?? 0) + 1 }]
+        })
+      )
+      log(`${child.name}: moved ${completions.size} completed feeding(s) back out of the actual feedings`)
+    }
+
+    await storage.documents.remove(BACKUP_KEY)
+  }
+}
@@ -0,0 +1,111 @@
+import type {
+  ChildStorage,
+  ChildStorageKeys,
+  CollectionRepository,
+  DocumentRepository,
+  DocumentStore,
+  RecordRepository,
+  Storage,
+  VersionedRecord
+} from "../storage/types"
+import { getChildStorageKeys } from "../storage/types"
+
+/**
+ * Wraps storage so reads pass through but every write is only logged. Each
+ * migration in a dry run therefore sees the data as it is now, not as earlier
+ * pending steps would have left it.
+ * @param storage The real storage
+ * @param log Receives a description of each skipped write
+ */
+export function createDryRunStorage(storage: Storage, log: (message: string) => void): Storage {
+  function collection<T>(name: string, repository: CollectionRepository<T>): CollectionRepository<T> {
+    return {
+      list: () => repository.list(),
+      async replaceAll(items: T[]) {
+        log(`would replace ${name} with ${items.length} items`)
+      },
+      async update(mutate: (items: T[]) => T[]) {
+        const items = mutate(await repository.list())
+        log(`would replace ${name} with ${items.length} items`)
+        return items
+      }
+    }
+  }
+
+  function records<T extends VersionedRecord>(name: string, repository: RecordRepository<T>): RecordRepository<T> {
+    return {
+      ...collection(name, repository),
+      get: (id: string) => repository.get(id),
+      range: (from: number, to: number) => repository.range(from, to),
+      async upsert(item: T) {
+        log(`would write ${name} record ${item.id}`)
+      },
+      async patch(id: string, changes: Partial<Omit<T, "id" | "version">>) {
+        const current = await repository.get(id)
+        log(`would update ${name} record ${id}`)
+        return current ? { ...current, ...changes } : null
+      },
+      async remove(id: string) {
+        log(`would remove ${name} record ${id}`)
+        return (await repository.get(id)) !== null
+      }
+    }
+  }
+
+  function document<T>(name: string, repository: DocumentRepository<T>): DocumentRepository<T> {
+    return {
+      get: () => repository.get(),
+      async save() {
+        log(`would save ${name}`)
+      },
+      async update(mutate: (current: T | null) => T) {
+        const value = mutate(await repository.get())
+        log(`would save ${name}`)
+        return value
+      }
+    }
+  }
+
+  const documents: DocumentStore = {
+    driver: storage.documents.driver,
+    read: (key) => storage.documents.read(key),
+    async write(key) {
+      log(`would write ${key}`)
+    },
+    async update<T>(key: string, mutate: (current: T | null) => T) {
+      log(`would update ${key}`)
+      return mutate(await storage.documents.read<T>(key))
+    },
+    async remove(key) {
+      log(`would delete ${key}`)
+    },
+    keys: () => storage.documents.keys(),
+    ping: () => storage.documents.ping(),
+    close: () => storage.documents.close()
+  }
+
+  function child(keys: ChildStorageKeys, scope: ChildStorage): ChildStorage {
+    return {
+      plannedFeedings: collection(keys.PLANNED_FEEDINGS, scope.plannedFeedings),
+      actualFeedings: records(keys.ACTUAL_FEEDINGS, scope.actualFeedings),
+      completedFeedings: records(keys.COMPLETED_FEEDINGS, scope.completedFeedings),
+      auditLog: records(keys.AUDIT_LOG, scope.auditLog),
+      trash: records(keys.TRASH, scope.trash),
+      settings: document(keys.SETTINGS, scope.settings),
+      profile: document(keys.PROFILE, scope.profile)
+    }
+  }
+
+  const forKeys = (keys: ChildStorageKeys) => child(keys, storage.forKeys(keys))
+
+  return {
+    ...storage,
+    children: collection("children", storage.children),
+    recommendations: collection("recommendations", storage.recommendations),
+    forChild: (childId) => child(getChildStorageKeys(childId), storage.forChild(childId)),
+    forKeys,
+    schema: document("schema version", storage.schema),
+    household: document("household", storage.household),
+    documents
+  }
+}
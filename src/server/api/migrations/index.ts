@@ -0,0 +1,297 @@
+/**
+ * Schema migrations for the stored planner data
+ *
+ * The data's schema version is stored under STORAGE_KEYS.SCHEMA. Steps from
+ * the registry are applied in order and the version is saved after each one,
+ * so an interrupted run picks up where it stopped. Only the process holding
+ * the migration lease, kept in the same document, applies steps; servers that
+ * start meanwhile wait for it to finish. Servers refuse to start
+ * when the stored version is newer than the code knows about, which happens
+ * when an older deployment runs against data migrated by a newer one.
+ *
+ * Run by hand with: npx tsx src/scripts/migrate.ts
+ */
+
+import { randomUUID } from "crypto"
+import { getStorage, type Storage } from "../storage"
+import { createDryRunStorage } from "./dry-run-storage"
+import { MIGRATIONS, LATEST_SCHEMA_VERSION } from "./registry"
+import type { Migration, MigrationContext, SchemaState } from "./types"
+import { logger } from "../logger"
+
+export * from "./types"
+export { MIGRATIONS, LATEST_SCHEMA_VERSION } from "./registry"
+
+// Named so it isn't shadowed by the log option of runMigrations, which
+// scripts leave printing to the console
+const migrationLog = logger.child({ module: "migrations" })
+
+/**
+ * Thrown when the stored data is at a schema version this code doesn't know
+ */
+export class UnknownSchemaVersionError extends Error {
+  constructor(readonly storedVersion: number) {
+    super(
+      `Stored data is at schema version ${storedVersion}, but this build only knows versions up to ` +
+        `${LATEST_SCHEMA_VERSION}. Deploy a newer build or roll the data back before starting.`
+    )
+    this.name = "UnknownSchemaVersionError"
+  }
+}
+
+/**
+ * Thrown when another process holds the migration lease
+ */
+export class MigrationInProgressError extends Error {
+  constructor(readonly expiresAt: string) {
+    super(`Another server is migrating the stored data; its lease runs until ${expiresAt}`)
+    this.name = "MigrationInProgressError"
+  }
+}
+
+// How long a lease lasts without being renewed; each step renews it
+const LEASE_MS = 2 * 60 * 1000
+
+// How long ensureLatestSchema waits for another server's migration to finish
+const LEASE_WAIT_MS = 15 * 1000
+const LEASE_POLL_MS = 500
+
+const EMPTY_SCHEMA_STATE: SchemaState = { version: 0, updatedAt: new Date(0).toISOString(), history: [] }
+
+interface MigrationOptions {
+  // Log the writes each step would make instead of applying them
+  dryRun?: boolean
+  // Schema version to migrate to
+  to?: number
+  log?: (message: string) => void
+}
+
+interface RunMigrationOptions extends MigrationOptions {
+  // Schema version the stored data is really at, when it is older than the
+  // stored version says, e.g. after restoring an older backup
+  from?: number
+}
+
+// Catches registry mistakes (duplicates, gaps, wrong order) before anything runs
+function validateRegistry() {
+  MIGRATIONS.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migration "${migration.name}" has version ${migration.version}, expected ${index + 1}`
+      )
+    }
+  })
+}
+
+// Takes the lease, or renews it for its holder
+async function takeLease(storage: Storage, owner: string) {
+  const now = Date.now()
+  await storage.schema.update((current) => {
+    const state = current ?? EMPTY_SCHEMA_STATE
+    if (state.lease && state.lease.owner !== owner && Date.parse(state.lease.expiresAt) > now) {
+      throw new MigrationInProgressError(state.lease.expiresAt)
+    }
+    return { ...state, lease: { owner, expiresAt: new Date(now + LEASE_MS).toISOString() } }
+  })
+}
+
+async function releaseLease(storage: Storage, owner: string) {
+  await storage.schema.update((current) => {
+    const { lease, ...state } = current ?? EMPTY_SCHEMA_STATE
+    // A lease taken over after it expired is the new holder's to release
+    return lease?.owner === owner ? state : current ?? EMPTY_SCHEMA_STATE
+  })
+}
+
+/**
+ * Runs steps while holding the migration lease. The stored version is read
+ * once the lease is held, since whoever held it before may have moved it on.
+ * @throws MigrationInProgressError if another process holds the lease
+ */
+async function withLease<T>(storage: Storage, run: (owner: string, current: number) => Promise<T>) {
+  const owner = randomUUID()
+  await takeLease(storage, owner)
+  try {
+    return await run(owner, await assertSchemaSupported())
+  } finally {
+    await releaseLease(storage, owner)
+  }
+}
+
+// Saves the version after a step, renewing the lease. The step is only
+// recorded if the lease is still this process's.
+async function saveSchemaVersion(storage: Storage, owner: string, migration: Migration, direction: "up" | "down") {
+  const appliedAt = new Date().toISOString()
+  await storage.schema.update((current) => {
+    const state = current ?? EMPTY_SCHEMA_STATE
+    if (state.lease?.owner !== owner) {
+      throw new Error(`Lost the migration lease while applying migration ${migration.version}`)
+    }
+    return {
+      version: direction === "up" ? migration.version : migration.version - 1,
+      updatedAt: appliedAt,
+      history: [...state.history, { version: migration.version, name: migration.name, direction, appliedAt }],
+      lease: { owner, expiresAt: new Date(Date.now() + LEASE_MS).toISOString() }
+    }
+  })
+}
+
+function createContext(storage: Storage, dryRun: boolean, log: (message: string) => void): MigrationContext {
+  return {
+    storage: dryRun ? createDryRunStorage(storage, (message) => log(`  [dry run] ${message}`)) : storage,
+    dryRun,
+    log: (message) => log(`  ${message}`)
+  }
+}
+
+/**
+ * Gets the schema version of the stored data (0 if it has never been migrated)
+ */
+export async function getSchemaVersion() {
+  try {
+    const state = await getStorage().schema.get()
+    return state?.version ?? 0
+  } catch (error) {
+    migrationLog.error("Error getting schema version", { error })
+    throw error
+  }
+}
+
+/**
+ * Gets the stored schema version and the migrations that haven't been applied yet
+ */
+export async function getMigrationStatus() {
+  const current = await getSchemaVersion()
+  return {
+    current,
+    latest: LATEST_SCHEMA_VERSION,
+    pending: MIGRATIONS.filter((migration) => migration.version > current)
+  }
+}
+
+/**
+ * Throws an UnknownSchemaVersionError if the stored data is newer than this code
+ * @returns The stored schema version
+ */
+export async function assertSchemaSupported() {
+  const current = await getSchemaVersion()
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new UnknownSchemaVersionError(current)
+  }
+  return current
+}
+
+/**
+ * Applies pending migrations in order
+ * @param options.to Version to stop at, defaults to the latest
+ * @param options.from Version to start from instead of the stored one, which it may not be above
+ * @param options.dryRun Only log what each step would write
+ * @returns The migrations that were applied (or would be, in a dry run)
+ */
+export async function runMigrations({
+  dryRun = false,
+  to = LATEST_SCHEMA_VERSION,
+  from,
+  log = console.log
+}: RunMigrationOptions = {}) {
+  validateRegistry()
+  const storage = getStorage()
+
+  const migrate = async (stored: number, owner?: string) => {
+    if (from !== undefined && (from < 0 || from > stored)) {
+      throw new Error(`Can't migrate from version ${from}, the data is stored at ${stored}`)
+    }
+    const current = from ?? stored
+    if (to > LATEST_SCHEMA_VERSION || to < current) {
+      throw new Error(`Can't migrate from version ${current} to ${to}`)
+    }
+
+    const steps = MIGRATIONS.filter((migration) => migration.version > current && migration.version <= to)
+    const context = createContext(storage, dryRun, log)
+
+    for (const migration of steps) {
+      log(`${dryRun ? "Would apply" : "Applying"} migration ${migration.version}: ${migration.description}`)
+      await migration.up(context)
+      if (owner) {
+        await saveSchemaVersion(storage, owner, migration, "up")
+      }
+    }
+
+    return steps
+  }
+
+  // Nothing is written without pending steps, or in a dry run, so neither
+  // takes the lease
+  const stored = await assertSchemaSupported()
+  if (dryRun || (from ?? stored) >= to) {
+    return migrate(stored)
+  }
+  return withLease(storage, (owner, leased) => migrate(leased, owner))
+}
+
+/**
+ * Reverts applied migrations, newest first, down to the given version. Nothing
+ * is reverted if any of the steps can't be rolled back.
+ * @param options.to Version to roll back to
+ * @param options.dryRun Only log what each step would write
+ * @returns The migrations that were rolled back (or would be, in a dry run)
+ */
+export async function rollbackMigrations({ dryRun = false, to, log = console.log }: MigrationOptions & { to: number }) {
+  validateRegistry()
+  const storage = getStorage()
+
+  const rollBack = async (current: number, owner?: string) => {
+    if (to < 0 || to > current) {
+      throw new Error(`Can't roll back from version ${current} to ${to}`)
+    }
+
+    const steps = MIGRATIONS.filter((migration) => migration.version > to && migration.version <= current).reverse()
+    const irreversible = steps.find((migration) => !migration.down)
+    if (irreversible) {
+      throw new Error(`Migration ${irreversible.version} (${irreversible.name}) can't be rolled back`)
+    }
+
+    const context = createContext(storage, dryRun, log)
+
+    for (const migration of steps) {
+      log(`${dryRun ? "Would roll back" : "Rolling back"} migration ${migration.version}: ${migration.description}`)
+      await migration.down!(context)
+      if (owner) {
+        await saveSchemaVersion(storage, owner, migration, "down")
+      }
+    }
+
+    return steps
+  }
+
+  if (dryRun) {
+    return rollBack(await assertSchemaSupported())
+  }
+  return withLease(storage, (owner, current) => rollBack(current, owner))
+}
+
+/**
+ * Brings the stored data up to the latest schema before a server starts
+ * serving requests. While another server holds the migration lease, waits up
+ * to LEASE_WAIT_MS for it to finish.
+ * @throws UnknownSchemaVersionError if the data is newer than this code
+ * @throws MigrationInProgressError if the other server is still migrating
+ */
+export async function ensureLatestSchema() {
+  const giveUpAt = Date.now() + LEASE_WAIT_MS
+  for (;;) {
+    try {
+      const applied = await runMigrations({ log: (message) => migrationLog.info(message) })
+      if (applied.length > 0) {
+        migrationLog.info(`Migrated stored data to schema version ${LATEST_SCHEMA_VERSION}`)
+      }
+      return
+    } catch (error) {
+      if (!(error instanceof MigrationInProgressError) || Date.now() >= giveUpAt) {
+        throw error
+      }
+      migrationLog.info("Waiting for another server to finish migrating", { leaseExpiresAt: error.expiresAt })
+      await new Promise((resolve) => setTimeout(resolve, LEASE_POLL_MS))
+    }
+  }
+}
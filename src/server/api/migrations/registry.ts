@@ -0,0 +1,23 @@
+import { removeDeprecatedFeedingsKey } from "./001-remove-deprecated-feedings-key"
+import { isoActualFeedingDates } from "./002-iso-actual-feeding-dates"
+import { canonicalActualFeedings } from "./003-canonical-actual-feedings"
+import { households } from "./004-households"
+import { feedingLedger } from "./005-feeding-ledger"
+import type { Migration } from "./types"
+
+/**
+ * Every schema migration, oldest first. Add new steps to the end with the next
+ * version number; never renumber or remove a step that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  removeDeprecatedFeedingsKey,
+  isoActualFeedingDates,
+  canonicalActualFeedings,
+  households,
+  feedingLedger
+]
+
+/**
+ * Schema version the current code expects the stored data to be at
+ */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.length
@@ -0,0 +1,58 @@
+import type { Storage } from "../storage/types"
+
+/**
+ * Everything a migration step gets to work with
+ */
+export interface MigrationContext {
+  // Storage to read and reshape. In a dry run, writes are logged instead of applied
+  storage: Storage
+  dryRun: boolean
+  log(message: string): void
+}
+
+/**
+ * One step in the stored data's schema history.
+ *
+ * Steps must be safe to run against data that is already (partly) in the new
+ * shape, since an interrupted run is simply started again.
+ */
+export interface Migration {
+  // Schema version the data is at after this step; versions start at 1 and have no gaps
+  version: number
+  name: string
+  description: string
+  up(context: MigrationContext): Promise<void>
+  // Reverts the step; steps without down() can't be rolled back
+  down?(context: MigrationContext): Promise<void>
+}
+
+/**
+ * Record of a migration step being applied or rolled back
+ */
+export interface SchemaHistoryEntry {
+  version: number
+  name: string
+  direction: "up" | "down"
+  appliedAt: string
+}
+
+/**
+ * Held by the process that is migrating, so that servers starting at the same
+ * time don't run the same steps at once
+ */
+export interface MigrationLease {
+  // Random id of the process holding it
+  owner: string
+  // Others may take it over after this, in case the holder died (ISO instant)
+  expiresAt: string
+}
+
+/**
+ * Schema version stored alongside the planner data
+ */
+export interface SchemaState {
+  version: number
+  updatedAt: string
+  history: SchemaHistoryEntry[]
+  lease?: MigrationLease
+}
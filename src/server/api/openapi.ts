@@ -0,0 +1,356 @@
+import { z, type ZodTypeAny } from "zod"
+import type { RequestHandler } from "express"
+import { ERROR_CODES } from "./errors"
+import { SESSION_COOKIE } from "./auth"
+import type { Role } from "./contract"
+
+// The OpenAPI document describing the API, and the docs page that shows it.
+// Both are built from the route definitions in routes.ts, so they can't
+// drift from what the server actually serves.
+
+export interface RouteDefinition {
+  method: "get" | "post"
+  path: string
+  summary: string
+  handler: RequestHandler
+  // Answered without a session, e.g. health checks and signing in
+  public?: boolean
+  // The least role a session needs; see requiredRole for the default
+  role?: Role
+  // Checked before the handler runs; an invalid request is answered with 400
+  body?: ZodTypeAny
+  query?: ZodTypeAny
+  // Documents a body the handler reads itself, e.g. one that may also have
+  // the legacy fields
+  documentedBody?: ZodTypeAny
+  // Failures this route answers with besides 400 for invalid input and 500
+  errors?: Record<number, string>
+  // The content type of a successful response that isn't JSON
+  responseType?: string
+}
+
+type JsonSchema = Record<string, unknown>
+
+interface OpenApiResponse {
+  description: string
+  content: Record<string, { schema: JsonSchema }>
+}
+
+type OpenApiParameter =
+  | { $ref: string }
+  | { name: string; in: "query"; required: boolean; schema: JsonSchema }
+
+// One route's entry in the OpenAPI document
+interface OpenApiOperation {
+  summary: string
+  tags: string[]
+  security?: []
+  parameters: OpenApiParameter[]
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> }
+  responses: Record<string, OpenApiResponse>
+}
+
+/**
+ * The least role a session needs for a route. Anyone signed in can read, and
+ * only the owner can change anything unless the route lets caregivers in, so
+ * a new endpoint starts out owner-only.
+ */
+export const requiredRole = (route: RouteDefinition): Role => route.role ?? (route.method === "get" ? "viewer" : "owner")
+
+/**
+ * Describes a zod schema as a JSON Schema, for the schemas used by the API's
+ * bodies and query parameters. Refinements and transforms are described by
+ * the schema they start from.
+ */
+export function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const described = (jsonSchema: JsonSchema) =>
+    schema.description ? { ...jsonSchema, description: schema.description } : jsonSchema
+  // Wrappers inherit the description of the schema they wrap
+  const wrapped = (inner: ZodTypeAny, jsonSchema: JsonSchema) =>
+    schema.description === inner.description ? jsonSchema : described(jsonSchema)
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {}
+    const required: string[] = []
+    for (const [name, field] of Object.entries(schema.shape as Record<string, ZodTypeAny>)) {
+      properties[name] = toJsonSchema(field)
+      if (!field.isOptional()) {
+        required.push(name)
+      }
+    }
+    return described({
+      type: "object",
+      properties,
+      ...(required.length > 0 && { required }),
+      ...(schema._def.unknownKeys === "passthrough" && { additionalProperties: true })
+    })
+  }
+  if (schema instanceof z.ZodString) {
+    const jsonSchema: JsonSchema = { type: "string" }
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") jsonSchema.minLength = check.value
+      if (check.kind === "regex") jsonSchema.pattern = check.regex.source
+    }
+    return described(jsonSchema)
+  }
+  if (schema instanceof z.ZodNumber) {
+    const jsonSchema: JsonSchema = { type: "number" }
+    for (const check of schema._def.checks) {
+      if (check.kind === "int") jsonSchema.type = "integer"
+      if (check.kind === "min") jsonSchema[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value
+      if (check.kind === "max") jsonSchema[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value
+    }
+    return described(jsonSchema)
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return described({ type: "boolean" })
+  }
+  if (schema instanceof z.ZodEnum) {
+    return described({ type: "string", enum: schema.options })
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return described({ const: schema.value })
+  }
+  if (schema instanceof z.ZodArray) {
+    return described({ type: "array", items: toJsonSchema(schema.element) })
+  }
+  if (schema instanceof z.ZodUnion) {
+    return described({ anyOf: (schema.options as ZodTypeAny[]).map(toJsonSchema) })
+  }
+  if (schema instanceof z.ZodOptional) {
+    return wrapped(schema.unwrap(), toJsonSchema(schema.unwrap()))
+  }
+  if (schema instanceof z.ZodNullable) {
+    return wrapped(schema.unwrap(), { anyOf: [toJsonSchema(schema.unwrap()), { type: "null" }] })
+  }
+  if (schema instanceof z.ZodDefault) {
+    return wrapped(schema.removeDefault(), { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() })
+  }
+  if (schema instanceof z.ZodEffects) {
+    return wrapped(schema.innerType(), toJsonSchema(schema.innerType()))
+  }
+  return described({})
+}
+
+// The object a query schema starts from, whose fields are the parameters
+function queryFields(schema: ZodTypeAny): Record<string, ZodTypeAny> {
+  if (schema instanceof z.ZodEffects) {
+    return queryFields(schema.innerType())
+  }
+  return schema instanceof z.ZodObject ? schema.shape : {}
+}
+
+const failureResponse = (description: string): OpenApiResponse => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Failure" } } }
+})
+
+/**
+ * Builds the OpenAPI document for the API
+ * @param routes The routes the server serves
+ * @param childScopedPaths Path prefixes whose routes work on one child
+ */
+export function createOpenApiDocument(routes: RouteDefinition[], childScopedPaths: string[]) {
+  const paths: Record<string, Record<string, OpenApiOperation>> = {}
+
+  for (const route of routes) {
+    const childScoped = childScopedPaths.some((prefix) => route.path.startsWith(prefix))
+    const body = route.body ?? route.documentedBody
+    const query = route.query && queryFields(route.query)
+
+    const responses: Record<string, OpenApiResponse> = {
+      200: {
+        description: "Success",
+        content: route.responseType
+          ? { [route.responseType]: { schema: { type: "string" } } }
+          : { "application/json": { schema: { $ref: "#/components/schemas/Success" } } }
+      }
+    }
+    if (route.body || route.query || route.documentedBody) {
+      responses[400] = failureResponse("VALIDATION_FAILED: the problem with each field is listed in `errors`")
+    }
+    if (!route.public) {
+      responses[401] = failureResponse("UNAUTHENTICATED: sign in with the household PIN first")
+      const role = requiredRole(route)
+      if (role !== "viewer") {
+        responses[403] = failureResponse(`FORBIDDEN: needs the ${role} role${role === "owner" ? "" : " or above"}`)
+      }
+    }
+    if (childScoped) {
+      responses[404] = failureResponse("NOT_FOUND: the child named by X-Child-Id or childId doesn't exist")
+    }
+    responses[500] = failureResponse("INTERNAL_ERROR, or CORRUPT_RECORD if stored data failed its schema")
+    responses[503] = failureResponse("STORAGE_UNAVAILABLE: Redis or the data file can't be reached")
+    for (const [status, description] of Object.entries(route.errors ?? {})) {
+      responses[status] = failureResponse(
+        responses[status] ? `${responses[status].description}; or ${description}` : description
+      )
+    }
+
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method]: {
+        summary: route.summary,
+        tags: [route.path.split("/")[2] || "status"],
+        ...(route.public && { security: [] }),
+        parameters: [
+          ...(childScoped ? [{ $ref: "#/components/parameters/ChildId" }] : []),
+          ...Object.entries(query ?? {}).map(([name, field]) => ({
+            name,
+            in: "query" as const,
+            required: !field.isOptional(),
+            schema: toJsonSchema(field)
+          }))
+        ],
+        ...(body && {
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: toJsonSchema(body) } }
+          }
+        }),
+        responses
+      }
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Baby Bottle Planner API",
+      version: "1.0.0",
+      description: "Plans and logs a baby's bottle feedings. See API_SETUP.md for the background on each area."
+    },
+    paths,
+    security: [{ session: [] }],
+    components: {
+      securitySchemes: {
+        session: {
+          type: "apiKey",
+          in: "cookie",
+          name: SESSION_COOKIE,
+          description: "Set by /api/auth/login or /api/auth/setup"
+        }
+      },
+      parameters: {
+        ChildId: {
+          name: "X-Child-Id",
+          in: "header",
+          required: false,
+          description: "The child to work on; the household's first child when left out. A childId query or body parameter works too.",
+          schema: { type: "string" }
+        }
+      },
+      schemas: {
+        Success: {
+          type: "object",
+          properties: { success: { const: true } },
+          additionalProperties: true
+        },
+        Failure: {
+          type: "object",
+          properties: {
+            success: { const: false },
+            code: { type: "string", enum: ERROR_CODES },
+            message: { type: "string" },
+            detail: { type: "string", description: "The underlying cause of a server error" },
+            errors: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: { field: { type: "string" }, message: { type: "string" } },
+                required: ["field", "message"]
+              }
+            }
+          },
+          required: ["success", "code", "message"],
+          additionalProperties: true
+        }
+      }
+    }
+  }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+/**
+ * Renders the docs page: every route with its parameters, body schema and
+ * responses, and a form to try it against this server
+ */
+export function renderApiDocsPage(document: ReturnType<typeof createOpenApiDocument>) {
+  const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({ path, method, ...operation }))
+  )
+
+  const sections = operations.map((operation) => {
+    const parameters = operation.parameters
+      .flatMap((parameter) => ("$ref" in parameter ? [] : [parameter]))
+      .map((parameter) => `<li><code>${escapeHtml(parameter.name)}</code>${parameter.required ? " (required)" : ""}: <code>${escapeHtml(JSON.stringify(parameter.schema))}</code></li>`)
+      .join("")
+    const body = operation.requestBody?.content["application/json"].schema
+    const responses = Object.entries(operation.responses)
+      .map(([status, response]) => `<li><b>${status}</b> ${escapeHtml(response.description)}</li>`)
+      .join("")
+
+    return `
+<details>
+  <summary><span class="method ${operation.method}">${operation.method.toUpperCase()}</span> <code>${escapeHtml(operation.path)}</code> ${escapeHtml(operation.summary)}</summary>
+  ${parameters ? `<h4>Query parameters</h4><ul>${parameters}</ul>` : ""}
+  ${body ? `<h4>Body</h4><pre>${escapeHtml(JSON.stringify(body, null, 2))}</pre>` : ""}
+  <h4>Responses</h4><ul>${responses}</ul>
+  <form data-method="${operation.method}" data-path="${escapeHtml(operation.path)}">
+    <label>X-Child-Id <input name="childId"></label>
+    <textarea name="input" rows="4" placeholder="${operation.method === "get" ? "Query, e.g. from=2025-03-24T00:00:00Z" : "JSON body"}"></textarea>
+    <button>Send</button>
+    <pre class="output"></pre>
+  </form>
+</details>`
+  }).join("")
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.info.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+  details { border: 1px solid #ddd; border-radius: 6px; margin: 0.5rem 0; padding: 0.5rem 1rem; }
+  summary { cursor: pointer; }
+  .method { display: inline-block; width: 3.5rem; font-weight: bold; }
+  .get { color: #1a7f37; } .post { color: #0969da; }
+  pre { background: #f6f8fa; padding: 0.5rem; overflow: auto; }
+  textarea { display: block; width: 100%; margin: 0.5rem 0; font-family: monospace; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(document.info.title)}</h1>
+<p>${escapeHtml(document.info.description)} The OpenAPI document is at <a href="/api/openapi.json">/api/openapi.json</a>.</p>
+${sections}
+<script>
+  document.querySelectorAll("form").forEach((form) => {
+    form.addEventListener("submit", async (event) => {
+      event.preventDefault()
+      const { method, path } = form.dataset
+      const input = form.elements.input.value.trim()
+      const headers = { "Content-Type": "application/json" }
+      if (form.elements.childId.value) headers["X-Child-Id"] = form.elements.childId.value
+      const output = form.querySelector(".output")
+      try {
+        const response = await fetch(method === "get" && input ? path + "?" + input : path, {
+          method: method.toUpperCase(),
+          headers,
+          body: method === "post" ? input || "{}" : undefined
+        })
+        const text = await response.text()
+        let shown = text
+        try { shown = JSON.stringify(JSON.parse(text), null, 2) } catch {}
+        output.textContent = response.status + "\\n" + shown
+      } catch (error) {
+        output.textContent = String(error)
+      }
+    })
+  })
+</script>
+</body>
+</html>`
+}
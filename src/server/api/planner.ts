@@ -0,0 +1,286 @@
+import { nanoid } from "nanoid"
+import { getWallClock, getZonedMoment, parseClockTime } from "./feeding-time"
+import type { PlannedFeeding } from "./feedings"
+import type { FeedingRecommendation } from "./recommendations"
+import type { FeedingSettings } from "./settings"
+
+// The rule-based planner, used when the AI planner isn't configured or fails.
+// It puts feedings on the locked times, spaces the ones in between as close to
+// the ideal gap as the min and max gaps allow, and spreads the amounts so the
+// next 24 hours add up to the recommended daily intake. The same inputs always
+// give the same times and amounts.
+//
+// Locked times and the per-feeding amount limits are always kept. When the
+// other constraints can't all be met, the daily intake gives way first, then
+// the gaps, and the plan lists each constraint it relaxed and why.
+
+// How many feedings a plan holds
+export const PLAN_SIZE = 10
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Planned times are rounded to 5 minutes, unless that would break a gap, and
+// gaps within a minute of a limit count as keeping to it
+const ROUND_TO_MS = 5 * 60 * 1000
+const TOLERANCE_MS = 60 * 1000
+
+/**
+ * A constraint the planner couldn't keep, and by how much it missed
+ */
+export interface RelaxedConstraint {
+  constraint: "minGap" | "maxGap" | "dailyIntake"
+  message: string
+}
+
+export interface ConstraintPlan {
+  feedings: PlannedFeeding[]
+  relaxed: RelaxedConstraint[]
+}
+
+export interface PlanInput {
+  settings: FeedingSettings
+  // When the plan starts (ms since the epoch)
+  now: number
+  // When the child was last fed, if known; the first gap is counted from it
+  lastFedAt?: number
+  // From the child's current recommendation. Without it every feeding gets the
+  // target amount.
+  dailyIntake?: FeedingRecommendation["dailyIntake"]
+  count?: number
+  // IANA zone the locked times and planned dates and times are in; the
+  // server's if not given
+  timeZone?: string
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+// "HH:MM" in the plan's time zone, like the locked times
+const clockTime = (at: number, timeZone?: string) => {
+  const { hours, minutes } = getWallClock(at, timeZone)
+  return `${pad(hours)}:${pad(minutes)}`
+}
+
+const localDate = (at: number, timeZone?: string) => {
+  const { year, month, day } = getWallClock(at, timeZone)
+  return `${year}-${pad(month)}-${pad(day)}`
+}
+
+const formatGap = (ms: number) => {
+  const minutes = Math.round(ms / 60_000)
+  return minutes % 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes / 60}h`
+}
+
+const roundAmount = (oz: number) => Math.round(oz * 10) / 10
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/**
+ * Gets every occurrence of the locked times after from and up to to, in order
+ * @throws Error if a locked time can't be read
+ */
+function lockedMoments(times: string[], from: number, to: number, timeZone?: string) {
+  const moments = new Set<number>()
+  const start = getWallClock(from, timeZone)
+  for (const time of times) {
+    const clock = parseClockTime(time)
+    if (!clock) {
+      throw new Error(`Can't read the locked time "${time}"`)
+    }
+    // Days are counted on the zone's calendar, so a DST change doesn't shift them
+    for (let day = 0; ; day++) {
+      const at = getZonedMoment(start.year, start.month, start.day + day, clock.hours, clock.minutes, timeZone)
+      if (at > to) {
+        break
+      }
+      if (at > from) {
+        moments.add(at)
+      }
+    }
+  }
+  return [...moments].sort((a, b) => a - b)
+}
+
+/**
+ * Places the feeding times of a plan
+ * @returns Each time and whether it is locked, and the gaps that had to be relaxed
+ */
+function planTimes({ settings, now, lastFedAt, count = PLAN_SIZE, timeZone }: PlanInput) {
+  const min = settings.feedWindows.min * HOUR_MS
+  const max = settings.feedWindows.max * HOUR_MS
+  const ideal = settings.feedWindows.ideal * HOUR_MS
+  const times: { at: number; isLocked: boolean }[] = []
+  const relaxed: RelaxedConstraint[] = []
+
+  const place = (at: number, isLocked: boolean) => {
+    if (times.length < count) {
+      times.push({ at, isLocked })
+    }
+  }
+
+  // Records the gap between two placed feedings if it is out of bounds, and
+  // says whether it was
+  const relaxGap = (from: number, to: number, reason: string) => {
+    const bound = to - from < min - TOLERANCE_MS ? "minimum" : to - from > max + TOLERANCE_MS ? "maximum" : null
+    if (bound) {
+      relaxed.push({
+        constraint: bound === "minimum" ? "minGap" : "maxGap",
+        message: `${formatGap(to - from)} between ${clockTime(from, timeZone)} and ${clockTime(to, timeZone)}, ${
+          bound === "minimum" ? "under" : "over"
+        } the ${formatGap(bound === "minimum" ? min : max)} ${bound}, ${reason}`
+      })
+    }
+    return bound !== null
+  }
+
+  // Fills the time up to a locked feeding with evenly spaced feedings: as many
+  // as bring the gaps closest to the ideal while keeping them between the min
+  // and max. When no number does, the one that misses by least is used.
+  // fromFeeding says whether from is a feeding or only when the plan starts,
+  // whose gap to the next feeding isn't bound by the min and max.
+  const fillUpTo = (from: number, to: number, fromFeeding: boolean) => {
+    const gap = to - from
+    const fewest = Math.max(1, Math.ceil((gap - TOLERANCE_MS) / max))
+    const most = Math.floor((gap + TOLERANCE_MS) / min)
+    let segments: number
+    if (fewest <= most) {
+      segments = clamp(Math.max(1, Math.round(gap / ideal)), fewest, most)
+    } else {
+      segments = most < 1 || Math.abs(gap / fewest - ideal) < Math.abs(gap / most - ideal) ? fewest : most
+    }
+
+    const exact = Array.from({ length: segments - 1 }, (_, index) => from + ((index + 1) * gap) / segments)
+    const rounded = exact.map((at) => Math.round(at / ROUND_TO_MS) * ROUND_TO_MS)
+    const points = [from, ...rounded, to]
+    const keepsGaps = points
+      .slice(1)
+      .every((at, index) => at - points[index] >= min - TOLERANCE_MS && at - points[index] <= max + TOLERANCE_MS)
+    // Rounding mustn't break gaps the exact times keep. Feedings that would be
+    // in the past are left out.
+    const between = (keepsGaps ? rounded : exact.map((at) => Math.round(at / 60_000) * 60_000)).filter((at) => at >= now)
+
+    const placedBefore = times.length
+    between.forEach((at) => place(at, false))
+    place(to, true)
+
+    // The segment's first gap out of bounds, if any, is reported
+    const placed = [...(fromFeeding ? [from] : []), ...times.slice(placedBefore).map(({ at }) => at)]
+    placed.slice(1).some((at, index) => relaxGap(placed[index], at, `to keep the locked time ${clockTime(to, timeZone)}`))
+  }
+
+  const locked = settings.lockedFeedings.enabled
+    ? lockedMoments(settings.lockedFeedings.times, now, now + count * max + DAY_MS, timeZone)
+    : []
+
+  // Without a last feeding the plan counts from now, which isn't a feeding
+  let previous = lastFedAt ?? now
+  let previousIsFeeding = lastFedAt !== undefined
+  if (lastFedAt !== undefined) {
+    // The first feeding is due an ideal gap after the last one, or now if
+    // that has passed, unless a locked feeding comes too soon after it
+    const first = Math.ceil(Math.max(now, lastFedAt + ideal) / ROUND_TO_MS) * ROUND_TO_MS
+    if (locked.length === 0 || locked[0] - first >= min - TOLERANCE_MS) {
+      place(first, false)
+      previous = first
+    }
+  }
+
+  for (const at of locked) {
+    if (times.length >= count) {
+      break
+    }
+    fillUpTo(previous, at, previousIsFeeding)
+    previous = at
+    previousIsFeeding = true
+  }
+
+  // After the locked times, or without any, feedings follow at the ideal gap
+  while (times.length < count) {
+    previous = Math.round((previous + ideal) / ROUND_TO_MS) * ROUND_TO_MS
+    place(previous, false)
+  }
+
+  return { times, relaxed }
+}
+
+/**
+ * Spreads the amounts over the feedings: the next 24 hours' feedings get
+ * amounts that add up to the recommended daily intake, as close to the target
+ * amount as it allows and within the min and max per feeding. Tenths of an
+ * ounce left over go to the feedings before the longest gaps.
+ * @returns An amount in ounces for each time, and the relaxed daily intake if it couldn't be met
+ */
+function planAmounts(times: number[], { settings, now, dailyIntake }: PlanInput) {
+  const { min, max, target } = settings.feedAmounts
+  const inDay = times.filter((at) => at < now + DAY_MS).length
+  if (!dailyIntake || inDay === 0) {
+    return { amounts: times.map(() => target), relaxed: [] }
+  }
+
+  // A plan that ends before the day does is taken to go on at the ideal gap
+  const last = times[times.length - 1]
+  const feedingsInDay = inDay + Math.max(0, Math.floor((now + DAY_MS - last) / (settings.feedWindows.ideal * HOUR_MS)))
+
+  const perFeeding = clamp(
+    clamp(feedingsInDay * target, dailyIntake.minOz, dailyIntake.maxOz) / feedingsInDay,
+    min,
+    max
+  )
+  const relaxed: RelaxedConstraint[] = []
+  const dayTotal = roundAmount(perFeeding * feedingsInDay)
+  if (dayTotal < dailyIntake.minOz || dayTotal > dailyIntake.maxOz) {
+    relaxed.push({
+      constraint: "dailyIntake",
+      message: `${feedingsInDay} feedings in the next 24 hours add up to ${dayTotal} oz, ${
+        dayTotal < dailyIntake.minOz ? "under" : "over"
+      } the recommended ${dailyIntake.minOz}–${dailyIntake.maxOz} oz, to keep each between ${min} and ${max} oz`
+    })
+  }
+  const total = roundAmount(perFeeding * inDay)
+
+  // The day's total in tenths, shared out evenly
+  const tenths = Math.round(total * 10)
+  const base = Math.floor(tenths / inDay)
+  const gapAfter = (index: number) => (times[index + 1] ?? times[index] + DAY_MS) - times[index]
+  const larger = new Set(
+    times
+      .slice(0, inDay)
+      .map((_, index) => index)
+      .sort((a, b) => gapAfter(b) - gapAfter(a) || a - b)
+      .slice(0, tenths - base * inDay)
+  )
+
+  return {
+    amounts: times.map((_, index) =>
+      index < inDay ? (base + (larger.has(index) ? 1 : 0)) / 10 : roundAmount(perFeeding)
+    ),
+    relaxed
+  }
+}
+
+/**
+ * Plans the next feedings from the settings and the child's recommendation,
+ * see the top of this file
+ * @throws Error if a locked time can't be read
+ */
+export function planWithConstraints(input: PlanInput): ConstraintPlan {
+  const { times, relaxed: relaxedGaps } = planTimes(input)
+  const { amounts, relaxed: relaxedIntake } = planAmounts(
+    times.map(({ at }) => at),
+    input
+  )
+
+  return {
+    feedings: times.map(({ at, isLocked }, index) => ({
+      id: nanoid(),
+      date: localDate(at, input.timeZone),
+      time: clockTime(at, input.timeZone),
+      amount: amounts[index],
+      amountUnit: "oz",
+      isLocked,
+      isCompleted: false
+    })),
+    // Locked times too close together are reported once, not once a day
+    relaxed: [...new Map([...relaxedGaps, ...relaxedIntake].map((each) => [each.message, each])).values()]
+  }
+}
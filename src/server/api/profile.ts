@@ -1,29 +1,31 @@
-import { getRedisClient } from "./redis-client"
 import { getProfile as getProfileFromRecommendations, updateProfile } from "./recommendations"
+import { logger } from "./logger"
+
+const log = logger.child({ module: "profile" })
 
 // Re-export the getProfile function
 export const getProfile = getProfileFromRecommendations
 
-export async function handleGetProfile() {
+export async function handleGetProfile(childId: string) {
   try {
-    const profile = await getProfile()
+    const profile = await getProfile(childId)
     return { success: true, profile }
   } catch (error) {
-    console.error("Failed to get newborn profile:", error)
+    log.error("Failed to get newborn profile", { error })
     return { success: false, message: "Failed to get newborn profile" }
   }
 }
 
-export async function handleUpdateProfile(birthDate: string) {
+export async function handleUpdateProfile(childId: string, birthDate: string) {
   try {
     if (!birthDate) {
       return { success: false, message: "Birth date is required" }
     }
 
-    const profile = await updateProfile(birthDate)
+    const profile = await updateProfile(childId, birthDate)
     return { success: true, profile }
   } catch (error) {
-    console.error("Failed to update newborn profile:", error)
+    log.error("Failed to update newborn profile", { error })
     return { success: false, message: "Failed to update newborn profile" }
   }
 } 
\ No newline at end of file
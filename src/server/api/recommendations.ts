@@ -1,4 +1,8 @@
-import { getRedisClient } from "./redis-client"
+import { getStorage } from "./storage"
+import { checkStoredDocument, newbornProfileSchema } from "./schemas"
+import { logger } from "./logger"
+
+const log = logger.child({ module: "recommendations" })
 
 // Types for feeding recommendations
 export interface FeedingRecommendation {
@@ -28,9 +32,6 @@ export interface NewbornProfile {
   currentRecommendation: FeedingRecommendation
 }
 
-const NEWBORN_PROFILE_KEY = "baby:profile"
-const RECOMMENDATIONS_KEY = "baby:recommendations"
-
 // Default feeding recommendations data
 const defaultRecommendations: FeedingRecommendation[] = [
   {
@@ -155,17 +156,17 @@ function calculateAgeInDays(birthDate: string): number {
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24))
 }
 
-// Helper function to get recommendations from Redis or initialize with defaults
+// Helper function to get recommendations from storage or initialize with defaults
 export async function getAllRecommendations(): Promise<FeedingRecommendation[]> {
-  const client = await getRedisClient()
-  const recommendations = await client.get(RECOMMENDATIONS_KEY)
+  const repository = getStorage().recommendations
+  const recommendations = await repository.list()
 
-  if (!recommendations) {
-    await client.set(RECOMMENDATIONS_KEY, JSON.stringify(defaultRecommendations))
+  if (recommendations.length === 0) {
+    await repository.replaceAll(defaultRecommendations)
     return defaultRecommendations
   }
 
-  return JSON.parse(recommendations)
+  return recommendations
 }
 
 // Helper function to get current recommendation based on age
@@ -197,17 +198,21 @@ const defaultProfile: NewbornProfile = {
   currentRecommendation: defaultRecommendations[0]
 }
 
-export async function getProfile() {
+/**
+ * Gets a child's profile with their age and current recommendation brought up to date
+ * @throws CorruptRecordError if the stored profile has no valid birth date
+ */
+export async function getProfile(childId: string) {
   try {
-    const client = await getRedisClient()
-    let profile = await client.get(NEWBORN_PROFILE_KEY)
+    const repository = getStorage().forChild(childId).profile
+    const storedProfile = await repository.get()
     
-    if (!profile) {
-      await client.set(NEWBORN_PROFILE_KEY, JSON.stringify(defaultProfile))
-      profile = JSON.stringify(defaultProfile)
+    if (!storedProfile) {
+      await repository.save(defaultProfile)
     }
-
-    const parsedProfile = JSON.parse(profile)
+    const parsedProfile = storedProfile
+      ? { ...storedProfile, ...checkStoredDocument("profile", storedProfile, newbornProfileSchema) }
+      : defaultProfile
     
     // Update age and recommendations
     const ageInDays = calculateAgeInDays(parsedProfile.birthDate)
@@ -220,16 +225,16 @@ export async function getProfile() {
     }
 
     // Store updated profile
-    await client.set(NEWBORN_PROFILE_KEY, JSON.stringify(updatedProfile))
+    await repository.save(updatedProfile)
 
     return updatedProfile
   } catch (error) {
-    console.error("Error getting newborn profile:", error)
+    log.error("Error getting newborn profile", { error })
     throw error
   }
 }
 
-export async function updateProfile(birthDate: string) {
+export async function updateProfile(childId: string, birthDate: string) {
   try {
     if (!birthDate) {
       throw new Error("Birth date is required")
@@ -244,24 +249,22 @@ export async function updateProfile(birthDate: string) {
       currentRecommendation
     }
 
-    const client = await getRedisClient()
-    await client.set(NEWBORN_PROFILE_KEY, JSON.stringify(profile))
+    await getStorage().forChild(childId).profile.save(profile)
 
     return profile
   } catch (error) {
-    console.error("Error updating newborn profile:", error)
+    log.error("Error updating newborn profile", { error })
     throw error
   }
 }
 
-// Function to initialize or update recommendations in Redis
+// Function to initialize or update recommendations in storage
 export async function initializeRecommendations() {
   try {
-    const client = await getRedisClient()
-    await client.set(RECOMMENDATIONS_KEY, JSON.stringify(defaultRecommendations))
+    await getStorage().recommendations.replaceAll(defaultRecommendations)
     return { success: true, message: "Recommendations initialized successfully" }
   } catch (error) {
-    console.error("Error initializing recommendations:", error)
+    log.error("Error initializing recommendations", { error })
     throw error
   }
 } 
\ No newline at end of file
@@ -1,50 +1,62 @@
 /**
  * Redis Client for Baby Bottle Planner
- * 
+ *
  * This module provides a singleton Redis client connection that's optimized
  * for both development and production environments.
+ *
+ * A circuit breaker keeps a Redis outage from stalling every request. Each
+ * failed attempt to connect opens it for a jittered, exponentially growing
+ * delay, during which callers fail fast with a StorageUnavailableError that
+ * says when the next attempt is due. Once the delay is over the breaker is
+ * half-open: the next caller probes with one attempt, which closes it again or
+ * reopens it for longer. A connection that drops after it was established is
+ * re-established by the client itself, with the same backoff.
  */
 
-import { createClient } from "redis"
-
-// Enhanced logging with timestamps
-function logWithTime(message: string, data: any = null) {
-  const timestamp = new Date().toISOString()
-  const logPrefix = `[${timestamp}] [Redis]`
-  
-  if (data) {
-    console.log(logPrefix, message, JSON.stringify(data))
-  } else {
-    console.log(logPrefix, message)
-  }
-}
+import {
+  createClient,
+  ClientClosedError,
+  ClientOfflineError,
+  ConnectionTimeoutError,
+  DisconnectsClientError,
+  SocketClosedUnexpectedlyError
+} from "redis"
+import { StorageUnavailableError } from "./storage/errors"
+import type { StorageStatus } from "./storage/types"
+import { getConfig, redactRedisUrl } from "./config"
+import { logger } from "./logger"
+import { createGauge, redisConnections, redisErrors, redisReconnects } from "./metrics"
 
-// Enhanced error logging
-function logError(message: string, error: any) {
-  const timestamp = new Date().toISOString()
-  const logPrefix = `[${timestamp}] [Redis ERROR]`
-  
-  console.error(logPrefix, message)
-  
-  if (error) {
-    console.error(`${logPrefix} Message:`, error.message || 'No message')
-    
-    if (error.code) {
-      console.error(`${logPrefix} Error code:`, error.code)
-    }
-  }
-}
+// Connection details are logged at debug level; failures as errors
+const log = logger.child({ module: "redis" })
 
 // Redis client singleton
 let redisClient: any = null
-let connectionError: Error | null = null
 
-// Connection status tracking
-let connectionAttempts = 0
-const MAX_CONNECTION_ATTEMPTS = 3
+// The attempt to connect in progress, shared by everyone waiting for it
+let connecting: Promise<any> | null = null
+
 const CONNECTION_TIMEOUT_MS = 5000 // Increased to 5 seconds for more reliability
 
-// Telemetry data for diagnosing issues
+// Backoff between attempts to connect: doubling from the base up to the cap
+const BACKOFF_BASE_MS = 500
+const BACKOFF_MAX_MS = 30_000
+
+// How many recent errors the telemetry keeps
+const MAX_RECORDED_ERRORS = 10
+
+// The circuit breaker around connecting, see the top of this file
+const breaker = {
+  state: "closed" as "closed" | "open" | "half-open",
+  // Failed attempts since the last connection
+  failures: 0,
+  // When the breaker half-opens, or the client's next reconnection attempt
+  retryAt: null as Date | null,
+  lastError: null as Error | null
+}
+
+// Telemetry data for diagnosing issues, shown by /api/diagnostics. The same
+// events are counted for /api/metrics.
 const connectionTelemetry = {
   lastConnectionAttempt: null as Date | null,
   lastSuccessfulConnection: null as Date | null,
@@ -55,141 +67,235 @@ const connectionTelemetry = {
   errors: [] as {time: Date, message: string, code?: string}[]
 }
 
+createGauge("bottle_planner_redis_circuit_open", "1 while the Redis circuit breaker is failing fast, else 0", () =>
+  breaker.state === "open" ? 1 : 0
+)
+
+/**
+ * How long to wait before the next attempt after this many failures: the
+ * exponential delay with "equal jitter", so it is at least half the delay and
+ * instances that lost Redis together don't all retry at once
+ */
+export function backoffDelay(failures: number) {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, failures - 1))
+  return Math.round(delay / 2 + Math.random() * (delay / 2))
+}
+
+function recordError(error: Error) {
+  connectionTelemetry.lastError = error
+  connectionTelemetry.errors.push({
+    time: new Date(),
+    message: error.message,
+    code: (error as any).code
+  })
+  if (connectionTelemetry.errors.length > MAX_RECORDED_ERRORS) {
+    connectionTelemetry.errors.splice(0, connectionTelemetry.errors.length - MAX_RECORDED_ERRORS)
+  }
+  breaker.lastError = error
+}
+
+// Fails fast with when the next attempt is due
+function unavailable(message: string): never {
+  const retryAt = breaker.retryAt ?? undefined
+  const seconds = retryAt ? Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000)) : undefined
+  throw new StorageUnavailableError(seconds ? `${message}; retrying in ${seconds}s` : message, retryAt)
+}
+
 /**
  * Gets the Redis client, creating a new connection if needed
  * Uses connection pooling to maintain a single connection across multiple serverless invocations
+ * @throws StorageUnavailableError while the breaker is open or the client is reconnecting
  */
 export async function getRedisClient() {
-  // Log telemetry data
-  logWithTime("Redis client request telemetry", {
-    successfulConnections: connectionTelemetry.successfulConnections,
-    failedConnections: connectionTelemetry.failedConnections,
-    lastSuccessfulConnection: connectionTelemetry.lastSuccessfulConnection,
-    lastConnectionAttempt: connectionTelemetry.lastConnectionAttempt,
-    errorCount: connectionTelemetry.errors.length,
-    lastErrorMessage: connectionTelemetry.lastError?.message,
-  })
-  
   // If we have an active client, return it
   if (redisClient && redisClient.isReady) {
-    logWithTime("Reusing existing Redis connection")
     return redisClient
   }
-  
-  // Always reset connection attempts in serverless environments 
-  // This ensures we don't carry state between cold starts
-  if (process.env.NODE_ENV === "production" || process.env.VERCEL) {
-    connectionAttempts = 0
-    connectionError = null
-    logWithTime("Reset connection attempts for production/Vercel environment")
+
+  // The client lost an established connection and is getting it back
+  if (redisClient && redisClient.isOpen) {
+    unavailable("Lost the connection to Redis, reconnecting")
   }
-  
-  // If we've already tried to connect and failed too many times, don't keep trying
-  if (connectionError && connectionAttempts >= MAX_CONNECTION_ATTEMPTS) {
-    logError(`Redis connection failed after ${connectionAttempts} attempts`, connectionError)
-    throw new Error(`Failed to connect to Redis after ${connectionAttempts} attempts: ${connectionError.message}`)
+
+  if (breaker.state === "open") {
+    if (breaker.retryAt && Date.now() < breaker.retryAt.getTime()) {
+      unavailable(`Can't reach Redis (${breaker.lastError?.message ?? "unknown error"})`)
+    }
+    // This caller probes whether Redis is back
+    breaker.state = "half-open"
+    log.info("Probing whether Redis is reachable again", { failures: breaker.failures })
   }
 
-  logWithTime("Creating new Redis client connection")
-  connectionAttempts++
+  connecting ??= connect().finally(() => {
+    connecting = null
+  })
+  return connecting
+}
+
+async function connect() {
+  log.debug("Creating new Redis client connection")
   connectionTelemetry.lastConnectionAttempt = new Date()
-  
+
   try {
-    // Redis connection URL - use environment variable 
-    const redisUrl = process.env.REDIS_URL
-    
+    const config = getConfig()
+    const redisUrl = config.redisUrl
+
     if (!redisUrl) {
-      const noUrlError = new Error("REDIS_URL environment variable is not defined")
-      connectionTelemetry.lastError = noUrlError
-      connectionTelemetry.errors.push({
-        time: new Date(), 
-        message: noUrlError.message
-      })
-      logError("Redis URL missing", noUrlError)
-      throw noUrlError
+      throw new Error("REDIS_URL environment variable is not defined")
     }
-    
-    logWithTime(`Connecting to Redis (Attempt ${connectionAttempts}/${MAX_CONNECTION_ATTEMPTS})`, {
-      environment: process.env.NODE_ENV || 'development',
-      vercel: !!process.env.VERCEL,
-      urlPrefix: redisUrl.substring(0, 10) + '...',
-      isTls: redisUrl.startsWith('rediss://')
+
+    log.debug("Connecting to Redis", {
+      environment: config.profile,
+      vercel: config.vercel,
+      url: redactRedisUrl(redisUrl),
+      isTls: redisUrl.startsWith('rediss://'),
+      failures: breaker.failures
     })
-    
+
     // Ensure we use TLS for production and Upstash
-    const isProd = process.env.NODE_ENV === "production" || process.env.VERCEL
-    
+    const isProd = config.production
+
+    // Whether this client has ever been ready. Until then a failure goes to
+    // the breaker; afterwards the client reconnects by itself.
+    let established = false
+
     // Simple Redis client with minimal configuration - matches our successful test
     const clientConfig: any = {
       url: redisUrl,
+      // Commands sent while reconnecting fail instead of waiting in a queue
+      disableOfflineQueue: true,
       socket: {
         tls: redisUrl.startsWith('rediss://') || isProd,
         connectTimeout: CONNECTION_TIMEOUT_MS,
+        reconnectStrategy: (retries: number, cause: Error) => {
+          if (!established) {
+            return cause
+          }
+          const delay = backoffDelay(retries + 1)
+          breaker.retryAt = new Date(Date.now() + delay)
+          return delay
+        }
       }
     }
-    
+
     // Create the client with simplified config
-    redisClient = createClient(clientConfig)
-    
+    const client = createClient(clientConfig)
+    redisClient = client
+
     // Add event handlers
-    redisClient.on("error", (err: Error) => {
-      connectionTelemetry.lastError = err
-      connectionTelemetry.errors.push({
-        time: new Date(), 
-        message: err.message,
-        code: (err as any).code
-      })
-      logError("Redis client error event", err)
-      connectionError = err
+    client.on("error", (err: Error) => {
+      recordError(err)
+      redisErrors.inc()
+      log.error("Redis client error event", { error: err })
     })
-    
-    redisClient.on("connect", () => {
-      logWithTime("Redis client connected event fired")
-      connectionError = null
+
+    client.on("connect", () => {
+      log.debug("Redis client connected event fired")
     })
-    
-    redisClient.on("ready", () => {
-      logWithTime("Redis client ready event fired")
+
+    client.on("ready", () => {
+      log.debug("Redis client ready event fired")
+      established = true
+      breaker.retryAt = null
       connectionTelemetry.lastSuccessfulConnection = new Date()
       connectionTelemetry.successfulConnections++
     })
-    
+
+    // The client reconnects by itself after losing an established connection
+    client.on("reconnecting", () => {
+      log.warn("Redis client reconnecting", { retryAt: breaker.retryAt?.toISOString() })
+      redisReconnects.inc()
+    })
+
     // Connect - simple with no extra timeout race
-    await redisClient.connect()
-    logWithTime("Redis client connected successfully")
-    
+    await client.connect()
+
     // Verify connection with PING
-    await redisClient.ping()
-    logWithTime("Redis connection verified with PING")
+    await client.ping()
+    log.debug("Redis connection verified with PING")
     connectionTelemetry.lastSuccessfulOperation = new Date()
-    
-    return redisClient
+
+    if (breaker.failures > 0) {
+      log.info("Redis is reachable again", { failures: breaker.failures })
+    } else {
+      log.info("Redis client connected")
+    }
+    breaker.state = "closed"
+    breaker.failures = 0
+    breaker.retryAt = null
+    redisConnections.inc({ outcome: "ok" })
+
+    return client
   } catch (error: any) {
-    connectionError = error
-    connectionTelemetry.lastError = error
-    connectionTelemetry.errors.push({
-      time: new Date(), 
-      message: error.message,
-      code: error.code
-    })
+    recordError(error)
     connectionTelemetry.failedConnections++
-    
-    logError("Redis connection error", error)
-    
+    redisConnections.inc({ outcome: "error" })
+
+    // Fail fast until the backoff is over
+    breaker.failures++
+    breaker.state = "open"
+    const delay = backoffDelay(breaker.failures)
+    breaker.retryAt = new Date(Date.now() + delay)
+    log.error("Redis connection error", { error, failures: breaker.failures, retryInMs: delay })
+
     // If client was created but not fully connected, try to disconnect
     if (redisClient) {
       try {
         await redisClient.disconnect()
-        logWithTime("Disconnected partially created Redis client")
+        log.debug("Disconnected partially created Redis client")
       } catch (disconnectError) {
-        // Ignore disconnect errors
-        logError("Error disconnecting Redis client", disconnectError)
+        // The client was never open
+        log.debug("Error disconnecting Redis client", { error: disconnectError })
       }
       redisClient = null
     }
-    
-    throw new Error(`Failed to connect to Redis: ${error.message}`)
+
+    unavailable(`Failed to connect to Redis: ${error.message}`)
+  }
+}
+
+// Errors from commands whose connection went away under them
+const CONNECTION_ERRORS = [
+  ClientClosedError,
+  ClientOfflineError,
+  ConnectionTimeoutError,
+  DisconnectsClientError,
+  SocketClosedUnexpectedlyError
+]
+
+/**
+ * Reports a command that failed because the connection went away under it as
+ * a StorageUnavailableError, like any other outage. Other errors are returned
+ * as they are.
+ */
+export function toStorageError(error: unknown) {
+  if (!CONNECTION_ERRORS.some((type) => error instanceof type)) {
+    return error
+  }
+  return new StorageUnavailableError(`Lost the connection to Redis: ${(error as Error).message}`, breaker.retryAt ?? undefined)
+}
+
+/**
+ * The state of the connection to Redis, for the UI and readiness checks
+ */
+export function getRedisStatus(): StorageStatus {
+  const retryAt = breaker.retryAt?.toISOString()
+  const lastError = breaker.lastError?.message
+
+  if (redisClient?.isReady) {
+    return { state: "connected" }
+  }
+  if (redisClient?.isOpen) {
+    return { state: "reconnecting", retryAt, lastError }
   }
+  if (connecting || breaker.state === "half-open") {
+    return { state: "connecting", lastError }
+  }
+  if (breaker.state === "open") {
+    return { state: "reconnecting", retryAt, lastError }
+  }
+  // Nothing has needed Redis yet
+  return { state: "connecting" }
 }
 
 /**
@@ -198,21 +304,22 @@ export async function getRedisClient() {
 export async function closeRedisConnection() {
   if (redisClient) {
     try {
-      if (redisClient.isReady) {
+      if (redisClient.isOpen) {
         await redisClient.disconnect()
-        logWithTime("Redis connection closed")
+        log.debug("Redis connection closed")
       } else {
-        logWithTime("Redis connection was not ready, skipping disconnect")
+        log.debug("Redis connection was not open, skipping disconnect")
       }
     } catch (error) {
-      logError("Error closing Redis connection", error)
+      log.error("Error closing Redis connection", { error })
     } finally {
       redisClient = null
-      connectionError = null
-      connectionAttempts = 0
-      logWithTime("Redis connection resources cleared")
+      log.debug("Redis connection resources cleared")
     }
   }
+  breaker.state = "closed"
+  breaker.failures = 0
+  breaker.retryAt = null
 }
 
 /**
@@ -221,38 +328,22 @@ export async function closeRedisConnection() {
  */
 export async function checkRedisConnection() {
   try {
-    logWithTime("Checking Redis connection")
-    // Create connection with short timeout for checking
+    log.debug("Checking Redis connection")
     const client = await getRedisClient()
-    
-    // For production, use a simpler check
-    if (process.env.NODE_ENV === "production" || process.env.VERCEL) {
-      logWithTime("Production Redis check - simple PING")
-      await client.ping()
-      logWithTime("Production Redis check successful")
-      connectionTelemetry.lastSuccessfulOperation = new Date()
-      return true
-    }
-    
-    // More careful check for development
-    logWithTime("Development Redis check - PING with timeout")
+
+    // Don't wait for a slow server longer than a health check should
     const pingPromise = client.ping()
     const timeoutPromise = new Promise((_, reject) => {
       setTimeout(() => reject(new Error("Redis ping timed out")), 2000)
     })
-    
+
     await Promise.race([pingPromise, timeoutPromise])
-    logWithTime("Development Redis check successful")
+    log.debug("Redis check successful")
     connectionTelemetry.lastSuccessfulOperation = new Date()
     return true
   } catch (error) {
-    logError("Redis connection check failed", error)
-    connectionTelemetry.lastError = error as Error
-    connectionTelemetry.errors.push({
-      time: new Date(), 
-      message: (error as Error).message,
-      code: (error as any).code
-    })
+    log.error("Redis connection check failed", { error })
+    recordError(error as Error)
     return false
   }
 }
@@ -263,25 +354,20 @@ export async function checkRedisConnection() {
 export function getRedisTelemetry() {
   return {
     ...connectionTelemetry,
-    // Limit error history to last 10 errors
-    errors: connectionTelemetry.errors.slice(-10),
+    errors: [...connectionTelemetry.errors],
     redisClient: {
       exists: !!redisClient,
       isReady: redisClient?.isReady || false
     },
+    breaker: {
+      state: breaker.state,
+      failures: breaker.failures,
+      retryAt: breaker.retryAt
+    },
     environment: {
-      NODE_ENV: process.env.NODE_ENV || 'unknown',
-      VERCEL: !!process.env.VERCEL,
-      REDIS_URL_PREFIX: process.env.REDIS_URL 
-        ? `${process.env.REDIS_URL.substring(0, 10)}...` 
-        : 'not set'
+      NODE_ENV: getConfig().profile,
+      VERCEL: getConfig().vercel,
+      REDIS_URL: redactRedisUrl(getConfig().redisUrl)
     }
   }
 }
-
-// At the end of the file, add CommonJS module.exports for compatibility
-module.exports = {
-  getRedisClient,
-  getRedisTelemetry,
-};
-
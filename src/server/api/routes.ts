@@ -1,12 +1,1413 @@
-import { getAllRecommendations } from "./recommendations"
+/**
+ * The planner's API routes, shared by the dev Express server
+ * (src/server/index.ts) and the Vercel function (api/index.ts) so both serve
+ * exactly the same API. The entry points only add their own app setup: body
+ * parsing, CORS, bringing the schema up to date and starting to listen.
+ */
+
+import { Router, type ErrorRequestHandler, type Response, type RequestHandler } from "express"
+import type { ZodType } from "zod"
+import { getStorage, ConflictError, staleResponses } from "./storage"
+import { getSettings, saveSettings, DEFAULT_FEEDING_SETTINGS } from "./settings"
+import { getAllRecommendations, updateProfile } from "./recommendations"
+import { getProfile } from "./profile"
+import {
+  type ActualFeeding,
+  getFeedings,
+  updateFeeding,
+  planFeedings,
+  getActualFeedings,
+  addActualFeeding,
+  updateActualFeeding,
+  removeActualFeeding,
+  completeFeeding,
+  uncompleteFeeding,
+  getCompletedFeedings
+} from "./feedings"
+import {
+  readActualFeedingInput,
+  readActualFeedingChanges,
+  actualFeedingInput,
+  actualFeedingChanges
+} from "./actual-feeding-input"
+import { fromMillilitres } from "./volume"
+import {
+  getChildren,
+  resolveChildId,
+  addChild,
+  renameChild,
+  removeChild,
+  getTwin,
+  pairTwins,
+  unpairTwins,
+  LastChildError
+} from "./children"
+import { addPairedFeeding, getTwinIntake } from "./twins"
+import { createBackup } from "./backup"
+import { getTrash, restoreFromTrash, TRASH_RETENTION_DAYS } from "./trash"
+import { getAuditLog, restoreFromAudit, UnrestorableEntryError, type Actor } from "./audit"
+import { CompletedAgainError } from "./completions"
+import { initializeStorageData } from "./initialize"
+import {
+  describeFieldErrors,
+  toFieldErrors,
+  type FieldError,
+  timeRangeQuery,
+  recentFeedingsQuery,
+  auditLogQuery,
+  addChildBody,
+  updateChildBody,
+  recordIdBody,
+  pairTwinsBody,
+  pinBody,
+  setupBody,
+  addMemberBody,
+  memberIdBody,
+  pairedFeedingBody,
+  actualFeedingChangesBody,
+  restoreAuditEntryBody,
+  saveSettingsBody,
+  updateProfileBody,
+  updateFeedingBody,
+  completeFeedingBody,
+  feedingIdBody
+} from "./schemas"
+import { hasRole, type ApiHandler, type DiagnosticInfo, type ReadinessChecks, type Role } from "./contract"
+import { createOpenApiDocument, renderApiDocsPage, requiredRole, type RouteDefinition } from "./openapi"
+import { sendError, sendServerError, setRetryAfter } from "./errors"
+import { getConfig, redactRedisUrl } from "./config"
+import { renderMetrics } from "./metrics"
+import { getSchemaVersion, LATEST_SCHEMA_VERSION } from "./migrations"
+import {
+  addMember,
+  clearSessionCookie,
+  getSession,
+  isPinSet,
+  listMembers,
+  matchesBearerToken,
+  readSessionCookie,
+  removeMember,
+  setSessionCookie,
+  setUpPin,
+  signIn,
+  PinAlreadySetError,
+  SetupNotAllowedError,
+  PinInUseError,
+  SignInLockedError,
+  type Session
+} from "./auth"
+import { logger } from "./logger"
+
+const log = logger.child({ module: "routes" })
+
+// Paths whose data belongs to one child, chosen by childScope
+const CHILD_SCOPED_PATHS = ["/api/settings", "/api/profile", "/api/feedings", "/api/actual-feedings", "/api/twins", "/api/audit"]
+
+// Environment details included in status responses
+function environmentInfo() {
+  const config = getConfig()
+  return {
+    environment: config.profile,
+    vercel: config.vercel ? "true" : "false",
+    serverTime: new Date().toISOString()
+  }
+}
+
+/**
+ * Responds with 409 when a write was rejected because another client changed
+ * the data first. The response carries the latest data so the client can
+ * refresh and retry.
+ * @param latest Loads the current data to include in the response
+ * @returns true if the error was a conflict and a response was sent
+ */
+async function sendConflict(res: Response, error: unknown, latest: () => Promise<Record<string, unknown>>) {
+  if (!(error instanceof ConflictError)) {
+    return false
+  }
+
+  sendError(res, "CONFLICT", error.message, { current: error.current, ...(await latest()) })
+  return true
+}
+
+/**
+ * Responds with 400 and the problems with each field of a request
+ */
+function sendInvalidRequest(res: Response, errors: FieldError[]) {
+  sendError(res, "VALIDATION_FAILED", describeFieldErrors(errors), { errors })
+}
+
+/**
+ * Checks a request body against a schema before the handler runs. The handler
+ * gets the parsed body in req.body; an invalid body is answered with 400.
+ */
+function validateBody(schema: ZodType): RequestHandler {
+  return (req, res, next) => {
+    const result = schema.safeParse(req.body ?? {})
+    if (!result.success) {
+      sendInvalidRequest(res, toFieldErrors(result.error))
+      return
+    }
+    req.body = result.data
+    next()
+  }
+}
+
+/**
+ * Checks the query parameters against a schema before the handler runs. The
+ * handler gets the parsed parameters in res.locals.query.
+ */
+function validateQuery(schema: ZodType): RequestHandler {
+  return (req, res, next) => {
+    const result = schema.safeParse(req.query)
+    if (!result.success) {
+      sendInvalidRequest(res, toFieldErrors(result.error))
+      return
+    }
+    res.locals.query = result.data
+    next()
+  }
+}
+
+/**
+ * Answers requests to the API without a valid session cookie with 401,
+ * except those to the public routes. The session is left in
+ * res.locals.session for requireRole.
+ * @param publicRoutes "GET /api/..." for each route answered without a session
+ */
+function requireSession(publicRoutes: Set<string>): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.path.startsWith("/api") || publicRoutes.has(`${req.method} ${req.path}`)) {
+      next()
+      return
+    }
+
+    try {
+      const session = await getSession(readSessionCookie(req))
+      if (!session) {
+        sendError(res, "UNAUTHENTICATED", "Sign in with the household PIN")
+        return;
+      }
+      res.locals.session = session
+      next()
+    } catch (error) {
+      next(error)
+    }
+  }
+}
+
+/**
+ * Answers requests from a member whose role is below the route's with 403
+ */
+function requireRole(role: Role): RequestHandler {
+  return (req, res, next) => {
+    const session = res.locals.session as Session
+    if (!hasRole(session.role, role)) {
+      sendError(res, "FORBIDDEN", `${session.name} is signed in as a ${session.role}, which can't do this`)
+      return
+    }
+    next()
+  }
+}
+
+/**
+ * Scopes a request to one child: the one named by the X-Child-Id header or a
+ * childId query or body parameter, or the household's first child when none
+ * is given. The id is left in res.locals.childId for the handlers, and the
+ * signed-in member in res.locals.actor for the audit log.
+ */
+const childScope: RequestHandler = async (req, res, next) => {
+  try {
+    const requestedId = req.get("X-Child-Id") || req.query.childId || req.body?.childId
+    const childId = await resolveChildId(requestedId)
+
+    if (!childId) {
+      sendError(res, "NOT_FOUND", `Child ${requestedId} not found`)
+      return;
+    }
+
+    res.locals.childId = childId
+    const session = res.locals.session as Session
+    res.locals.actor = { id: session.memberId, name: session.name } satisfies Actor
+    next()
+  } catch (error) {
+    next(error)
+  }
+}
+
+// Session endpoints. A device signs in with the household PIN and gets a
+// session cookie, see ./auth.
+const getSessionHandler: ApiHandler<"/api/auth/session"> = async (req, res) => {
+  try {
+    const session = await getSession(readSessionCookie(req))
+    res.json({
+      success: true,
+      signedIn: session !== null,
+      pinSet: await isPinSet(),
+      ...(session && { memberId: session.memberId, name: session.name, role: session.role })
+    })
+  } catch (error) {
+    log.error("Error checking session", { error })
+    sendServerError(res, error, "Failed to check the session")
+  }
+}
+
+// Sets the household's first PIN and signs this device in, given the
+// server's SETUP_TOKEN
+const setUpPinHandler: ApiHandler<"/api/auth/setup"> = async (req, res) => {
+  try {
+    setSessionCookie(res, await setUpPin(req.body.pin, req.body.setupToken))
+    res.json({ success: true })
+  } catch (error) {
+    if (error instanceof SetupNotAllowedError) {
+      sendError(res, error.configured ? "UNAUTHENTICATED" : "OPERATION_NOT_ALLOWED", error.message)
+      return;
+    }
+    if (error instanceof PinAlreadySetError) {
+      sendError(res, "OPERATION_NOT_ALLOWED", error.message)
+      return;
+    }
+    log.error("Error setting up PIN", { error })
+    sendServerError(res, error, "Failed to set the PIN")
+  }
+}
+
+const signInHandler: ApiHandler<"/api/auth/login"> = async (req, res) => {
+  try {
+    if (!(await isPinSet())) {
+      sendError(res, "OPERATION_NOT_ALLOWED", "No PIN has been set yet; choose one first")
+      return;
+    }
+
+    // Behind Vercel's proxy req.ip is the client's, see api/index.ts
+    const result = await signIn(req.body.pin, req.ip ?? "unknown")
+    if ("attemptsLeft" in result) {
+      sendError(
+        res,
+        "UNAUTHENTICATED",
+        result.attemptsLeft > 0
+          ? `Wrong PIN; ${result.attemptsLeft} more ${result.attemptsLeft === 1 ? "try" : "tries"} before sign-in is locked`
+          : "Wrong PIN; sign-in from here is locked for 15 minutes"
+      )
+      return;
+    }
+
+    setSessionCookie(res, result.token)
+    res.json({ success: true })
+  } catch (error) {
+    if (error instanceof SignInLockedError) {
+      sendError(res, "TOO_MANY_ATTEMPTS", error.message, { lockedUntil: error.lockedUntil })
+      return;
+    }
+    log.error("Error signing in", { error })
+    sendServerError(res, error, "Failed to sign in")
+  }
+}
+
+const signOutHandler: ApiHandler<"/api/auth/logout"> = (req, res) => {
+  clearSessionCookie(res)
+  res.json({ success: true })
+}
+
+// The PINs the owner handed out to caregivers and viewers
+const getMembersHandler: ApiHandler<"/api/auth/members/get"> = async (req, res) => {
+  try {
+    res.json({ success: true, members: await listMembers() })
+  } catch (error) {
+    log.error("Error getting members", { error })
+    sendServerError(res, error, "Failed to get members")
+  }
+}
+
+const addMemberHandler: ApiHandler<"/api/auth/members/add"> = async (req, res) => {
+  try {
+    const { name, role, pin } = req.body
+    res.json({ success: true, member: await addMember(name, role, pin) })
+  } catch (error) {
+    if (error instanceof PinInUseError) {
+      sendError(res, "OPERATION_NOT_ALLOWED", error.message)
+      return;
+    }
+    log.error("Error adding member", { error })
+    sendServerError(res, error, "Failed to add member")
+  }
+}
+
+const removeMemberHandler: ApiHandler<"/api/auth/members/remove"> = async (req, res) => {
+  try {
+    if (!(await removeMember(req.body.id))) {
+      sendError(res, "NOT_FOUND", `Member ${req.body.id} not found`)
+      return;
+    }
+    res.json({ success: true })
+  } catch (error) {
+    log.error("Error removing member", { error })
+    sendServerError(res, error, "Failed to remove member")
+  }
+}
+
+// Status endpoints
+const apiStatusHandler: ApiHandler<"/api"> = (req, res) => {
+  res.json({
+    status: "online",
+    ...environmentInfo(),
+    message: "Baby Bottle Planner API is running"
+  })
+}
+
+const checkStorageConnection: ApiHandler<"/api/redis/check-connection"> = async (req, res) => {
+  try {
+    const storage = getStorage()
+    await storage.ping()
+
+    res.json({
+      connected: true,
+      driver: storage.driver,
+      message: `Successfully connected to ${storage.driver} storage`,
+      storage: storage.status(),
+      ...environmentInfo()
+    })
+  } catch (error) {
+    log.error("Storage connection error", { error })
+    setRetryAfter(res, error)
+    sendError(res, "STORAGE_UNAVAILABLE", "Failed to connect to storage", {
+      detail: error instanceof Error ? error.message : "Unknown error",
+      storage: getStorage().status(),
+      ...environmentInfo()
+    })
+  }
+}
+
+// Health endpoints for probes and monitoring. They are public, since probes
+// can't sign in; /api/metrics asks for METRICS_TOKEN when one is set.
+const livenessHandler: ApiHandler<"/api/health/live"> = (req, res) => {
+  res.json({ success: true, status: "live", uptimeSeconds: Math.round(process.uptime()) })
+}
+
+// Ready when the storage answers and the stored data is at this build's
+// schema. Each check is "ok" or what went wrong.
+const readinessHandler: ApiHandler<"/api/health/ready"> = async (req, res) => {
+  const checks: ReadinessChecks = { storage: "ok", schema: "ok" }
+  let storageError: unknown = null
+  try {
+    await getStorage().ping()
+    const version = await getSchemaVersion()
+    if (version !== LATEST_SCHEMA_VERSION) {
+      checks.schema = `stored data is at schema version ${version}, this build needs ${LATEST_SCHEMA_VERSION}`
+    }
+  } catch (error) {
+    storageError = error
+    checks.storage = error instanceof Error ? error.message : "Unknown error"
+    checks.schema = "not checked"
+  }
+
+  if (storageError) {
+    setRetryAfter(res, storageError)
+    sendError(res, "STORAGE_UNAVAILABLE", "Not ready: storage can't be reached", { checks, storage: getStorage().status() })
+    return
+  }
+  if (checks.schema !== "ok") {
+    sendError(res, "SCHEMA_NOT_READY", "Not ready: the stored data needs migrating", { checks })
+    return
+  }
+  res.json({ success: true, status: "ready", checks })
+}
+
+const metricsHandler: ApiHandler<"/api/metrics"> = (req, res) => {
+  const { metricsToken } = getConfig()
+  if (metricsToken && !matchesBearerToken(req.get("Authorization"), metricsToken)) {
+    sendError(res, "UNAUTHENTICATED", "Send METRICS_TOKEN as a bearer token")
+    return
+  }
+  res.type("text/plain; version=0.0.4").send(renderMetrics())
+}
+
+const diagnosticsHandler: ApiHandler<"/api/diagnostics"> = async (req, res) => {
+  try {
+    const storage = getStorage()
+    const config = getConfig()
+    const diagnosticInfo: DiagnosticInfo = {
+      timestamp: new Date().toISOString(),
+      environment: config.profile,
+      vercel: config.vercel ? "true" : "false",
+      region: config.vercelRegion || "unknown",
+      nodeVersion: process.version,
+      storageDriver: storage.driver,
+      redisUrl: redactRedisUrl(config.redisUrl),
+      redisConnected: false
+    }
+
+    // Add what the storage holds if it can be reached
+    try {
+      await storage.ping()
+      const keys = await storage.keys()
+      diagnosticInfo.redisConnected = true
+      diagnosticInfo.redisKeys = keys.slice(0, 5)
+      diagnosticInfo.keyCount = keys.length
+    } catch (storageError) {
+      diagnosticInfo.redisError = storageError instanceof Error ? storageError.message : "Unknown error"
+    }
+
+    res.json(diagnosticInfo)
+  } catch (error) {
+    log.error("Error in diagnostics endpoint", { error })
+    sendServerError(res, error, "Failed to gather diagnostics")
+  }
+}
+
+/**
+ * Fills in missing profile, settings and recommendations. Called from the
+ * frontend to fix missing data issues.
+ */
+const initializeStorageDataHandler: ApiHandler<"/api/redis/initialize-data"> = async (req, res) => {
+  log.info("Received request to initialize storage data...")
 
-// Get all recommendations
-export async function handleGetRecommendations() {
+  try {
+    const initialized = await initializeStorageData()
+
+    if (initialized) {
+      res.json({
+        success: true,
+        message: "Storage data initialized successfully"
+      })
+    } else {
+      sendError(res, "INTERNAL_ERROR", "Failed to initialize storage data")
+    }
+  } catch (error) {
+    log.error("Error while initializing storage data", { error })
+    sendServerError(res, error, "Error initializing storage data")
+  }
+}
+
+// Settings endpoints
+const getSettingsHandler: ApiHandler<"/api/settings/get"> = async (req, res) => {
+  try {
+    const settings = await getSettings(res.locals.childId)
+    res.json({ success: true, settings: settings || DEFAULT_FEEDING_SETTINGS })
+  } catch (error) {
+    log.error("Error getting settings", { error })
+    sendServerError(res, error, "Failed to get settings")
+  }
+}
+
+const saveSettingsHandler: ApiHandler<"/api/settings/save"> = async (req, res) => {
+  try {
+    const { settings } = req.body
+    await saveSettings(res.locals.childId, settings, res.locals.actor)
+    res.json({ success: true })
+  } catch (error) {
+    log.error("Error saving settings", { error })
+    sendServerError(res, error, "Failed to save settings")
+  }
+}
+
+// Recommendations and profile endpoints
+const getRecommendationsHandler: ApiHandler<"/api/recommendations/get"> = async (req, res) => {
   try {
     const recommendations = await getAllRecommendations()
-    return { success: true, recommendations }
+    res.json({ success: true, recommendations })
+  } catch (error) {
+    log.error("Error fetching recommendations", { error })
+    sendServerError(res, error, "Failed to fetch recommendations")
+  }
+}
+
+const getProfileHandler: ApiHandler<"/api/profile/get"> = async (req, res) => {
+  try {
+    const profile = await getProfile(res.locals.childId)
+    res.json({ success: true, profile })
+  } catch (error) {
+    log.error("Error fetching profile", { error })
+    sendServerError(res, error, "Failed to fetch profile")
+  }
+}
+
+const updateProfileHandler: ApiHandler<"/api/profile/update"> = async (req, res) => {
+  try {
+    const { birthDate } = req.body
+    const profile = await updateProfile(res.locals.childId, birthDate)
+    res.json({ success: true, profile })
+  } catch (error) {
+    log.error("Error updating profile", { error })
+    sendServerError(res, error, "Failed to update profile")
+  }
+}
+
+// Planned feedings endpoints
+const getFeedingsHandler: ApiHandler<"/api/feedings/get"> = async (req, res) => {
+  try {
+    const planned = await getFeedings(res.locals.childId)
+    const actual = await getActualFeedings(res.locals.childId)
+    res.json({ success: true, feedings: { planned, actual } })
+  } catch (error) {
+    log.error("Error getting feedings", { error })
+    sendServerError(res, error, "Failed to get feedings")
+  }
+}
+
+const getPlannedFeedingsHandler: ApiHandler<"/api/feedings/planned/get"> = async (req, res) => {
+  try {
+    const planned = await getFeedings(res.locals.childId)
+    res.json({ success: true, feedings: { planned } })
+  } catch (error) {
+    log.error("Error getting planned feedings", { error })
+    sendServerError(res, error, "Failed to get planned feedings")
+  }
+}
+
+const updateFeedingHandler: ApiHandler<"/api/feedings/update"> = async (req, res) => {
+  try {
+    const { feedingId, isCompleted } = req.body
+    const feedings = await updateFeeding(res.locals.childId, feedingId, isCompleted, res.locals.actor)
+    if (!feedings) {
+      sendError(res, "NOT_FOUND", "Feeding not found")
+      return;
+    }
+
+    res.json({ success: true, feedings })
   } catch (error) {
-    console.error("Error getting recommendations:", error)
-    return { success: false, error: "Failed to get recommendations" }
+    if (await sendConflict(res, error, async () => ({ feedings: { planned: await getFeedings(res.locals.childId) } }))) {
+      return;
+    }
+    log.error("Error updating feeding", { error })
+    sendServerError(res, error, "Failed to update feeding")
+  }
+}
+
+const planFeedingsHandler: ApiHandler<"/api/feedings/plan"> = async (req, res) => {
+  try {
+    const { feedings, relaxed } = await planFeedings(res.locals.childId)
+    res.json({
+      success: true,
+      feedings: { planned: feedings },
+      relaxed,
+      message: relaxed.length > 0
+        ? `New feeding plan generated; ${relaxed.length} ${relaxed.length === 1 ? "constraint was" : "constraints were"} relaxed`
+        : "New feeding plan generated successfully"
+    })
+  } catch (error) {
+    log.error("Error planning feedings", { error })
+    sendServerError(res, error, "Failed to plan feedings")
+  }
+}
+
+const completeFeedingHandler: ApiHandler<"/api/feedings/complete"> = async (req, res) => {
+  try {
+    const { feedingId, actualAmount, occurredAt } = req.body;
+    const feedings = await completeFeeding(
+      res.locals.childId,
+      feedingId,
+      actualAmount,
+      res.locals.actor,
+      occurredAt === undefined ? undefined : Date.parse(occurredAt)
+    );
+    if (!feedings) {
+      sendError(res, "NOT_FOUND", "Feeding not found")
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: "Feeding marked as completed",
+      feedings
+    });
+  } catch (error) {
+    if (await sendConflict(res, error, async () => ({ feedings: { planned: await getFeedings(res.locals.childId) } }))) {
+      return;
+    }
+    log.error("Error completing feeding", { error });
+    sendServerError(res, error, "Failed to complete feeding");
+  }
+};
+
+// Reverts a completion: reopens the planned feeding and drops the actual feeding it logged
+const uncompleteFeedingHandler: ApiHandler<"/api/feedings/uncomplete"> = async (req, res) => {
+  try {
+    const { feedingId } = req.body;
+    const feedings = await uncompleteFeeding(res.locals.childId, feedingId, res.locals.actor);
+    if (!feedings) {
+      sendError(res, "NOT_FOUND", "Feeding not found")
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: "Feeding marked as not completed",
+      feedings
+    });
+  } catch (error) {
+    if (await sendConflict(res, error, async () => ({ feedings: { planned: await getFeedings(res.locals.childId) } }))) {
+      return;
+    }
+    log.error("Error uncompleting feeding", { error });
+    sendServerError(res, error, "Failed to uncomplete feeding");
+  }
+};
+
+const getCompletedFeedingsHandler: ApiHandler<"/api/feedings/completed/get"> = async (req, res) => {
+  try {
+    const completedFeedings = await getCompletedFeedings(res.locals.childId);
+
+    res.json({
+      success: true,
+      feedings: { completed: completedFeedings }
+    });
+  } catch (error) {
+    log.error("Error getting completed feedings", { error });
+    sendServerError(res, error, "Failed to get completed feedings");
+  }
+};
+
+// Actual feedings endpoints. The /api/feedings/actual routes return the
+// feedings as feedings.actual; the older /api/actual-feedings routes return
+// them as actualFeedings.
+type ActualFeedingsBody = (feedings: ActualFeeding[]) => { feedings: { actual: ActualFeeding[] } } | { actualFeedings: ActualFeeding[] }
+
+type ActualFeedingsPath =
+  | "/api/feedings/actual/get"
+  | "/api/feedings/actual/add"
+  | "/api/feedings/actual/update"
+  | "/api/feedings/actual/remove"
+  | "/api/actual-feedings/get"
+  | "/api/actual-feedings/add"
+  | "/api/actual-feedings/update"
+  | "/api/actual-feedings/remove"
+
+const nestedFeedings: ActualFeedingsBody = (actual) => ({ feedings: { actual } })
+const flatFeedings: ActualFeedingsBody = (actualFeedings) => ({ actualFeedings })
+
+const getActualFeedingsHandler = (body: ActualFeedingsBody): ApiHandler<ActualFeedingsPath> => async (req, res) => {
+  try {
+    // Optional ?from=&to= ISO timestamps limit the feedings to a time range
+    const actualFeedings = await getActualFeedings(res.locals.childId, res.locals.query)
+    res.json({ success: true, ...body(actualFeedings) })
+  } catch (error) {
+    log.error("Error getting actual feedings", { error })
+    sendServerError(res, error, "Failed to get actual feedings")
+  }
+}
+
+const addActualFeedingHandler = (body: ActualFeedingsBody): ApiHandler<ActualFeedingsPath> => async (req, res) => {
+  try {
+    // Accepts the canonical fields or the legacy date/time/amount ones
+    const input = readActualFeedingInput(req.body)
+
+    if ("errors" in input) {
+      sendInvalidRequest(res, input.errors)
+      return;
+    }
+
+    const updatedFeedings = await addActualFeeding(res.locals.childId, input.feeding, res.locals.actor)
+
+    res.json({
+      success: true,
+      ...body(updatedFeedings),
+      message: "Actual feeding added successfully"
+    })
+  } catch (error) {
+    log.error("Error adding actual feeding", { error })
+    sendServerError(res, error, "Failed to add actual feeding")
+  }
+}
+
+const updateActualFeedingHandler = (body: ActualFeedingsBody): ApiHandler<ActualFeedingsPath> => async (req, res) => {
+  try {
+    const { id, version } = req.body
+    const input = readActualFeedingChanges(req.body)
+
+    if ("errors" in input) {
+      sendInvalidRequest(res, input.errors)
+      return;
+    }
+
+    const updatedFeedings = await updateActualFeeding(res.locals.childId, id, input.changes, version, res.locals.actor)
+
+    res.json({
+      success: true,
+      ...body(updatedFeedings),
+      message: "Actual feeding updated successfully"
+    })
+  } catch (error) {
+    if (await sendConflict(res, error, async () => ({ actualFeedings: await getActualFeedings(res.locals.childId) }))) {
+      return;
+    }
+    log.error("Error updating actual feeding", { error })
+    sendServerError(res, error, "Failed to update actual feeding")
+  }
+}
+
+const removeActualFeedingHandler = (body: ActualFeedingsBody): ApiHandler<ActualFeedingsPath> => async (req, res) => {
+  try {
+    const { id, version } = req.body
+
+    // Move the feeding to the trash, from where it can be restored
+    const updatedFeedings = await removeActualFeeding(res.locals.childId, id, version, res.locals.actor)
+
+    res.json({
+      success: true,
+      ...body(updatedFeedings),
+      message: "Actual feeding removed successfully"
+    })
+  } catch (error) {
+    if (await sendConflict(res, error, async () => ({ actualFeedings: await getActualFeedings(res.locals.childId) }))) {
+      return;
+    }
+    log.error("Error removing actual feeding", { error })
+    sendServerError(res, error, "Failed to remove actual feeding")
+  }
+}
+
+// How long ago an instant was, for display
+function formatTimeAgo(instant: string) {
+  const diffMins = Math.floor((Date.now() - Date.parse(instant)) / 60000)
+  const diffHours = Math.floor(diffMins / 60)
+  const diffDays = Math.floor(diffHours / 24)
+
+  if (diffDays > 0) {
+    return `${diffDays} day${diffDays > 1 ? "s" : ""} ago`
+  }
+  if (diffHours > 0) {
+    return `${diffHours} hour${diffHours > 1 ? "s" : ""} ago`
+  }
+  if (diffMins > 0) {
+    return `${diffMins} minute${diffMins > 1 ? "s" : ""} ago`
+  }
+  return "Just now"
+}
+
+// The most recent actual feedings (?limit=, 3 by default), newest first, for a preview
+const getRecentFeedingsHandler: ApiHandler<"/api/feedings/recent"> = async (req, res) => {
+  try {
+    const { limit } = res.locals.query
+
+    // Actual feedings are stored oldest first, so the most recent are at the end
+    const actualFeedings = await getActualFeedings(res.locals.childId)
+    const recentFeedings = actualFeedings.slice(-limit).reverse().map((feeding) => ({
+      ...feeding,
+      // Shown in the unit it was entered in
+      displayAmount: `${fromMillilitres(feeding.volumeMl, feeding.sourceUnit)} ${feeding.sourceUnit}`,
+      timeAgo: formatTimeAgo(feeding.occurredAt)
+    }))
+
+    res.json({ success: true, recentFeedings })
+  } catch (error) {
+    log.error("Error getting recent feedings", { error })
+    sendServerError(res, error, "Failed to get recent feedings")
+  }
+}
+
+// Removed feedings stay in the trash for TRASH_RETENTION_DAYS
+const getTrashHandler: ApiHandler<"/api/feedings/actual/trash" | "/api/actual-feedings/trash"> = async (req, res) => {
+  try {
+    const trash = await getTrash(res.locals.childId)
+    res.json({ success: true, trash, retentionDays: TRASH_RETENTION_DAYS })
+  } catch (error) {
+    log.error("Error getting trash", { error })
+    sendServerError(res, error, "Failed to get trash")
+  }
+}
+
+const restoreFromTrashHandler: ApiHandler<"/api/feedings/actual/restore" | "/api/actual-feedings/restore"> = async (req, res) => {
+  try {
+    const { id } = req.body
+    const restored = await restoreFromTrash(res.locals.childId, id, res.locals.actor)
+    if (!restored) {
+      sendError(res, "NOT_FOUND", "Feeding not found in the trash")
+      return;
+    }
+
+    res.json({
+      success: true,
+      actualFeeding: restored,
+      actualFeedings: await getActualFeedings(res.locals.childId),
+      trash: await getTrash(res.locals.childId)
+    })
+  } catch (error) {
+    if (error instanceof CompletedAgainError) {
+      sendError(res, "OPERATION_NOT_ALLOWED", error.message)
+      return;
+    }
+    log.error("Error restoring feeding from trash", { error })
+    sendServerError(res, error, "Failed to restore feeding")
+  }
+}
+
+// Children endpoints
+const getChildrenHandler: ApiHandler<"/api/children/get"> = async (req, res) => {
+  try {
+    const children = await getChildren()
+    res.json({ success: true, children })
+  } catch (error) {
+    log.error("Error getting children", { error })
+    sendServerError(res, error, "Failed to get children")
+  }
+}
+
+const addChildHandler: ApiHandler<"/api/children/add"> = async (req, res) => {
+  try {
+    const { name, birthDate } = req.body
+    const child = await addChild(name, birthDate)
+    res.json({ success: true, child, children: await getChildren() })
+  } catch (error) {
+    log.error("Error adding child", { error })
+    sendServerError(res, error, "Failed to add child")
+  }
+}
+
+const updateChildHandler: ApiHandler<"/api/children/update"> = async (req, res) => {
+  try {
+    const { id, name, version } = req.body
+    const child = await renameChild(id, name, version)
+    if (!child) {
+      sendError(res, "NOT_FOUND", "Child not found")
+      return;
+    }
+
+    res.json({ success: true, child, children: await getChildren() })
+  } catch (error) {
+    if (await sendConflict(res, error, async () => ({ children: await getChildren() }))) {
+      return;
+    }
+    log.error("Error updating child", { error })
+    sendServerError(res, error, "Failed to update child")
+  }
+}
+
+const removeChildHandler: ApiHandler<"/api/children/remove"> = async (req, res) => {
+  try {
+    const { id } = req.body
+    const removed = await removeChild(id)
+    if (!removed) {
+      sendError(res, "NOT_FOUND", "Child not found")
+      return;
+    }
+
+    res.json({ success: true, children: await getChildren() })
+  } catch (error) {
+    if (error instanceof LastChildError) {
+      sendError(res, "OPERATION_NOT_ALLOWED", error.message)
+      return;
+    }
+    log.error("Error removing child", { error })
+    sendServerError(res, error, "Failed to remove child")
+  }
+}
+
+// Twins endpoints; the child is chosen by childScope
+const getTwinHandler: ApiHandler<"/api/twins/get"> = async (req, res) => {
+  try {
+    const twin = await getTwin(res.locals.childId)
+    res.json({ success: true, twin })
+  } catch (error) {
+    log.error("Error getting twin", { error })
+    sendServerError(res, error, "Failed to get twin")
+  }
+}
+
+const pairTwinsHandler: ApiHandler<"/api/twins/pair"> = async (req, res) => {
+  try {
+    const { twinId } = req.body
+
+    if (twinId === res.locals.childId) {
+      sendInvalidRequest(res, [{ field: "twinId", message: "must be the id of another child" }])
+      return;
+    }
+
+    const twins = await pairTwins(res.locals.childId, twinId)
+    if (!twins) {
+      sendError(res, "NOT_FOUND", `Child ${twinId} not found`)
+      return;
+    }
+
+    res.json({ success: true, twin: twins[1], children: await getChildren() })
+  } catch (error) {
+    log.error("Error pairing twins", { error })
+    sendServerError(res, error, "Failed to pair twins")
+  }
+}
+
+const unpairTwinsHandler: ApiHandler<"/api/twins/unpair"> = async (req, res) => {
+  try {
+    await unpairTwins(res.locals.childId)
+    res.json({ success: true, children: await getChildren() })
+  } catch (error) {
+    log.error("Error unpairing twins", { error })
+    sendServerError(res, error, "Failed to unpair twins")
+  }
+}
+
+const getTwinIntakeHandler: ApiHandler<"/api/twins/intake"> = async (req, res) => {
+  try {
+    // Optional ?from=&to= ISO timestamps, usually the start of today
+    const range = res.locals.query
+    const twin = await getTwin(res.locals.childId)
+    if (!twin) {
+      sendError(res, "OPERATION_NOT_ALLOWED", "Twins mode is not on for this child")
+      return;
+    }
+
+    const children = await getChildren()
+    const child = children.find((each) => each.id === res.locals.childId)!
+    const intake = await getTwinIntake([child, twin], range)
+    res.json({ success: true, intake })
+  } catch (error) {
+    log.error("Error getting twin intake", { error })
+    sendServerError(res, error, "Failed to get twin intake")
+  }
+}
+
+const addPairedFeedingHandler: ApiHandler<"/api/twins/feedings/add"> = async (req, res) => {
+  try {
+    const input = readActualFeedingInput(req.body)
+    const { twinVolumeMl } = req.body
+
+    if ("errors" in input) {
+      sendInvalidRequest(res, input.errors)
+      return;
+    }
+
+    const twin = await getTwin(res.locals.childId)
+    if (!twin) {
+      sendError(res, "OPERATION_NOT_ALLOWED", "Twins mode is not on for this child")
+      return;
+    }
+
+    const actualFeedings = await addPairedFeeding(res.locals.childId, twin.id, input.feeding, twinVolumeMl, res.locals.actor)
+    res.json({ success: true, actualFeedings })
+  } catch (error) {
+    log.error("Error adding paired feeding", { error })
+    sendServerError(res, error, "Failed to add paired feeding")
+  }
+}
+
+// Audit log endpoints; the child is chosen by childScope
+const getAuditLogHandler: ApiHandler<"/api/audit/get"> = async (req, res) => {
+  try {
+    const entries = await getAuditLog(res.locals.childId, res.locals.query)
+    res.json({ success: true, entries })
+  } catch (error) {
+    log.error("Error getting audit log", { error })
+    sendServerError(res, error, "Failed to get audit log")
+  }
+}
+
+const restoreFromAuditHandler: ApiHandler<"/api/audit/restore"> = async (req, res) => {
+  try {
+    const { entryId, version } = req.body
+    const restored = await restoreFromAudit(res.locals.childId, entryId, res.locals.actor, version)
+    if (!restored) {
+      sendError(res, "NOT_FOUND", "Audit entry not found")
+      return;
+    }
+
+    res.json({
+      success: true,
+      ...restored,
+      actualFeedings: await getActualFeedings(res.locals.childId)
+    })
+  } catch (error) {
+    if (error instanceof UnrestorableEntryError || error instanceof CompletedAgainError) {
+      sendError(res, "OPERATION_NOT_ALLOWED", error.message)
+      return;
+    }
+    if (await sendConflict(res, error, async () => ({ actualFeedings: await getActualFeedings(res.locals.childId) }))) {
+      return;
+    }
+    log.error("Error restoring from audit log", { error })
+    sendServerError(res, error, "Failed to restore from audit log")
+  }
+}
+
+// Admin endpoints
+const backupHandler: RequestHandler = async (req, res) => {
+  try {
+    const archive = await createBackup()
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="bottle-planner-${archive.createdAt.replace(/[:.]/g, "-")}.json"`
+    )
+    res.json(archive)
+  } catch (error) {
+    log.error("Error creating backup", { error })
+    sendServerError(res, error, "Failed to create backup")
+  }
+}
+
+const CONFLICT = "CONFLICT: someone else changed the record first; the latest data is included"
+
+// Every endpoint. The router serves them and the OpenAPI document describes
+// them, so add new endpoints here.
+const API_ROUTES: RouteDefinition[] = [
+  { method: "get", path: "/api", summary: "API status and environment", public: true, handler: apiStatusHandler },
+  {
+    method: "get",
+    path: "/api/auth/session",
+    summary: "Whether this device is signed in and whether the household has a PIN",
+    public: true,
+    handler: getSessionHandler
+  },
+  {
+    method: "post",
+    path: "/api/auth/setup",
+    summary: "Set the household's first PIN with the server's setup code and sign in",
+    body: setupBody,
+    public: true,
+    errors: {
+      400: "OPERATION_NOT_ALLOWED: a PIN has already been set, or no SETUP_TOKEN is configured",
+      401: "UNAUTHENTICATED: wrong setup code"
+    },
+    handler: setUpPinHandler
+  },
+  {
+    method: "post",
+    path: "/api/auth/login",
+    summary: "Sign in with the household PIN",
+    body: pinBody,
+    public: true,
+    errors: {
+      400: "OPERATION_NOT_ALLOWED: no PIN has been set yet",
+      401: "UNAUTHENTICATED: wrong PIN",
+      429: "TOO_MANY_ATTEMPTS: sign-in from this client is locked after 5 wrong PINs in a row"
+    },
+    handler: signInHandler
+  },
+  { method: "post", path: "/api/auth/logout", summary: "Sign this device out", public: true, handler: signOutHandler },
+  {
+    method: "get",
+    path: "/api/auth/members/get",
+    summary: "List the caregivers and viewers with their own PIN",
+    role: "owner",
+    handler: getMembersHandler
+  },
+  {
+    method: "post",
+    path: "/api/auth/members/add",
+    summary: "Give a caregiver or viewer their own PIN",
+    body: addMemberBody,
+    errors: { 400: "OPERATION_NOT_ALLOWED: the PIN is already in use" },
+    handler: addMemberHandler
+  },
+  {
+    method: "post",
+    path: "/api/auth/members/remove",
+    summary: "Take a member's PIN away and sign them out",
+    body: memberIdBody,
+    errors: { 404: "NOT_FOUND: the member doesn't exist" },
+    handler: removeMemberHandler
+  },
+  {
+    method: "get",
+    path: "/api/health/live",
+    summary: "Liveness probe: the server process is up",
+    public: true,
+    handler: livenessHandler
+  },
+  {
+    method: "get",
+    path: "/api/health/ready",
+    summary: "Readiness probe: storage answers and the stored data is at this build's schema",
+    public: true,
+    errors: { 503: "SCHEMA_NOT_READY: the stored data needs migrating; each check is listed in `checks`" },
+    handler: readinessHandler
+  },
+  {
+    method: "get",
+    path: "/api/metrics",
+    summary: "Request, storage, AI planner and Redis metrics in the Prometheus text format",
+    public: true,
+    responseType: "text/plain",
+    errors: { 401: "UNAUTHENTICATED: METRICS_TOKEN is set and wasn't sent as a bearer token" },
+    handler: metricsHandler
+  },
+  {
+    method: "get",
+    path: "/api/diagnostics",
+    summary: "Environment, storage driver and a sample of the stored keys",
+    handler: diagnosticsHandler
+  },
+  {
+    method: "get",
+    path: "/api/redis/check-connection",
+    summary: "Verify storage connectivity",
+    public: true,
+    handler: checkStorageConnection
+  },
+  {
+    method: "post",
+    path: "/api/redis/initialize-data",
+    summary: "Fill in missing profile, settings and recommendations",
+    handler: initializeStorageDataHandler
+  },
+  { method: "get", path: "/api/children/get", summary: "List the household's children", handler: getChildrenHandler },
+  { method: "post", path: "/api/children/add", summary: "Add a child", body: addChildBody, handler: addChildHandler },
+  {
+    method: "post",
+    path: "/api/children/update",
+    summary: "Rename a child",
+    body: updateChildBody,
+    errors: { 404: "NOT_FOUND: the child doesn't exist", 409: CONFLICT },
+    handler: updateChildHandler
+  },
+  {
+    method: "post",
+    path: "/api/children/remove",
+    summary: "Remove a child and all of its data",
+    body: recordIdBody,
+    errors: { 400: "OPERATION_NOT_ALLOWED: the last remaining child can't be removed", 404: "NOT_FOUND: the child doesn't exist" },
+    handler: removeChildHandler
+  },
+  { method: "get", path: "/api/twins/get", summary: "Get the child's twin, or null", handler: getTwinHandler },
+  {
+    method: "post",
+    path: "/api/twins/pair",
+    summary: "Turn on twins mode with another child",
+    body: pairTwinsBody,
+    errors: { 404: "NOT_FOUND: the twin doesn't exist" },
+    handler: pairTwinsHandler
+  },
+  { method: "post", path: "/api/twins/unpair", summary: "Turn off twins mode", handler: unpairTwinsHandler },
+  {
+    method: "get",
+    path: "/api/twins/intake",
+    summary: "Each twin's total intake and daily recommendation",
+    query: timeRangeQuery,
+    errors: { 400: "OPERATION_NOT_ALLOWED: twins mode is not on for this child" },
+    handler: getTwinIntakeHandler
+  },
+  {
+    method: "post",
+    path: "/api/twins/feedings/add",
+    summary: "Log a feeding given to both twins (twinVolumeMl is the twin's amount)",
+    body: pairedFeedingBody,
+    documentedBody: actualFeedingInput.extend({ twinVolumeMl: pairedFeedingBody.shape.twinVolumeMl }),
+    errors: { 400: "OPERATION_NOT_ALLOWED: twins mode is not on for this child" },
+    role: "caregiver",
+    handler: addPairedFeedingHandler
+  },
+  {
+    method: "get",
+    path: "/api/audit/get",
+    summary: "Get the child's audit log, newest first",
+    query: auditLogQuery,
+    handler: getAuditLogHandler
+  },
+  {
+    method: "post",
+    path: "/api/audit/restore",
+    summary: "Restore a feeding or the settings from an audit entry",
+    body: restoreAuditEntryBody,
+    errors: {
+      400: "OPERATION_NOT_ALLOWED: completed feedings from before schema version 5 can't be restored, nor a completion whose planned feeding was completed again",
+      404: "NOT_FOUND: the audit entry doesn't exist",
+      409: CONFLICT
+    },
+    handler: restoreFromAuditHandler
+  },
+  {
+    method: "get",
+    path: "/api/admin/backup",
+    summary: "Download a backup archive of all planner data",
+    role: "owner",
+    handler: backupHandler
+  },
+  {
+    method: "get",
+    path: "/api/settings/get",
+    summary: "Get the child's settings, or the defaults if none are saved",
+    handler: getSettingsHandler
+  },
+  {
+    method: "post",
+    path: "/api/settings/save",
+    summary: "Save the child's settings",
+    body: saveSettingsBody,
+    handler: saveSettingsHandler
+  },
+  {
+    method: "get",
+    path: "/api/recommendations/get",
+    summary: "Get feeding recommendations by age",
+    handler: getRecommendationsHandler
+  },
+  { method: "get", path: "/api/profile/get", summary: "Get the baby's profile", handler: getProfileHandler },
+  {
+    method: "post",
+    path: "/api/profile/update",
+    summary: "Set the baby's birth date and recompute the profile",
+    body: updateProfileBody,
+    handler: updateProfileHandler
+  },
+  { method: "get", path: "/api/feedings/get", summary: "Get all feedings (planned and actual)", handler: getFeedingsHandler },
+  { method: "get", path: "/api/feedings/planned/get", summary: "Get planned feedings", handler: getPlannedFeedingsHandler },
+  {
+    method: "post",
+    path: "/api/feedings/plan",
+    summary: "Generate a new feeding plan with AI, falling back to a rule-based plan",
+    errors: { 500: "AI_PLANNER_FAILED: no settings to plan from, or both planners failed" },
+    handler: planFeedingsHandler
+  },
+  {
+    method: "post",
+    path: "/api/feedings/update",
+    summary: "Complete or reopen a planned feeding, logging or removing its actual feeding",
+    body: updateFeedingBody,
+    errors: {
+      404: "NOT_FOUND: the feeding doesn't exist",
+      409: "CONFLICT: someone else completed or reopened the feeding first"
+    },
+    role: "caregiver",
+    handler: updateFeedingHandler
+  },
+  {
+    method: "post",
+    path: "/api/feedings/complete",
+    summary: "Mark a planned feeding completed and log it as an actual feeding",
+    body: completeFeedingBody,
+    errors: { 404: "NOT_FOUND: the feeding doesn't exist", 409: "CONFLICT: the feeding was already completed" },
+    role: "caregiver",
+    handler: completeFeedingHandler
+  },
+  {
+    method: "post",
+    path: "/api/feedings/uncomplete",
+    summary: "Reopen a completed feeding and remove the actual feeding it logged",
+    body: feedingIdBody,
+    errors: { 404: "NOT_FOUND: the feeding doesn't exist", 409: "CONFLICT: the feeding was already reopened" },
+    role: "caregiver",
+    handler: uncompleteFeedingHandler
+  },
+  {
+    method: "get",
+    path: "/api/feedings/completed/get",
+    summary: "Get the actual feedings that completed a planned feeding",
+    handler: getCompletedFeedingsHandler
+  },
+  {
+    method: "get",
+    path: "/api/feedings/recent",
+    summary: "Get the most recent actual feedings, newest first",
+    query: recentFeedingsQuery,
+    handler: getRecentFeedingsHandler
+  },
+  ...actualFeedingRoutes("/api/feedings/actual", nestedFeedings),
+  // Older actual feedings endpoints, kept for older clients
+  ...actualFeedingRoutes("/api/actual-feedings", flatFeedings)
+]
+
+// The actual feedings endpoints under a path, answering in the given shape
+function actualFeedingRoutes(base: string, body: ActualFeedingsBody): RouteDefinition[] {
+  return [
+    {
+      method: "get",
+      path: `${base}/get`,
+      summary: "Get actual feedings",
+      query: timeRangeQuery,
+      handler: getActualFeedingsHandler(body)
+    },
+    {
+      method: "post",
+      path: `${base}/add`,
+      summary: "Add an actual feeding (the legacy date, time and amount fields are accepted too)",
+      documentedBody: actualFeedingInput,
+      role: "caregiver",
+      handler: addActualFeedingHandler(body)
+    },
+    {
+      method: "post",
+      path: `${base}/update`,
+      summary: "Update an actual feeding",
+      body: actualFeedingChangesBody,
+      documentedBody: recordIdBody.merge(actualFeedingChanges),
+      errors: { 409: CONFLICT },
+      role: "caregiver",
+      handler: updateActualFeedingHandler(body)
+    },
+    {
+      method: "post",
+      path: `${base}/remove`,
+      summary: "Move an actual feeding to the trash",
+      body: recordIdBody,
+      errors: { 409: CONFLICT },
+      handler: removeActualFeedingHandler(body)
+    },
+    { method: "get", path: `${base}/trash`, summary: "List recently removed actual feedings", handler: getTrashHandler },
+    {
+      method: "post",
+      path: `${base}/restore`,
+      summary: "Put a removed actual feeding back",
+      body: recordIdBody,
+      errors: {
+        400: "OPERATION_NOT_ALLOWED: the planned feeding it completed has been completed again",
+        404: "NOT_FOUND: the feeding isn't in the trash"
+      },
+      handler: restoreFromTrashHandler
+    }
+  ]
+}
+
+const rootHandler: RequestHandler = (req, res) => {
+  res.json({
+    message: "Baby Bottle Planner API",
+    status: "Running",
+    endpoints: [...new Set(API_ROUTES.map((route) => route.path)), "/api/openapi.json", "/api/docs"],
+    documentation: "See /api/docs, or API_SETUP.md for more information"
+  })
+}
+
+/**
+ * Creates the router serving the whole API. It expects JSON bodies to have
+ * been parsed already.
+ */
+export function createApiRouter() {
+  const router = Router()
+  const openApiDocument = createOpenApiDocument(API_ROUTES, CHILD_SCOPED_PATHS)
+  const publicRoutes = new Set(
+    API_ROUTES.filter((route) => route.public).map((route) => `${route.method.toUpperCase()} ${route.path}`)
+  )
+
+  // Reads answered from the last-known snapshot while storage is down are
+  // marked stale, see ./storage/snapshot
+  router.use(staleResponses)
+
+  // Everything else under /api needs a session
+  router.use(requireSession(publicRoutes))
+
+  // Per-child data is read and written for the child chosen by childScope
+  router.use(CHILD_SCOPED_PATHS, childScope)
+
+  router.get("/", rootHandler)
+  router.get("/api/openapi.json", (req, res) => {
+    res.json(openApiDocument)
+  })
+  router.get("/api/docs", (req, res) => {
+    res.type("html").send(renderApiDocsPage(openApiDocument))
+  })
+
+  for (const route of API_ROUTES) {
+    const validators = [
+      ...(route.public ? [] : [requireRole(requiredRole(route))]),
+      ...(route.query ? [validateQuery(route.query)] : []),
+      ...(route.body ? [validateBody(route.body)] : [])
+    ]
+    router[route.method](route.path, ...validators, route.handler)
+  }
+
+  router.use("/api", (req, res) => {
+    sendError(res, "NOT_FOUND", `No endpoint at ${req.method} ${req.originalUrl}; see /api/docs`)
+  })
+
+  return router
+}
+
+/**
+ * Answers errors the handlers passed on instead of responding themselves.
+ * Registered after the router by both entry points.
+ */
+export const apiErrorHandler: ErrorRequestHandler = (err: Error & { status?: number }, req, res, next) => {
+  // Bodies that aren't JSON are rejected by express.json() with a 400
+  if (err.status === 400) {
+    sendInvalidRequest(res, [{ field: "body", message: err.message || "must be valid JSON" }])
+    return
   }
-} 
\ No newline at end of file
+  log.error("Unhandled error", { error: err })
+  sendServerError(res, err, "Internal Server Error")
+}
@@ -0,0 +1,312 @@
+import { z, type ZodError, type ZodType } from "zod"
+import type { ActualFeeding, PlannedFeeding } from "./feedings"
+import type { FeedingSettings } from "./settings"
+import type { Child } from "./children"
+import type { TrashedFeeding } from "./trash"
+import type { Household, HouseholdMember } from "./auth"
+import { PIN_LENGTH } from "./contract"
+import { logger } from "./logger"
+
+const log = logger.child({ module: "schemas" })
+
+// Schemas for the planner's records and for the API's request bodies. The
+// record schemas check data on its way into storage and again when it is read
+// back, so a corrupt record is reported rather than passed on to the UI.
+
+// One problem with a request body or stored record, e.g. "feedWindows.min"
+export interface FieldError {
+  field: string
+  message: string
+}
+
+/**
+ * Thrown when a stored document fails its schema, e.g. settings edited by
+ * hand in Redis. Lists of records skip corrupt entries instead, see
+ * keepValidRecords.
+ */
+export class CorruptRecordError extends Error {
+  constructor(readonly record: string, readonly errors: FieldError[]) {
+    super(`Stored ${record} are invalid: ${describeFieldErrors(errors)}`)
+    this.name = "CorruptRecordError"
+  }
+}
+
+/**
+ * Lists a failed parse's problems by the dotted path of the field
+ */
+export function toFieldErrors(error: ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join(".") || "body",
+    message: issue.message
+  }))
+}
+
+/**
+ * Joins field errors into one message, e.g. for a toast
+ */
+export function describeFieldErrors(errors: FieldError[]) {
+  return errors.map((error) => `${error.field}: ${error.message}`).join("; ")
+}
+
+/**
+ * Drops the records that fail a schema, logging each with its problems, so
+ * one corrupt record doesn't break the whole list
+ * @param record What the records are, for the log
+ */
+export function keepValidRecords<T>(record: string, items: unknown[], schema: ZodType<T>): T[] {
+  return items.flatMap((item) => {
+    const result = schema.safeParse(item)
+    if (result.success) {
+      return [result.data]
+    }
+    const id = (item as { id?: unknown } | null)?.id ?? "without id"
+    log.warn(`Skipping corrupt ${record}`, { id, problems: describeFieldErrors(toFieldErrors(result.error)) })
+    return []
+  })
+}
+
+/**
+ * Checks a stored document against its schema
+ * @param record What the document is, for the error
+ * @throws CorruptRecordError if it fails
+ */
+export function checkStoredDocument<T>(record: string, value: unknown, schema: ZodType<T>): T {
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    throw new CorruptRecordError(record, toFieldErrors(result.error))
+  }
+  return result.data
+}
+
+// Missing fields read "is required" rather than zod's bare "Required"
+z.setErrorMap((issue, context) =>
+  issue.code === "invalid_type" && issue.received === "undefined"
+    ? { message: "is required" }
+    : { message: context.defaultError }
+)
+
+// Field types
+
+const requiredString = z.string().trim().min(1, "is required")
+
+export const isoInstant = z
+  .string({ invalid_type_error: "must be a valid ISO date" })
+  .refine((value) => !isNaN(Date.parse(value)), "must be a valid ISO date")
+  .describe("ISO 8601 date and time, e.g. 2025-03-24T03:15:00.000Z")
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "must be a time of day as HH:MM")
+
+const positiveNumber = z
+  .number({ invalid_type_error: "must be a number" })
+  .positive("must be a positive number")
+
+const recordVersion = z.number().int().nonnegative().optional()
+
+export const volumeUnitSchema = z.enum(["ml", "oz"], {
+  errorMap: () => ({ message: "must be one of: ml, oz" })
+})
+
+// Records
+
+// A range that must run from min to max, with the third value in between
+function orderedRange<T extends z.ZodRawShape>(shape: T, middle: keyof T & string) {
+  return z.object(shape).superRefine((range: Record<string, number>, context) => {
+    if (range.min > range.max) {
+      context.addIssue({ code: "custom", path: ["min"], message: "must not be more than max" })
+    }
+    if (range[middle] < range.min || range[middle] > range.max) {
+      context.addIssue({ code: "custom", path: [middle], message: "must be between min and max" })
+    }
+  })
+}
+
+export const feedingSettingsSchema: ZodType<FeedingSettings> = z.object({
+  feedWindows: orderedRange({ min: positiveNumber, max: positiveNumber, ideal: positiveNumber }, "ideal"),
+  feedAmounts: orderedRange({ min: positiveNumber, max: positiveNumber, target: positiveNumber }, "target"),
+  useMetric: z.boolean(),
+  lockedFeedings: z.object({
+    enabled: z.boolean(),
+    times: z.array(clockTime)
+  })
+}) as ZodType<FeedingSettings>
+
+// Stored records keep fields the schema doesn't know about, so nothing is
+// lost when they are read back
+const actualFeedingObject = z.object({
+  id: requiredString,
+  occurredAt: isoInstant,
+  plannedFor: isoInstant.optional(),
+  volumeMl: positiveNumber,
+  sourceUnit: volumeUnitSchema,
+  notes: z.string().optional(),
+  pairId: z.string().optional(),
+  plannedFeedingId: z.string().optional(),
+  version: recordVersion
+})
+
+export const actualFeedingSchema: ZodType<ActualFeeding> = actualFeedingObject.passthrough()
+
+export const trashedFeedingSchema: ZodType<TrashedFeeding> = actualFeedingObject
+  .extend({ deletedAt: isoInstant, deletedBy: z.string() })
+  .passthrough()
+
+export const plannedFeedingSchema: ZodType<PlannedFeeding> = z
+  .object({
+    id: requiredString,
+    date: z.string().optional(),
+    time: z.string().optional(),
+    planTime: z.string().optional(),
+    amount: z.number().nonnegative("must not be negative"),
+    // Plans are made in ounces, see planFeedings
+    amountUnit: z.string().default("oz"),
+    isLocked: z.boolean().default(false),
+    isCompleted: z.boolean().default(false)
+  })
+  .passthrough()
+  .refine((feeding) => feeding.time || feeding.planTime, { message: "needs a time or planTime", path: ["time"] }) as ZodType<PlannedFeeding>
+
+export const childSchema: ZodType<Child> = z
+  .object({
+    id: requiredString,
+    name: requiredString,
+    createdAt: z.string(),
+    twinId: z.string().optional(),
+    version: recordVersion
+  })
+  .passthrough()
+
+// Roles a PIN can be handed out with; there is only one owner
+const memberRole = z.enum(["caregiver", "viewer"])
+
+const householdMemberSchema: ZodType<HouseholdMember> = z.object({
+  id: requiredString,
+  name: requiredString,
+  role: memberRole,
+  pinHash: requiredString,
+  pinSalt: requiredString,
+  createdAt: isoInstant
+})
+
+export const householdSchema: ZodType<Household> = z.object({
+  pinHash: requiredString,
+  pinSalt: requiredString,
+  sessionSecret: requiredString,
+  failedSignIns: z
+    .record(
+      z.object({
+        count: z.number().int().nonnegative(),
+        lastAt: isoInstant,
+        lockedUntil: isoInstant.optional()
+      })
+    )
+    .optional(),
+  members: z.array(householdMemberSchema).optional()
+})
+
+// The rest of a profile is worked out from the birth date when it is read
+export const newbornProfileSchema = z.object({ birthDate: isoInstant }).passthrough()
+
+// Request bodies and query parameters
+
+const pin = z.string().regex(new RegExp(`^\\d{${PIN_LENGTH}}$`), `must be ${PIN_LENGTH} digits`)
+
+export const pinBody = z.object({ pin })
+
+export const setupBody = z.object({
+  pin,
+  setupToken: requiredString
+})
+
+export const addMemberBody = z.object({
+  name: requiredString,
+  role: memberRole,
+  pin
+})
+
+export const memberIdBody = z.object({
+  id: requiredString
+})
+
+export const timeRangeQuery = z
+  .object({
+    from: isoInstant.optional().or(z.literal("")),
+    to: isoInstant.optional().or(z.literal(""))
+  })
+  .transform(({ from, to }) => ({
+    ...(from && { from: Date.parse(from) }),
+    ...(to && { to: Date.parse(to) })
+  }))
+
+export const recentFeedingsQuery = z.object({
+  limit: z.coerce.number().int().positive("must be a positive whole number").default(3)
+})
+
+export const auditLogQuery = z.object({
+  entity: z.enum(["actualFeeding", "completedFeeding", "settings"]).optional(),
+  entityId: z.string().optional()
+})
+
+export const addChildBody = z.object({
+  name: requiredString,
+  birthDate: isoInstant.optional()
+})
+
+export const updateChildBody = z.object({
+  id: requiredString,
+  name: requiredString,
+  version: recordVersion
+})
+
+export const recordIdBody = z.object({
+  id: requiredString,
+  version: recordVersion
+})
+
+export const pairTwinsBody = z.object({
+  twinId: requiredString
+})
+
+// The feeding itself is read by readActualFeedingInput
+export const pairedFeedingBody = z
+  .object({
+    twinVolumeMl: positiveNumber
+  })
+  .passthrough()
+
+// The changes themselves are read by readActualFeedingChanges
+export const actualFeedingChangesBody = recordIdBody.passthrough()
+
+export const restoreAuditEntryBody = z.object({
+  entryId: requiredString,
+  version: recordVersion
+})
+
+export const saveSettingsBody = z.object({
+  settings: feedingSettingsSchema
+})
+
+export const updateProfileBody = z.object({
+  birthDate: isoInstant
+})
+
+export const updateFeedingBody = z.object({
+  feedingId: requiredString,
+  isCompleted: z.boolean({ invalid_type_error: "must be true or false" })
+})
+
+// How far ahead of the server's clock a device's may run before the times it
+// sends count as in the future
+const CLOCK_SKEW_MS = 60 * 1000
+
+export const completeFeedingBody = z.object({
+  feedingId: requiredString,
+  actualAmount: positiveNumber,
+  // When it was given, e.g. while offline; now if left out
+  occurredAt: isoInstant
+    .refine((value) => Date.parse(value) <= Date.now() + CLOCK_SKEW_MS, "must not be in the future")
+    .optional()
+})
+
+export const feedingIdBody = z.object({
+  feedingId: requiredString
+})
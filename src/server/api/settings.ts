@@ -1,31 +1,83 @@
-import { getRedisClient } from "./redis-client"
+import { getStorage } from "./storage"
+import { recordAudit, SETTINGS_ENTITY_ID, SYSTEM_ACTOR } from "./audit"
+import { checkStoredDocument, feedingSettingsSchema } from "./schemas"
+import { logger } from "./logger"
 
-const SETTINGS_KEY = "baby:settings"
+const log = logger.child({ module: "settings" })
 
-export async function getSettings() {
-  try {
-    const client = await getRedisClient()
-    const settings = await client.get(SETTINGS_KEY)
+// Structure of the user's feeding settings
+export interface FeedingSettings {
+  feedWindows: {
+    min: number
+    max: number
+    ideal: number
+  }
+  feedAmounts: {
+    min: number
+    max: number
+    target: number
+  }
+  useMetric: boolean
+  lockedFeedings: {
+    enabled: boolean
+    times: string[]
+  }
+}
 
-    if (!settings) {
-      return null
-    }
+// Settings for a newly added child
+export const DEFAULT_FEEDING_SETTINGS: FeedingSettings = {
+  feedWindows: {
+    min: 2,
+    max: 3,
+    ideal: 2.5,
+  },
+  feedAmounts: {
+    min: 1.5,
+    max: 2.5,
+    target: 2,
+  },
+  useMetric: false,
+  lockedFeedings: {
+    enabled: true,
+    times: ["22:00", "00:30", "03:00", "05:30", "08:00"],
+  }
+}
 
-    return JSON.parse(settings)
+/**
+ * Gets a child's settings
+ * @returns The settings, or null if none have been saved
+ * @throws CorruptRecordError if the stored settings are invalid
+ */
+export async function getSettings(childId: string) {
+  try {
+    const settings = await getStorage().forChild(childId).settings.get()
+    return settings && checkStoredDocument("settings", settings, feedingSettingsSchema)
   } catch (error) {
-    console.error("Error getting settings:", error)
+    log.error("Error getting settings", { error })
     throw error
   }
 }
 
-export async function saveSettings(settings: any) {
+/**
+ * Saves a child's settings, recording the previous ones in the audit log
+ * @param actor Who made the change
+ */
+export async function saveSettings(childId: string, settings: FeedingSettings, actor = SYSTEM_ACTOR) {
   try {
-    const client = await getRedisClient()
-    await client.set(SETTINGS_KEY, JSON.stringify(settings))
+    const repository = getStorage().forChild(childId).settings
+    const before = await repository.get()
+    await repository.save(settings)
+    await recordAudit(childId, {
+      actor,
+      entity: "settings",
+      entityId: SETTINGS_ENTITY_ID,
+      action: before ? "update" : "create",
+      before,
+      after: settings
+    })
     return true
   } catch (error) {
-    console.error("Error saving settings:", error)
+    log.error("Error saving settings", { error })
     throw error
   }
 }
-
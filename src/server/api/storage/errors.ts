@@ -0,0 +1,40 @@
+/**
+ * Thrown when a write is rejected because the data changed since the caller
+ * read it, e.g. two caregivers editing the same feeding from different phones
+ */
+export class ConflictError extends Error {
+  /**
+   * @param message Description of the conflict
+   * @param current The latest stored value, so callers can show or retry against it
+   */
+  constructor(message: string, readonly current?: unknown) {
+    super(message)
+    this.name = "ConflictError"
+  }
+}
+
+/**
+ * Rejects a write when the caller's copy of a record is out of date
+ * @param record The record as currently stored
+ * @param expectedVersion Version the caller last read, or undefined to skip the check
+ * @throws ConflictError if the versions don't match
+ */
+export function assertVersion(record: { version?: number }, expectedVersion: number | undefined) {
+  if (expectedVersion !== undefined && (record.version ?? 0) !== expectedVersion) {
+    throw new ConflictError("This record was changed by someone else", record)
+  }
+}
+
+/**
+ * Thrown when the storage backend can't be reached or read, e.g. Redis is down
+ * or REDIS_URL is wrong, as opposed to a problem with the data itself
+ */
+export class StorageUnavailableError extends Error {
+  /**
+   * @param retryAt When the backend will next be tried, if it is being retried
+   */
+  constructor(message: string, readonly retryAt?: Date) {
+    super(message)
+    this.name = "StorageUnavailableError"
+  }
+}
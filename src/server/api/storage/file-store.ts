@@ -0,0 +1,89 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { StorageUnavailableError } from "./errors"
+import type { DocumentStore } from "./types"
+
+/**
+ * Creates a document store that keeps every document in a single JSON file.
+ * Writes are serialized and go through a temporary file so a crash never
+ * leaves a half-written data file behind.
+ * @param filePath Location of the JSON data file
+ */
+export function createFileStore(filePath: string): DocumentStore {
+  const resolvedPath = path.resolve(filePath)
+  let pendingWrite: Promise<void> = Promise.resolve()
+
+  async function load(): Promise<Record<string, unknown>> {
+    try {
+      const contents = await fs.readFile(resolvedPath, "utf8")
+      return contents.trim() ? JSON.parse(contents) : {}
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return {}
+      }
+      throw new StorageUnavailableError(`Failed to read data file ${resolvedPath}: ${error.message}`)
+    }
+  }
+
+  async function persist(documents: Record<string, unknown>) {
+    await fs.mkdir(path.dirname(resolvedPath), { recursive: true })
+    const tempPath = `${resolvedPath}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(documents, null, 2))
+    await fs.rename(tempPath, resolvedPath)
+  }
+
+  // Queue a read-modify-write so concurrent requests don't overwrite each other
+  function updateFile<R>(mutate: (documents: Record<string, unknown>) => R) {
+    const next = pendingWrite.then(async () => {
+      const documents = await load()
+      const result = mutate(documents)
+      await persist(documents)
+      return result
+    })
+    pendingWrite = next.then(() => undefined, () => undefined)
+    return next
+  }
+
+  return {
+    driver: "file",
+
+    async read<T>(key: string) {
+      await pendingWrite
+      const documents = await load()
+      return key in documents ? (documents[key] as T) : null
+    },
+
+    async write<T>(key: string, value: T) {
+      await updateFile((documents) => {
+        documents[key] = value
+      })
+    },
+
+    async update<T>(key: string, mutate: (current: T | null) => T) {
+      return updateFile((documents) => {
+        const next = mutate(key in documents ? (documents[key] as T) : null)
+        documents[key] = next
+        return next
+      })
+    },
+
+    async remove(key: string) {
+      await updateFile((documents) => {
+        delete documents[key]
+      })
+    },
+
+    async keys() {
+      await pendingWrite
+      return Object.keys(await load())
+    },
+
+    async ping() {
+      await load()
+    },
+
+    async close() {
+      await pendingWrite
+    }
+  }
+}
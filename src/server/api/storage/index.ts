@@ -0,0 +1,305 @@
+/**
+ * Storage layer for Baby Bottle Planner
+ *
+ * Server modules read and write planner data through the repositories returned
+ * by getStorage() instead of talking to Redis directly. The backend is chosen
+ * with the STORAGE_DRIVER environment variable:
+ * - "redis" (default): Upstash or any Redis server configured by REDIS_URL
+ * - "memory": in-process storage, lost on restart
+ * - "file": a local JSON file at STORAGE_FILE_PATH
+ *
+ * A household can track several children. Profiles, settings, plans and
+ * feeding logs belong to one child and are read through forChild(childId);
+ * the children list and the age-based recommendations are shared.
+ *
+ * Actual and completed feedings are record collections: Redis stores each
+ * record separately (hash + sorted set by timestamp), the other backends keep
+ * them as one list per key.
+ *
+ * Every change that depends on the current data goes through an atomic
+ * read-modify-write, and feeding records carry a version stamp so stale edits
+ * are rejected with a ConflictError instead of overwriting newer data.
+ *
+ * Every backend operation is timed for /api/metrics, see instrument. The Redis
+ * and file backends keep a last-known snapshot that reads fall back to while
+ * the backend is unavailable, see ./snapshot.
+ */
+
+import { createRedisStore } from "./redis-store"
+import { createMemoryStore } from "./memory-store"
+import { createFileStore } from "./file-store"
+import { createRedisRecordRepository } from "./redis-records"
+import { withRecordSnapshot, withSnapshot } from "./snapshot"
+import { assertVersion } from "./errors"
+import { getActualFeedingTimestamp, getCompletedFeedingTimestamp } from "../feeding-time"
+import type { ActualFeeding } from "../feedings"
+import type { LegacyCompletedFeeding } from "../legacy-feedings"
+import type { AuditEntry } from "../audit"
+import type { TrashedFeeding } from "../trash"
+import {
+  STORAGE_KEYS,
+  getChildStorageKeys,
+  type ChildStorage,
+  type ChildStorageKeys,
+  type CollectionRepository,
+  type DocumentRepository,
+  type DocumentStore,
+  type RecordRepository,
+  type RecordRepositoryFactory,
+  type Storage,
+  type StorageDriver,
+  type VersionedRecord
+} from "./types"
+import { getConfig } from "../config"
+import { toStorageError } from "../redis-client"
+import { storageOperationDuration, timed } from "../metrics"
+
+export * from "./types"
+export * from "./errors"
+export { STALE_SINCE_HEADER, staleResponses } from "./snapshot"
+
+// Storage singleton shared by all server modules
+let storage: Storage | null = null
+
+function createCollectionRepository<T>(store: DocumentStore, key: string): CollectionRepository<T> {
+  return {
+    async list() {
+      return (await store.read<T[]>(key)) || []
+    },
+    async replaceAll(items: T[]) {
+      await store.write(key, items)
+    },
+    async update(mutate: (items: T[]) => T[]) {
+      return store.update<T[]>(key, (items) => mutate(items || []))
+    }
+  }
+}
+
+// Record repository for backends without native indexes: keeps the records as
+// one document and sorts or filters them in memory
+function createRecordRepository<T extends VersionedRecord>(
+  store: DocumentStore,
+  key: string,
+  getTimestamp: (item: T) => number
+): RecordRepository<T> {
+  const byTimestamp = (a: T, b: T) => getTimestamp(a) - getTimestamp(b)
+  const load = async () => (await store.read<T[]>(key)) || []
+
+  return {
+    async list() {
+      return (await load()).sort(byTimestamp)
+    },
+    async range(from: number, to: number) {
+      return (await load())
+        .filter((item) => getTimestamp(item) >= from && getTimestamp(item) <= to)
+        .sort(byTimestamp)
+    },
+    async get(id: string) {
+      return (await load()).find((item) => item.id === id) || null
+    },
+    async upsert(item: T) {
+      await store.update<T[]>(key, (items) => [...(items || []).filter((existing) => existing.id !== item.id), item])
+    },
+    async patch(id: string, changes: Partial<Omit<T, "id" | "version">>, expectedVersion?: number) {
+      let patched: T | null = null
+      await store.update<T[]>(key, (items) => {
+        patched = null
+        return (items || []).map((item) => {
+          if (item.id !== id) {
+            return item
+          }
+          assertVersion(item, expectedVersion)
+          patched = { ...item, ...changes, id, version: (item.version ?? 0) + 1 }
+          return patched
+        })
+      })
+      return patched
+    },
+    async remove(id: string, expectedVersion?: number) {
+      let removed = false
+      await store.update<T[]>(key, (items) => {
+        removed = false
+        return (items || []).filter((item) => {
+          if (item.id !== id) {
+            return true
+          }
+          assertVersion(item, expectedVersion)
+          removed = true
+          return false
+        })
+      })
+      return removed
+    },
+    async replaceAll(items: T[]) {
+      await store.write(key, items)
+    },
+    async update(mutate: (items: T[]) => T[]) {
+      return store.update<T[]>(key, (items) => mutate(items || []))
+    }
+  }
+}
+
+function createDocumentRepository<T>(store: DocumentStore, key: string): DocumentRepository<T> {
+  return {
+    async get() {
+      return store.read<T>(key)
+    },
+    async save(value: T) {
+      await store.write(key, value)
+    },
+    async update(mutate: (current: T | null) => T) {
+      return store.update<T>(key, mutate)
+    }
+  }
+}
+
+/**
+ * Builds the planner repositories on top of a document store
+ * @param store The backend document store
+ * @param createRecords Backend-specific factory for record collections, used instead of the document-based one
+ * @returns Storage object exposing one repository per data type
+ */
+export function createStorage(
+  store: DocumentStore,
+  createRecords: RecordRepositoryFactory = (baseKey, getTimestamp) =>
+    createRecordRepository(store, baseKey, getTimestamp)
+): Storage {
+  // Repositories are cached per key prefix, so a child's record collections
+  // are only set up once per process
+  const scopes = new Map<string, ChildStorage>()
+
+  function forKeys(keys: ChildStorageKeys): ChildStorage {
+    let scope = scopes.get(keys.PROFILE)
+    if (!scope) {
+      scope = {
+        plannedFeedings: createCollectionRepository(store, keys.PLANNED_FEEDINGS),
+        actualFeedings: createRecords<ActualFeeding>(keys.ACTUAL_FEEDINGS, (feeding) =>
+          getActualFeedingTimestamp(feeding, getConfig().timeZone)
+        ),
+        completedFeedings: createRecords<LegacyCompletedFeeding>(keys.COMPLETED_FEEDINGS, getCompletedFeedingTimestamp),
+        auditLog: createRecords<AuditEntry>(keys.AUDIT_LOG, (entry) => Date.parse(entry.at)),
+        trash: createRecords<TrashedFeeding>(keys.TRASH, (feeding) => Date.parse(feeding.deletedAt)),
+        settings: createDocumentRepository(store, keys.SETTINGS),
+        profile: createDocumentRepository(store, keys.PROFILE)
+      }
+      scopes.set(keys.PROFILE, scope)
+    }
+    return scope
+  }
+
+  return {
+    driver: store.driver,
+    children: createCollectionRepository(store, STORAGE_KEYS.CHILDREN),
+    recommendations: createCollectionRepository(store, STORAGE_KEYS.RECOMMENDATIONS),
+    forChild: (childId) => forKeys(getChildStorageKeys(childId)),
+    forKeys,
+    schema: createDocumentRepository(store, STORAGE_KEYS.SCHEMA),
+    household: createDocumentRepository(store, STORAGE_KEYS.HOUSEHOLD),
+    documents: store,
+    keys: () => store.keys(),
+    ping: () => store.ping(),
+    close: () => store.close(),
+    status: () => store.status?.() ?? { state: "connected" }
+  }
+}
+
+// Wraps each method of a document store or record repository except status,
+// which isn't async
+function wrapMethods<T extends object>(
+  target: T,
+  around: (name: string, run: () => Promise<unknown>) => Promise<unknown>
+): T {
+  return Object.fromEntries(
+    Object.entries(target).map(([name, value]) => [
+      name,
+      typeof value === "function" && name !== "status"
+        ? (...args: unknown[]) => around(name, () => value.apply(target, args))
+        : value
+    ])
+  ) as T
+}
+
+/**
+ * Wraps each async method of a document store or record repository so its
+ * duration and outcome are recorded in storageOperationDuration
+ * @param prefix Distinguishes the record repositories' operations from the store's, e.g. "records."
+ */
+function instrument<T extends object>(target: T, driver: StorageDriver, prefix = ""): T {
+  return wrapMethods(target, (name, run) =>
+    timed(storageOperationDuration, { driver, operation: `${prefix}${name}` }, run)
+  )
+}
+
+// Reports Redis commands that lost their connection as StorageUnavailableError,
+// so they are answered and snapshotted like any other outage
+function withRedisErrors<T extends object>(target: T): T {
+  return wrapMethods(target, async (name, run) => {
+    try {
+      return await run()
+    } catch (error) {
+      throw toStorageError(error)
+    }
+  })
+}
+
+/**
+ * The storage driver chosen by STORAGE_DRIVER, see getConfig
+ */
+export function getStorageDriver(): StorageDriver {
+  return getConfig().storageDriver
+}
+
+/**
+ * Gets the storage singleton, creating the configured backend on first use
+ */
+export function getStorage(): Storage {
+  if (!storage) {
+    const driver = getStorageDriver()
+
+    switch (driver) {
+      case "memory":
+        storage = createStorage(instrument(createMemoryStore(), driver))
+        break
+      case "file":
+        storage = createStorage(withSnapshot(instrument(createFileStore(getConfig().storageFilePath), driver)))
+        break
+      default:
+        // Feeding logs grow without bound, so Redis stores them per record
+        storage = createStorage(withSnapshot(instrument(withRedisErrors(createRedisStore()), driver)), (baseKey, getTimestamp) =>
+          withRecordSnapshot(
+            instrument(withRedisErrors(createRedisRecordRepository(baseKey, getTimestamp)), driver, "records."),
+            getTimestamp
+          )
+        )
+    }
+  }
+
+  return storage
+}
+
+/**
+ * Deletes all of the data stored under a set of child keys
+ */
+export async function clearChildData(storage: Storage, keys: ChildStorageKeys) {
+  const scope = storage.forKeys(keys)
+
+  // Record collections may be spread over several backend keys
+  await scope.actualFeedings.replaceAll([])
+  await scope.completedFeedings.replaceAll([])
+  await scope.auditLog.replaceAll([])
+  await scope.trash.replaceAll([])
+  for (const key of Object.values(keys)) {
+    await storage.documents.remove(key)
+  }
+}
+
+/**
+ * Closes the storage backend and clears the singleton
+ */
+export async function closeStorage() {
+  if (storage) {
+    const current = storage
+    storage = null
+    await current.close()
+  }
+}
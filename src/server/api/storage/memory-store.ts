@@ -0,0 +1,47 @@
+import type { DocumentStore } from "./types"
+
+/**
+ * Creates an in-memory document store. Data lives only as long as the process,
+ * which makes it useful for local development and demos without a database.
+ */
+export function createMemoryStore(): DocumentStore {
+  // Documents are kept serialized so callers never share references with the store
+  const documents = new Map<string, string>()
+
+  return {
+    driver: "memory",
+
+    async read<T>(key: string) {
+      const value = documents.get(key)
+      return value ? (JSON.parse(value) as T) : null
+    },
+
+    async write<T>(key: string, value: T) {
+      documents.set(key, JSON.stringify(value))
+    },
+
+    // Runs without yielding to the event loop, so nothing can interleave
+    async update<T>(key: string, mutate: (current: T | null) => T) {
+      const value = documents.get(key)
+      const next = mutate(value ? (JSON.parse(value) as T) : null)
+      documents.set(key, JSON.stringify(next))
+      return next
+    },
+
+    async remove(key: string) {
+      documents.delete(key)
+    },
+
+    async keys() {
+      return Array.from(documents.keys())
+    },
+
+    async ping() {
+      // Always reachable
+    },
+
+    async close() {
+      documents.clear()
+    }
+  }
+}
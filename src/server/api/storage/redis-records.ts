@@ -0,0 +1,166 @@
+import { getRedisClient } from "../redis-client"
+import { assertVersion } from "./errors"
+import { runWatchedTransaction } from "./redis-transaction"
+import type { RecordRepository, VersionedRecord } from "./types"
+import { logger } from "../logger"
+
+const log = logger.child({ module: "storage" })
+
+/**
+ * Redis keys for a record collection stored as individual records:
+ * - records: hash of record id -> JSON record
+ * - timeline: sorted set of record ids scored by timestamp
+ * - legacy: backup of the old single JSON array key after migration
+ */
+export function getRecordKeys(baseKey: string) {
+  return {
+    records: `${baseKey}:records`,
+    timeline: `${baseKey}:timeline`,
+    legacy: `${baseKey}:legacy`
+  }
+}
+
+/**
+ * Creates a repository that stores each record in a Redis hash and indexes it
+ * by timestamp in a sorted set, so single-record writes and time range reads
+ * don't need to load or rewrite the whole collection.
+ *
+ * The first time the repository is used in a process it migrates data from
+ * the legacy format (one JSON array under baseKey), keeping the old value
+ * under the ":legacy" key as a backup.
+ *
+ * Single-record changes WATCH the records hash, so a concurrent write from
+ * another client makes the change retry against the latest data.
+ * @param baseKey Key the collection used to be stored under, e.g. "baby:actualFeedings"
+ * @param getTimestamp Returns the timestamp (ms) a record is indexed by
+ */
+export function createRedisRecordRepository<T extends VersionedRecord>(
+  baseKey: string,
+  getTimestamp: (item: T) => number
+): RecordRepository<T> {
+  const keys = getRecordKeys(baseKey)
+  let migration: Promise<void> | null = null
+
+  async function migrateLegacyArray() {
+    const client = await getRedisClient()
+    if ((await client.type(baseKey)) !== "string") {
+      return
+    }
+
+    const legacyValue = await client.get(baseKey)
+    const items: T[] = legacyValue ? JSON.parse(legacyValue) : []
+    log.info(`Migrating ${items.length} records from ${baseKey} to ${keys.records}`)
+
+    const transaction = client.multi()
+    for (const item of items) {
+      transaction.hSet(keys.records, item.id, JSON.stringify(item))
+      transaction.zAdd(keys.timeline, { score: getTimestamp(item), value: item.id })
+    }
+    transaction.rename(baseKey, keys.legacy)
+    await transaction.exec()
+  }
+
+  // Returns a connected client once any pending legacy migration has finished
+  async function getClient() {
+    if (!migration) {
+      migration = migrateLegacyArray().catch((error) => {
+        migration = null
+        throw error
+      })
+    }
+    await migration
+    return getRedisClient()
+  }
+
+  async function loadRecords(ids: string[], client?: any): Promise<T[]> {
+    if (ids.length === 0) {
+      return []
+    }
+
+    const values: (string | null)[] = await (client || (await getClient())).hmGet(keys.records, ids)
+    return values.filter((value): value is string => !!value).map((value) => JSON.parse(value))
+  }
+
+  // Queues the commands that replace the whole collection with items
+  function queueReplaceAll(transaction: any, items: T[]) {
+    transaction.del(keys.records).del(keys.timeline)
+    for (const item of items) {
+      transaction.hSet(keys.records, item.id, JSON.stringify(item))
+      transaction.zAdd(keys.timeline, { score: getTimestamp(item), value: item.id })
+    }
+    return transaction
+  }
+
+  return {
+    async list() {
+      const client = await getClient()
+      return loadRecords(await client.zRange(keys.timeline, 0, -1))
+    },
+
+    async range(from: number, to: number) {
+      const client = await getClient()
+      return loadRecords(await client.zRangeByScore(keys.timeline, from, to))
+    },
+
+    async get(id: string) {
+      const client = await getClient()
+      const value = await client.hGet(keys.records, id)
+      return value ? (JSON.parse(value) as T) : null
+    },
+
+    async upsert(item: T) {
+      const client = await getClient()
+      await client
+        .multi()
+        .hSet(keys.records, item.id, JSON.stringify(item))
+        .zAdd(keys.timeline, { score: getTimestamp(item), value: item.id })
+        .exec()
+    },
+
+    async patch(id: string, changes: Partial<Omit<T, "id" | "version">>, expectedVersion?: number) {
+      await getClient()
+      return runWatchedTransaction([keys.records], async (client) => {
+        const value = await client.hGet(keys.records, id)
+        if (!value) {
+          return { transaction: null, result: null }
+        }
+
+        const current: T = JSON.parse(value)
+        assertVersion(current, expectedVersion)
+
+        const next: T = { ...current, ...changes, id, version: (current.version ?? 0) + 1 }
+        const transaction = client
+          .multi()
+          .hSet(keys.records, id, JSON.stringify(next))
+          .zAdd(keys.timeline, { score: getTimestamp(next), value: id })
+        return { transaction, result: next }
+      })
+    },
+
+    async remove(id: string, expectedVersion?: number) {
+      await getClient()
+      return runWatchedTransaction([keys.records], async (client) => {
+        const value = await client.hGet(keys.records, id)
+        if (!value) {
+          return { transaction: null, result: false }
+        }
+
+        assertVersion(JSON.parse(value), expectedVersion)
+        return { transaction: client.multi().hDel(keys.records, id).zRem(keys.timeline, id), result: true }
+      })
+    },
+
+    async replaceAll(items: T[]) {
+      const client = await getClient()
+      await queueReplaceAll(client.multi(), items).exec()
+    },
+
+    async update(mutate: (items: T[]) => T[]) {
+      await getClient()
+      return runWatchedTransaction([keys.records, keys.timeline], async (client) => {
+        const items = mutate(await loadRecords(await client.zRange(keys.timeline, 0, -1), client))
+        return { transaction: queueReplaceAll(client.multi(), items), result: items }
+      })
+    }
+  }
+}
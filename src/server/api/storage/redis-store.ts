@@ -0,0 +1,54 @@
+import { getRedisClient, getRedisStatus, closeRedisConnection } from "../redis-client"
+import { runWatchedTransaction } from "./redis-transaction"
+import type { DocumentStore } from "./types"
+
+/**
+ * Creates a document store backed by Redis, storing each document as a JSON string
+ */
+export function createRedisStore(): DocumentStore {
+  return {
+    driver: "redis",
+
+    async read<T>(key: string) {
+      const client = await getRedisClient()
+      const value = await client.get(key)
+      return value ? (JSON.parse(value) as T) : null
+    },
+
+    async write<T>(key: string, value: T) {
+      const client = await getRedisClient()
+      await client.set(key, JSON.stringify(value))
+    },
+
+    async update<T>(key: string, mutate: (current: T | null) => T) {
+      return runWatchedTransaction([key], async (client) => {
+        const value = await client.get(key)
+        const next = mutate(value ? (JSON.parse(value) as T) : null)
+        return { transaction: client.multi().set(key, JSON.stringify(next)), result: next }
+      })
+    },
+
+    async remove(key: string) {
+      const client = await getRedisClient()
+      await client.del(key)
+    },
+
+    async keys() {
+      const client = await getRedisClient()
+      return client.keys("*")
+    },
+
+    async ping() {
+      const client = await getRedisClient()
+      await client.ping()
+    },
+
+    async close() {
+      await closeRedisConnection()
+    },
+
+    status() {
+      return getRedisStatus()
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { WatchError } from "redis"
+import { getRedisClient } from "../redis-client"
+import { ConflictError } from "./errors"
+
+// How many times a transaction is retried when a watched key keeps changing
+const MAX_WATCH_ATTEMPTS = 5
+
+/**
+ * Runs an optimistic WATCH/MULTI/EXEC transaction on an isolated connection.
+ *
+ * The watched keys are read by attempt(), which returns the queued transaction
+ * (or null to finish without writing) together with its result. If another
+ * client writes a watched key before EXEC, the whole attempt is retried with
+ * fresh data, so any checks in attempt() always see the latest state.
+ * @param watchKeys Keys that must not change between the reads and the write
+ * @param attempt Reads the current data and queues the writes
+ * @returns The result of the attempt that was committed
+ * @throws ConflictError if the keys are still changing after several attempts
+ */
+export async function runWatchedTransaction<R>(
+  watchKeys: string[],
+  attempt: (client: any) => Promise<{ transaction: any | null; result: R }>
+): Promise<R> {
+  const client = await getRedisClient()
+
+  for (let attemptNumber = 1; attemptNumber <= MAX_WATCH_ATTEMPTS; attemptNumber++) {
+    const committed = await client.executeIsolated(async (isolatedClient: any) => {
+      await isolatedClient.watch(watchKeys)
+
+      try {
+        const { transaction, result } = await attempt(isolatedClient)
+        if (!transaction) {
+          await isolatedClient.unwatch()
+          return { result }
+        }
+
+        await transaction.exec()
+        return { result }
+      } catch (error) {
+        if (error instanceof WatchError) {
+          return null
+        }
+        await isolatedClient.unwatch()
+        throw error
+      }
+    })
+
+    if (committed) {
+      return committed.result
+    }
+  }
+
+  throw new ConflictError(`Gave up after ${MAX_WATCH_ATTEMPTS} concurrent changes to ${watchKeys.join(", ")}`)
+}
@@ -0,0 +1,228 @@
+import { AsyncLocalStorage } from "async_hooks"
+import type { RequestHandler, Response } from "express"
+import { StorageUnavailableError } from "./errors"
+import type { DocumentStore, RecordRepository, StorageStatus, VersionedRecord } from "./types"
+import { logger } from "../logger"
+
+// Read-only degraded mode. The server keeps the last-known copy of everything
+// it has read from or written to the backend, and answers reads from it while
+// the backend is unavailable, so the app still shows the plan, settings and
+// recent feedings during an outage. Writes aren't kept for later: they fail
+// with STORAGE_UNAVAILABLE as before, and the browser queues what it can (see
+// src/lib/offline.ts). The copy lives in this process's memory, so a restart
+// or a new serverless instance starts without one.
+
+/**
+ * Sent with every response that was answered, at least in part, from the
+ * snapshot: when the backend last answered (ISO instant)
+ */
+export const STALE_SINCE_HEADER = "X-Stale-Since"
+
+const log = logger.child({ module: "snapshot" })
+
+// How many records each collection keeps, the latest by timestamp; older ones
+// are only ever answered live
+const MAX_SNAPSHOT_RECORDS = 500
+
+// When the backend last answered, i.e. how old the snapshot may be
+let lastContactAt: Date | null = null
+
+// Whether reads are being answered from the snapshot, to log the changes
+let serving = false
+
+const staleContext = new AsyncLocalStorage<{ res: Response }>()
+
+/**
+ * Lets reads served from the snapshot mark the response with X-Stale-Since.
+ * Registered by createApiRouter before anything reads storage.
+ */
+export const staleResponses: RequestHandler = (req, res, next) => {
+  staleContext.run({ res }, next)
+}
+
+/**
+ * Since when reads have been answered from the snapshot (ISO instant), or
+ * undefined while the backend is answering
+ */
+export function getStaleSince() {
+  return serving ? lastContactAt?.toISOString() : undefined
+}
+
+function answered() {
+  lastContactAt = new Date()
+  if (serving) {
+    serving = false
+    log.info("Storage is answering again; serving live data")
+  }
+}
+
+// Answers a read from the snapshot if the backend is unavailable and the
+// snapshot has an answer; anything else is rethrown
+function fromSnapshot<T>(error: unknown, known: boolean, read: () => T): T {
+  if (!(error instanceof StorageUnavailableError) || !known || !lastContactAt) {
+    throw error
+  }
+  if (!serving) {
+    serving = true
+    log.warn("Storage is unavailable; serving the last-known snapshot read-only", {
+      staleSince: lastContactAt.toISOString(),
+      error
+    })
+  }
+  const context = staleContext.getStore()
+  if (context && !context.res.headersSent) {
+    context.res.setHeader(STALE_SINCE_HEADER, lastContactAt.toISOString())
+  }
+  return read()
+}
+
+// Runs an operation against the backend, passing what it returned to keep
+async function live<T>(run: () => Promise<T>, keep: (value: T) => void) {
+  const value = await run()
+  answered()
+  keep(value)
+  return value
+}
+
+/**
+ * Wraps a document store so that the documents and keys it last read or
+ * wrote are answered from memory while the backend is unavailable
+ */
+export function withSnapshot(store: DocumentStore): DocumentStore {
+  // Documents by key; null for documents known not to exist
+  const documents = new Map<string, unknown>()
+  let keys: string[] | null = null
+
+  const keep = (key: string) => (value: unknown) => {
+    documents.set(key, structuredClone(value))
+  }
+
+  return {
+    driver: store.driver,
+
+    async read<T>(key: string) {
+      try {
+        return await live(() => store.read<T>(key), keep(key))
+      } catch (error) {
+        return fromSnapshot(error, documents.has(key), () => structuredClone(documents.get(key)) as T | null)
+      }
+    },
+
+    async write<T>(key: string, value: T) {
+      await live(() => store.write(key, value), () => keep(key)(value))
+    },
+
+    async update<T>(key: string, mutate: (current: T | null) => T) {
+      return live(() => store.update(key, mutate), keep(key))
+    },
+
+    async remove(key: string) {
+      await live(() => store.remove(key), () => keep(key)(null))
+    },
+
+    async keys() {
+      try {
+        return await live(() => store.keys(), (value) => (keys = [...value]))
+      } catch (error) {
+        return fromSnapshot(error, keys !== null, () => [...keys!])
+      }
+    },
+
+    async ping() {
+      await live(() => store.ping(), () => {})
+    },
+
+    close: () => store.close(),
+
+    status(): StorageStatus {
+      const staleSince = getStaleSince()
+      return { ...(store.status?.() ?? { state: "connected" }), ...(staleSince && { staleSince }) }
+    }
+  }
+}
+
+/**
+ * Wraps a record repository so that the records it last read or wrote are
+ * answered from memory while the backend is unavailable. Only the latest
+ * MAX_SNAPSHOT_RECORDS are kept, and ranges are answered from whichever of
+ * those were seen, which covers the recent feedings the app keeps asking for.
+ */
+export function withRecordSnapshot<T extends VersionedRecord>(
+  records: RecordRepository<T>,
+  getTimestamp: (item: T) => number
+): RecordRepository<T> {
+  // Records by id; null until the first read
+  let seen: Map<string, T> | null = null
+
+  const remember = (items: T[]) => {
+    seen ??= new Map()
+    for (const item of items) {
+      seen.set(item.id, structuredClone(item))
+    }
+    if (seen.size > MAX_SNAPSHOT_RECORDS) {
+      const oldest = [...seen.values()]
+        .sort((a, b) => getTimestamp(a) - getTimestamp(b))
+        .slice(0, seen.size - MAX_SNAPSHOT_RECORDS)
+      for (const item of oldest) {
+        seen.delete(item.id)
+      }
+    }
+  }
+  const replace = (items: T[]) => {
+    seen = null
+    remember(items)
+  }
+  const known = (include: (item: T) => boolean) =>
+    [...(seen?.values() ?? [])]
+      .filter(include)
+      .sort((a, b) => getTimestamp(a) - getTimestamp(b))
+      .map((item) => structuredClone(item))
+
+  return {
+    async list() {
+      try {
+        return await live(() => records.list(), replace)
+      } catch (error) {
+        return fromSnapshot(error, seen !== null, () => known(() => true))
+      }
+    },
+
+    async range(from: number, to: number) {
+      try {
+        return await live(() => records.range(from, to), remember)
+      } catch (error) {
+        return fromSnapshot(error, seen !== null, () =>
+          known((item) => getTimestamp(item) >= from && getTimestamp(item) <= to)
+        )
+      }
+    },
+
+    async get(id: string) {
+      try {
+        return await live(() => records.get(id), (item) => (item ? remember([item]) : seen?.delete(id)))
+      } catch (error) {
+        return fromSnapshot(error, !!seen?.has(id), () => structuredClone(seen!.get(id)!))
+      }
+    },
+
+    async upsert(item: T) {
+      await live(() => records.upsert(item), () => remember([item]))
+    },
+
+    async patch(id: string, changes: Partial<Omit<T, "id" | "version">>, expectedVersion?: number) {
+      return live(() => records.patch(id, changes, expectedVersion), (item) => item && remember([item]))
+    },
+
+    async remove(id: string, expectedVersion?: number) {
+      return live(() => records.remove(id, expectedVersion), () => seen?.delete(id))
+    },
+
+    async replaceAll(items: T[]) {
+      await live(() => records.replaceAll(items), () => replace(items))
+    },
+
+    async update(mutate: (items: T[]) => T[]) {
+      return live(() => records.update(mutate), replace)
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import type { PlannedFeeding, ActualFeeding } from "../feedings"
+import type { LegacyCompletedFeeding } from "../legacy-feedings"
+import type { FeedingSettings } from "../settings"
+import type { FeedingRecommendation, NewbornProfile } from "../recommendations"
+import type { SchemaState } from "../migrations/types"
+import type { Child } from "../children"
+import type { AuditEntry } from "../audit"
+import type { TrashedFeeding } from "../trash"
+import type { Household } from "../auth"
+
+/**
+ * Storage backends that can be selected with the STORAGE_DRIVER environment variable
+ */
+export type StorageDriver = "redis" | "memory" | "file"
+
+/**
+ * Keys for the documents shared by the whole household - shared by all backends
+ */
+export const STORAGE_KEYS = {
+  CHILDREN: "baby:children",
+  RECOMMENDATIONS: "baby:recommendations",
+  SCHEMA: "baby:schema",
+  HOUSEHOLD: "baby:household"
+} as const
+
+/**
+ * Keys for the documents each child has its own copy of
+ */
+export interface ChildStorageKeys {
+  PROFILE: string
+  SETTINGS: string
+  PLANNED_FEEDINGS: string
+  ACTUAL_FEEDINGS: string
+  COMPLETED_FEEDINGS: string
+  AUDIT_LOG: string
+  TRASH: string
+}
+
+/**
+ * Where a child's data lived before households could have more than one child.
+ * Schema migration 4 moves it into the first child's namespace.
+ */
+export const LEGACY_CHILD_KEYS: ChildStorageKeys = {
+  PROFILE: "baby:profile",
+  SETTINGS: "baby:settings",
+  PLANNED_FEEDINGS: "baby:plannedFeedings",
+  ACTUAL_FEEDINGS: "baby:actualFeedings",
+  COMPLETED_FEEDINGS: "baby:completedFeedings",
+  // Never used before households; listed so the key sets have the same shape
+  AUDIT_LOG: "baby:auditLog",
+  TRASH: "baby:trash"
+}
+
+/**
+ * Gets the keys of a child's documents, all under "baby:child:<childId>:"
+ */
+export function getChildStorageKeys(childId: string): ChildStorageKeys {
+  const prefix = `baby:child:${childId}`
+  return {
+    PROFILE: `${prefix}:profile`,
+    SETTINGS: `${prefix}:settings`,
+    PLANNED_FEEDINGS: `${prefix}:plannedFeedings`,
+    ACTUAL_FEEDINGS: `${prefix}:actualFeedings`,
+    COMPLETED_FEEDINGS: `${prefix}:completedFeedings`,
+    AUDIT_LOG: `${prefix}:auditLog`,
+    TRASH: `${prefix}:trash`
+  }
+}
+
+/**
+ * Whether the backend can be reached. Only Redis is ever anything but
+ * connected: it is "connecting" before its first use and while probing after
+ * an outage, and "reconnecting" while it fails fast until retryAt.
+ */
+export interface StorageStatus {
+  state: "connected" | "connecting" | "reconnecting"
+  // When the next attempt to reach the backend is due (ISO instant)
+  retryAt?: string
+  // Why the last attempt failed
+  lastError?: string
+  // While reads are answered from the last-known snapshot: when the backend
+  // last answered (ISO instant), see ./snapshot
+  staleSince?: string
+}
+
+/**
+ * Low-level JSON document store implemented by each backend
+ */
+export interface DocumentStore {
+  readonly driver: StorageDriver
+  read<T>(key: string): Promise<T | null>
+  write<T>(key: string, value: T): Promise<void>
+  /**
+   * Atomically reads, changes and writes a document. The mutation may run more
+   * than once if the document changes underneath it, so it must not have side
+   * effects; throwing from it aborts the write.
+   * @returns The value that was written
+   */
+  update<T>(key: string, mutate: (current: T | null) => T): Promise<T>
+  remove(key: string): Promise<void>
+  keys(): Promise<string[]>
+  ping(): Promise<void>
+  close(): Promise<void>
+  // Backends that can lose their connection report it here
+  status?(): StorageStatus
+}
+
+/**
+ * Repository for a list of records stored together
+ */
+export interface CollectionRepository<T> {
+  list(): Promise<T[]>
+  replaceAll(items: T[]): Promise<void>
+  /**
+   * Atomically replaces the list with the result of mutate (see DocumentStore.update)
+   * @returns The list that was written
+   */
+  update(mutate: (items: T[]) => T[]): Promise<T[]>
+}
+
+/**
+ * Record with a version stamp that is incremented on every update, used to
+ * detect concurrent edits. Records written before versioning count as version 0.
+ */
+export interface VersionedRecord {
+  id: string
+  version?: number
+}
+
+/**
+ * Repository for records stored individually and indexed by timestamp
+ */
+export interface RecordRepository<T extends VersionedRecord> extends CollectionRepository<T> {
+  get(id: string): Promise<T | null>
+  /**
+   * Writes a record as given, without checking or changing its version
+   */
+  upsert(item: T): Promise<void>
+  /**
+   * Atomically applies changes to a record and increments its version
+   * @param expectedVersion If given, fail with a ConflictError unless the stored record has this version
+   * @returns The updated record, or null if there is no record with this id
+   */
+  patch(id: string, changes: Partial<Omit<T, "id" | "version">>, expectedVersion?: number): Promise<T | null>
+  /**
+   * Atomically removes a record
+   * @param expectedVersion If given, fail with a ConflictError unless the stored record has this version
+   * @returns false if there is no record with this id
+   */
+  remove(id: string, expectedVersion?: number): Promise<boolean>
+  /**
+   * Lists records whose timestamp falls between from and to (inclusive),
+   * both in milliseconds since the epoch
+   */
+  range(from: number, to: number): Promise<T[]>
+}
+
+/**
+ * Repository for a single stored document
+ */
+export interface DocumentRepository<T> {
+  get(): Promise<T | null>
+  save(value: T): Promise<void>
+  /**
+   * Atomically replaces the document with the result of mutate (see DocumentStore.update)
+   * @returns The document that was written
+   */
+  update(mutate: (current: T | null) => T): Promise<T>
+}
+
+/**
+ * Creates the repository for a record collection stored under baseKey
+ */
+export type RecordRepositoryFactory = <T extends VersionedRecord>(
+  baseKey: string,
+  getTimestamp: (item: T) => number
+) => RecordRepository<T>
+
+/**
+ * Repositories for one child's data
+ */
+export interface ChildStorage {
+  plannedFeedings: CollectionRepository<PlannedFeeding>
+  actualFeedings: RecordRepository<ActualFeeding>
+  // Completions stored before schema version 5, when migration 5 moved them
+  // into actualFeedings; only migrations read and write them
+  completedFeedings: RecordRepository<LegacyCompletedFeeding>
+  // Append-only history of changes to the child's feedings and settings
+  auditLog: RecordRepository<AuditEntry>
+  // Removed actual feedings, kept for a while so they can be restored
+  trash: RecordRepository<TrashedFeeding>
+  settings: DocumentRepository<FeedingSettings>
+  profile: DocumentRepository<NewbornProfile>
+}
+
+/**
+ * All repositories the server modules use to read and write planner data
+ */
+export interface Storage {
+  readonly driver: StorageDriver
+  children: CollectionRepository<Child>
+  recommendations: CollectionRepository<FeedingRecommendation>
+  /**
+   * Gets the repositories for a child's data. Doesn't check that the child exists.
+   */
+  forChild(childId: string): ChildStorage
+  /**
+   * Gets child repositories stored under the given keys, for migrations that
+   * read data from where an older schema kept it
+   */
+  forKeys(keys: ChildStorageKeys): ChildStorage
+  // Applied schema version, maintained by the migration runner
+  schema: DocumentRepository<SchemaState>
+  // The household's PIN and session secret, see ../auth. Not included in backups.
+  household: DocumentRepository<Household>
+  // Raw access to the backend documents, for migrations that reshape stored data
+  documents: DocumentStore
+  keys(): Promise<string[]>
+  ping(): Promise<void>
+  close(): Promise<void>
+  // Whether the backend can be reached right now, without trying it
+  status(): StorageStatus
+}
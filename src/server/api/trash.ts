@@ -0,0 +1,132 @@
+import { getStorage, ConflictError } from "./storage"
+import { recordAudit, SYSTEM_ACTOR } from "./audit"
+import { CompletedAgainError, restoreCompletion } from "./completions"
+import type { ActualFeeding } from "./feedings"
+import { keepValidRecords, trashedFeedingSchema } from "./schemas"
+import { logger } from "./logger"
+
+const log = logger.child({ module: "trash" })
+
+// Removed actual feedings are moved to the child's trash instead of being
+// deleted, so a removal can be undone. They are kept for TRASH_RETENTION_DAYS;
+// older ones are left out when the trash is read, and purged when a feeding is
+// moved to it.
+
+export const TRASH_RETENTION_DAYS = 30
+
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+
+export interface TrashedFeeding extends ActualFeeding {
+  // When the feeding was removed (ISO instant)
+  deletedAt: string
+  // Name of the member who removed it
+  deletedBy: string
+}
+
+const isExpired = (feeding: TrashedFeeding) => Date.parse(feeding.deletedAt) < Date.now() - TRASH_RETENTION_MS
+
+// Deletes the feedings kept past the retention window. A failure is only
+// logged; they are tried again on the next move.
+async function purgeExpired(childId: string) {
+  try {
+    const trash = getStorage().forChild(childId).trash
+    for (const expired of await trash.range(0, Date.now() - TRASH_RETENTION_MS)) {
+      await trash.remove(expired.id)
+    }
+  } catch (error) {
+    log.warn("Error purging expired feedings from the trash", { error, childId })
+  }
+}
+
+/**
+ * Moves a feeding to the child's trash. The trash entry is written before the
+ * feeding is removed, so a failure in between leaves it in both rather than in
+ * neither. The entry is taken back out only when the removal is refused with a
+ * ConflictError, i.e. the feeding is known to still be there.
+ * @param remove Removes the feeding from the actual feedings, saying whether it was there
+ * @param actor Who removed it
+ * @returns Whether remove removed it
+ */
+export async function moveToTrash(
+  childId: string,
+  feeding: ActualFeeding,
+  remove: () => Promise<boolean>,
+  actor = SYSTEM_ACTOR
+) {
+  const trash = getStorage().forChild(childId).trash
+  await trash.upsert({ ...feeding, deletedAt: new Date().toISOString(), deletedBy: actor.name })
+
+  let removed: boolean
+  try {
+    removed = await remove()
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      await trash.remove(feeding.id).catch((undoError) =>
+        log.error("Error taking a feeding back out of the trash", { error: undoError, childId, id: feeding.id })
+      )
+    }
+    throw error
+  }
+
+  await purgeExpired(childId)
+  return removed
+}
+
+/**
+ * Gets the feedings removed within the retention window, most recently
+ * removed first, skipping corrupt ones
+ */
+export async function getTrash(childId: string) {
+  try {
+    const trash = await getStorage().forChild(childId).trash.list()
+    return keepValidRecords("removed feeding", trash, trashedFeedingSchema)
+      .filter((feeding) => !isExpired(feeding))
+      .reverse()
+  } catch (error) {
+    log.error("Error getting trash", { error })
+    throw error
+  }
+}
+
+/**
+ * Puts a removed feeding back, with its version incremented so clients that
+ * still hold the removed version get a conflict. A feeding that completed a
+ * planned feeding completes it again.
+ * @param actor Who restored it, for the audit log
+ * @returns The restored feeding, or null if it isn't in the trash or has expired
+ * @throws CompletedAgainError if its planned feeding has been completed again since
+ */
+export async function restoreFromTrash(childId: string, id: string, actor = SYSTEM_ACTOR) {
+  try {
+    const storage = getStorage().forChild(childId)
+    const trashed = await storage.trash.get(id)
+    if (!trashed || isExpired(trashed)) {
+      return null
+    }
+
+    // The feeding is put back before it leaves the trash, so a failure in
+    // between leaves it in both rather than in neither. Of two concurrent
+    // restores, both write the same feeding, and only the one whose removal
+    // went ahead reports it.
+    const { deletedAt, deletedBy, ...feeding } = trashed
+    const restored: ActualFeeding = { ...feeding, version: (feeding.version ?? 0) + 1 }
+    await restoreCompletion(storage, restored, () => storage.actualFeedings.upsert(restored))
+    if (!(await storage.trash.remove(id))) {
+      return null
+    }
+    await recordAudit(childId, {
+      actor,
+      entity: "actualFeeding",
+      entityId: id,
+      action: "restore",
+      before: null,
+      after: restored
+    })
+    return restored
+  } catch (error) {
+    if (!(error instanceof CompletedAgainError)) {
+      log.error("Error restoring feeding from trash", { error })
+    }
+    throw error
+  }
+}
@@ -0,0 +1,126 @@
+import { nanoid } from "nanoid"
+import { getStorage } from "./storage"
+import { recordAudit, SYSTEM_ACTOR } from "./audit"
+import { getProfile, type FeedingRecommendation } from "./recommendations"
+import type { Child } from "./children"
+import type { ActualFeeding } from "./feedings"
+import type { FeedingSettings } from "./settings"
+import { logger } from "./logger"
+
+const log = logger.child({ module: "twins" })
+
+// Twins share one planned schedule: each slot is stored in both children's
+// plans under the same id, with an amount for each baby. A feeding given to
+// both at once is logged as one actual feeding per child, linked by pairId.
+
+// One twin's intake over a time range, next to their daily recommendation
+export interface TwinIntake {
+  childId: string
+  name: string
+  totalMl: number
+  feedingCount: number
+  dailyIntake: FeedingRecommendation["dailyIntake"]
+}
+
+/**
+ * Combines two children's settings into the settings for their shared
+ * schedule: the window both can keep to, the first child's amounts and the
+ * locked times of both
+ */
+export function mergeTwinSettings(settings: FeedingSettings, twinSettings: FeedingSettings): FeedingSettings {
+  const min = Math.max(settings.feedWindows.min, twinSettings.feedWindows.min)
+  const max = Math.max(min, Math.min(settings.feedWindows.max, twinSettings.feedWindows.max))
+  const ideal = Math.min(max, Math.max(min, (settings.feedWindows.ideal + twinSettings.feedWindows.ideal) / 2))
+
+  const lockedTimes = [settings, twinSettings]
+    .filter((each) => each.lockedFeedings.enabled)
+    .flatMap((each) => each.lockedFeedings.times)
+
+  return {
+    ...settings,
+    feedWindows: { min, max, ideal },
+    lockedFeedings: {
+      enabled: lockedTimes.length > 0,
+      times: [...new Set(lockedTimes)].sort()
+    }
+  }
+}
+
+/**
+ * Copies a shared schedule for the second twin: the same slots, with amounts
+ * scaled from the first twin's target amount to the second's
+ */
+export function planForTwin<T extends { amount: number }>(
+  plan: T[],
+  settings: FeedingSettings,
+  twinSettings: FeedingSettings
+): T[] {
+  const ratio = settings.feedAmounts.target > 0
+    ? twinSettings.feedAmounts.target / settings.feedAmounts.target
+    : 1
+
+  return plan.map((feeding) => ({ ...feeding, amount: Math.round(feeding.amount * ratio * 10) / 10 }))
+}
+
+/**
+ * Logs a feeding given to both twins at once, with each baby's own amount
+ * @param feeding Time, unit and notes shared by both, and the first child's amount
+ * @param twinVolumeMl Amount the twin drank
+ * @param actor Who logged the feeding, for the audit log
+ * @returns The first child's actual feedings
+ */
+export async function addPairedFeeding(
+  childId: string,
+  twinId: string,
+  feeding: Omit<ActualFeeding, "id" | "version" | "pairId">,
+  twinVolumeMl: number,
+  actor = SYSTEM_ACTOR
+) {
+  try {
+    const storage = getStorage()
+    const pairId = nanoid()
+    const records: [string, ActualFeeding][] = [
+      [childId, { ...feeding, id: nanoid(), pairId, version: 1 }],
+      [twinId, { ...feeding, volumeMl: twinVolumeMl, id: nanoid(), pairId, version: 1 }]
+    ]
+
+    for (const [id, record] of records) {
+      await storage.forChild(id).actualFeedings.upsert(record)
+      await recordAudit(id, { actor, entity: "actualFeeding", entityId: record.id, action: "create", before: null, after: record })
+    }
+
+    return await storage.forChild(childId).actualFeedings.list()
+  } catch (error) {
+    log.error("Error adding paired feeding", { error })
+    throw error
+  }
+}
+
+/**
+ * Totals what each twin drank over a time range, for showing side by side
+ * against their daily recommendation
+ * @param range Time range in ms since the epoch, inclusive
+ */
+export async function getTwinIntake(twins: Child[], range: { from?: number; to?: number }) {
+  try {
+    return await Promise.all(
+      twins.map(async (child): Promise<TwinIntake> => {
+        const feedings = await getStorage()
+          .forChild(child.id)
+          .actualFeedings.range(range.from ?? 0, range.to ?? Number.MAX_SAFE_INTEGER)
+        const profile = await getProfile(child.id)
+
+        return {
+          childId: child.id,
+          name: child.name,
+          totalMl: Math.round(feedings.reduce((total, feeding) => total + feeding.volumeMl, 0) * 10) / 10,
+          feedingCount: feedings.length,
+          dailyIntake: profile.currentRecommendation.dailyIntake
+        }
+      })
+    )
+  } catch (error) {
+    log.error("Error getting twin intake", { error })
+    throw error
+  }
+}
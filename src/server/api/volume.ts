@@ -0,0 +1,19 @@
+import type { VolumeUnit } from "./feedings"
+
+export const ML_PER_OZ = 29.5735
+
+/**
+ * Converts an amount to millilitres, rounded to 0.1 ml
+ */
+export function toMillilitres(value: number, unit: VolumeUnit) {
+  const ml = unit === "oz" ? value * ML_PER_OZ : value
+  return Math.round(ml * 10) / 10
+}
+
+/**
+ * Converts millilitres to the given unit, rounded to 0.1
+ */
+export function fromMillilitres(volumeMl: number, unit: VolumeUnit) {
+  const value = unit === "oz" ? volumeMl / ML_PER_OZ : volumeMl
+  return Math.round(value * 10) / 10
+}